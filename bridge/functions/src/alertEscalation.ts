@@ -0,0 +1,342 @@
+/**
+ * Alert Escalation Chains
+ *
+ * A high severity alert that nobody acknowledges climbs a chain of recipients:
+ * the assigned caretaker, then the assigned doctor, then an available on-call
+ * clinician, and finally the patient's emergency contact. Each tier has a
+ * fixed time to acknowledge before the next one is notified. Tiers without a
+ * recipient are skipped, and every step taken is recorded on the alert in
+ * escalationSteps. Acknowledging, claiming, or resolving stops the chain.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  getNotifiableContacts,
+  notifyEmergencyContacts,
+} from "./emergencyContacts.js";
+
+export type EscalationTier =
+  | "caretaker"
+  | "doctor"
+  | "onCall"
+  | "emergencyContact";
+
+export const ESCALATION_CHAIN: EscalationTier[] = [
+  "caretaker",
+  "doctor",
+  "onCall",
+  "emergencyContact",
+];
+
+// Minutes each tier has to acknowledge before the next tier is notified
+export const ESCALATION_TIMEOUT_MINUTES: Record<
+  Exclude<EscalationTier, "emergencyContact">,
+  number
+> = {
+  caretaker: 10,
+  doctor: 10,
+  onCall: 15,
+};
+
+export interface EscalationStep {
+  tier: EscalationTier;
+  recipientId: string | null;
+  recipientName: string;
+  notifiedAt: admin.firestore.Timestamp;
+  reason: string;
+}
+
+interface EscalationRecipient {
+  // Null for emergency contacts, who have no account and are reached by email
+  // or SMS
+  id: string | null;
+  name: string;
+}
+
+/**
+ * Find who should be notified at a tier
+ * @param {EscalationTier} tier
+ * @param {admin.firestore.DocumentData} patientData
+ * @return {Promise<EscalationRecipient | null>} null to skip the tier
+ */
+async function findRecipient(
+  tier: EscalationTier,
+  patientData: admin.firestore.DocumentData
+): Promise<EscalationRecipient | null> {
+  const loadUser = async (userId: string): Promise<EscalationRecipient> => {
+    const userDoc = await admin.firestore().doc(`users/${userId}`).get();
+    const userData = userDoc.data();
+    return {
+      id: userId,
+      name: userData ?
+        `${userData.firstName} ${userData.lastName}` :
+        "Unknown",
+    };
+  };
+
+  switch (tier) {
+  case "caretaker":
+    return patientData.assignedCaretakerId ?
+      loadUser(patientData.assignedCaretakerId) :
+      null;
+
+  case "doctor":
+    return patientData.assignedDoctorId ?
+      loadUser(patientData.assignedDoctorId) :
+      null;
+
+  case "onCall": {
+    const onCallSnapshot = await admin
+      .firestore()
+      .collection("users")
+      .where("role", "==", "medical")
+      .where("onCall", "==", true)
+      .where("availability", "==", "available")
+      .limit(5)
+      .get();
+
+    // The assigned doctor has already had their turn
+    const onCallDoc = onCallSnapshot.docs.find(
+      (doc) => doc.id !== patientData.assignedDoctorId
+    );
+    if (!onCallDoc) return null;
+
+    const onCallData = onCallDoc.data();
+    return {
+      id: onCallDoc.id,
+      name: `${onCallData.firstName} ${onCallData.lastName}`,
+    };
+  }
+
+  case "emergencyContact": {
+    const contacts = getNotifiableContacts(patientData);
+    if (contacts.length === 0) return null;
+
+    return {
+      id: null,
+      name: contacts.map((contact) => contact.name).join(", "),
+    };
+  }
+  }
+}
+
+/**
+ * Notify a recipient that an alert needs their attention
+ * @param {EscalationRecipient} recipient
+ * @param {string} patientId
+ * @param {string} alertId
+ * @param {admin.firestore.DocumentData} alertData
+ * @param {admin.firestore.DocumentData} patientData
+ * @param {string} reason
+ * @return {Promise<boolean>} false when nobody was reached, e.g. emergency
+ *   contacts skipped by their cooldown
+ */
+async function notifyRecipient(
+  recipient: EscalationRecipient,
+  patientId: string,
+  alertId: string,
+  alertData: admin.firestore.DocumentData,
+  patientData: admin.firestore.DocumentData,
+  reason: string
+): Promise<boolean> {
+  const patientName = `${patientData.firstName} ${patientData.lastName}`;
+
+  if (recipient.id) {
+    await admin.firestore().collection("notifications").add({
+      userId: recipient.id,
+      type: "escalation",
+      severity: "high",
+      title: `URGENT: ${alertData.title}`,
+      message: `${patientName}: ${alertData.message}. ${reason}.`,
+      patientId: patientId,
+      patientName: patientName,
+      alertId: alertId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      read: false,
+      sent: false,
+    });
+    return true;
+  }
+
+  const reached = await notifyEmergencyContacts(
+    patientId,
+    patientData,
+    "escalation",
+    alertData.title,
+    alertId
+  );
+  return reached > 0;
+}
+
+/**
+ * Notify the next tier with a recipient, starting at `fromLevel`, and schedule
+ * its timeout. Caretaker and doctor tiers are not re-notified when
+ * `alreadyNotified` is set (the alert notification just reached them).
+ * @param {admin.firestore.DocumentReference} alertRef
+ * @param {admin.firestore.DocumentData} alertData
+ * @param {string} patientId
+ * @param {admin.firestore.DocumentData} patientData
+ * @param {number} fromLevel
+ * @param {string} reason
+ * @param {boolean} alreadyNotified
+ * @return {Promise<EscalationStep | null>} null once the chain is exhausted
+ */
+async function escalateFrom(
+  alertRef: admin.firestore.DocumentReference,
+  alertData: admin.firestore.DocumentData,
+  patientId: string,
+  patientData: admin.firestore.DocumentData,
+  fromLevel: number,
+  reason: string,
+  alreadyNotified: boolean
+): Promise<EscalationStep | null> {
+  const now = admin.firestore.Timestamp.now();
+
+  for (let level = fromLevel; level < ESCALATION_CHAIN.length; level++) {
+    const tier = ESCALATION_CHAIN[level];
+    const recipient = await findRecipient(tier, patientData);
+    if (!recipient) continue;
+
+    const careTeamMember = tier === "caretaker" || tier === "doctor";
+    if (!(alreadyNotified && careTeamMember)) {
+      const notified = await notifyRecipient(
+        recipient,
+        patientId,
+        alertRef.id,
+        alertData,
+        patientData,
+        reason
+      );
+
+      // Only record steps that reached someone
+      if (!notified) continue;
+    }
+
+    const step: EscalationStep = {
+      tier: tier,
+      recipientId: recipient.id,
+      recipientName: recipient.name,
+      notifiedAt: now,
+      reason: reason,
+    };
+
+    const timeout = tier === "emergencyContact" ?
+      null :
+      ESCALATION_TIMEOUT_MINUTES[tier];
+
+    await alertRef.update({
+      escalationLevel: level,
+      escalationDueAt: timeout ?
+        admin.firestore.Timestamp.fromMillis(
+          now.toMillis() + timeout * 60 * 1000
+        ) :
+        null,
+      escalationSteps: admin.firestore.FieldValue.arrayUnion(step),
+      ...(recipient.id && {
+        escalationRecipientIds:
+          admin.firestore.FieldValue.arrayUnion(recipient.id),
+      }),
+    });
+
+    // Patients opted in to auto-escalation get the on-call clinician as their
+    // doctor
+    if (
+      tier === "onCall" &&
+      recipient.id &&
+      !patientData.assignedDoctorId &&
+      patientData.autoEscalateToDoctor
+    ) {
+      await admin.firestore().doc(`users/${patientId}`).update({
+        assignedDoctorId: recipient.id,
+        assignedDoctor: recipient.name,
+        escalatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        escalatedFrom: patientData.assignedCaretakerId || null,
+        escalationReason: reason,
+      });
+    }
+
+    logger.info(
+      `Escalated alert ${alertRef.id} for patient ${patientId} ` +
+      `to ${tier} (${recipient.name})`
+    );
+    return step;
+  }
+
+  await alertRef.update({escalationDueAt: null, escalationExhausted: true});
+  logger.warn(
+    `Escalation chain exhausted for alert ${alertRef.id} ` +
+    `of patient ${patientId}`
+  );
+  return null;
+}
+
+/**
+ * Start the escalation chain for a new or newly high severity alert
+ * @param {admin.firestore.DocumentReference} alertRef
+ * @param {admin.firestore.DocumentData} alertData
+ * @param {string} patientId
+ * @param {admin.firestore.DocumentData} patientData
+ */
+export async function startAlertEscalation(
+  alertRef: admin.firestore.DocumentReference,
+  alertData: admin.firestore.DocumentData,
+  patientId: string,
+  patientData: admin.firestore.DocumentData
+): Promise<void> {
+  if (alertData.escalationLevel !== undefined) return;
+
+  await escalateFrom(
+    alertRef,
+    alertData,
+    patientId,
+    patientData,
+    0,
+    "High severity alert raised",
+    true
+  );
+}
+
+/**
+ * Move an unacknowledged alert whose timeout has passed to the next tier
+ * @param {admin.firestore.QueryDocumentSnapshot} alertDoc
+ */
+export async function advanceAlertEscalation(
+  alertDoc: admin.firestore.QueryDocumentSnapshot
+): Promise<void> {
+  const alertData = alertDoc.data();
+
+  // Acknowledged or resolved alerts stop escalating
+  if (alertData.status !== "open") {
+    await alertDoc.ref.update({escalationDueAt: null});
+    return;
+  }
+
+  const patientId = alertDoc.ref.parent.parent?.id;
+  if (!patientId) return;
+
+  const patientDoc = await admin.firestore().doc(`users/${patientId}`).get();
+  const patientData = patientDoc.data();
+  if (!patientData) {
+    await alertDoc.ref.update({escalationDueAt: null});
+    return;
+  }
+
+  const currentTier = ESCALATION_CHAIN[alertData.escalationLevel ?? 0];
+  const minutes = currentTier === "emergencyContact" ?
+    0 :
+    ESCALATION_TIMEOUT_MINUTES[currentTier];
+  const tierName = currentTier === "onCall" ?
+    "on-call clinician" :
+    currentTier;
+
+  await escalateFrom(
+    alertDoc.ref,
+    alertData,
+    patientId,
+    patientData,
+    (alertData.escalationLevel ?? 0) + 1,
+    `Not acknowledged by the ${tierName} within ${minutes} minutes`,
+    false
+  );
+}
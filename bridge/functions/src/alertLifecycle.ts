@@ -0,0 +1,237 @@
+/**
+ * Alert Lifecycle
+ *
+ * Alerts move through open -> acknowledged -> resolved. A condition that keeps
+ * firing updates its existing alert (occurrenceCount, lastOccurredAt) instead
+ * of creating a new document, and an alert that was auto-resolved within the
+ * cooldown window is reopened rather than duplicated. Alerts resolve on their
+ * own once a reading covering their vitals no longer triggers the condition.
+ *
+ * Readings for a patient can be processed concurrently (a streaming oximeter,
+ * or a raw sample and its summary), so the lookup and the writes run in one
+ * transaction; otherwise each run could see no active alert and create its
+ * own.
+ */
+
+import * as admin from "firebase-admin";
+import {VitalsAlert} from "./alertThresholds.js";
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+export const ACTIVE_ALERT_STATUSES: AlertStatus[] = ["open", "acknowledged"];
+
+// Repeats of a condition within this window reuse the same alert
+export const ALERT_COOLDOWN_MINUTES = 30;
+
+const SEVERITY_RANK: Record<VitalsAlert["severity"], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+type AlertUpdate = admin.firestore.UpdateData<admin.firestore.DocumentData>;
+
+interface AlertSnapshot {
+  id: string;
+  data: admin.firestore.DocumentData;
+}
+
+export interface AlertLifecycleResult {
+  created: string[];
+  updated: string[];
+  resolved: string[];
+  // Alerts whose severity increased on a repeat occurrence
+  escalated: AlertSnapshot[];
+  // Auto-resolved alerts that fired again, with their escalation state reset
+  reopened: AlertSnapshot[];
+}
+
+// Escalation state cleared when an alert is reopened, so the chain starts over
+const ESCALATION_FIELDS = [
+  "escalationLevel",
+  "escalationDueAt",
+  "escalationSteps",
+  "escalationRecipientIds",
+  "escalationExhausted",
+];
+
+export interface AlertLifecycleOptions {
+  // Resolve active alerts the reading covers that no longer fire; off for
+  // readings that do not show the current state, such as a summary of a whole
+  // interval
+  autoResolve?: boolean;
+}
+
+/**
+ * Create, update, reopen, or auto-resolve a patient's alerts for a new reading
+ * @param {string} patientId
+ * @param {string | null} vitalId
+ * @param {admin.firestore.DocumentData} reading
+ * @param {VitalsAlert[]} firing
+ * @param {AlertLifecycleOptions} options
+ * @return {Promise<AlertLifecycleResult>}
+ */
+export async function applyAlertLifecycle(
+  patientId: string,
+  vitalId: string | null,
+  reading: admin.firestore.DocumentData,
+  firing: VitalsAlert[],
+  options: AlertLifecycleOptions = {}
+): Promise<AlertLifecycleResult> {
+  const {autoResolve = true} = options;
+  const db = admin.firestore();
+  const alertsRef = db.collection(`patients/${patientId}/alerts`);
+  const now = admin.firestore.Timestamp.now();
+  const cooldownStart = admin.firestore.Timestamp.fromMillis(
+    now.toMillis() - ALERT_COOLDOWN_MINUTES * 60 * 1000
+  );
+
+  return db.runTransaction(async (transaction) => {
+    const [activeSnapshot, resolvedSnapshot] = await Promise.all([
+      transaction.get(alertsRef.where("status", "in", ACTIVE_ALERT_STATUSES)),
+      transaction.get(
+        alertsRef
+          .where("status", "==", "resolved")
+          .where("resolvedAt", ">=", cooldownStart)
+      ),
+    ]);
+
+    // Index alerts by condition; only auto-resolved alerts may be reopened
+    type AlertDoc = admin.firestore.QueryDocumentSnapshot;
+    const active = new Map<string, AlertDoc>();
+    activeSnapshot.docs.forEach((doc) => {
+      const conditionKey = doc.data().conditionKey;
+      if (conditionKey) active.set(conditionKey, doc);
+    });
+
+    const recentlyResolved = new Map<string, AlertDoc>();
+    resolvedSnapshot.docs.forEach((doc) => {
+      const data = doc.data();
+      if (data.conditionKey && data.resolvedBy === "system") {
+        recentlyResolved.set(data.conditionKey, doc);
+      }
+    });
+
+    const result: AlertLifecycleResult = {
+      created: [],
+      updated: [],
+      resolved: [],
+      escalated: [],
+      reopened: [],
+    };
+
+    for (const alert of firing) {
+      const existing = active.get(alert.conditionKey) ??
+        recentlyResolved.get(alert.conditionKey);
+
+      if (!existing) {
+        const alertRef = alertsRef.doc();
+        transaction.set(alertRef, {
+          ...alert,
+          status: "open",
+          occurrenceCount: 1,
+          timestamp: now,
+          lastOccurredAt: now,
+          patientId: patientId,
+          vitalId: vitalId,
+        });
+        result.created.push(alertRef.id);
+        continue;
+      }
+
+      const existingData = existing.data();
+      const previousSeverity =
+        existingData.severity as VitalsAlert["severity"];
+      const escalated =
+        SEVERITY_RANK[alert.severity] > SEVERITY_RANK[previousSeverity];
+
+      const update: AlertUpdate = {
+        message: alert.message,
+        occurrenceCount: admin.firestore.FieldValue.increment(1),
+        lastOccurredAt: now,
+      };
+
+      if (vitalId) {
+        update.vitalId = vitalId;
+      }
+
+      if (escalated) {
+        update.severity = alert.severity;
+      }
+
+      if (existingData.status === "resolved") {
+        update.status = "open";
+        update.resolvedAt = admin.firestore.FieldValue.delete();
+        update.resolvedBy = admin.firestore.FieldValue.delete();
+        update.resolutionNote = admin.firestore.FieldValue.delete();
+
+        // A reopened alert notifies and escalates again like a new one
+        const reopenedData: admin.firestore.DocumentData = {
+          ...existingData,
+          ...alert,
+          status: "open",
+        };
+        ESCALATION_FIELDS.forEach((field) => {
+          update[field] = admin.firestore.FieldValue.delete();
+          delete reopenedData[field];
+        });
+        result.reopened.push({id: existing.id, data: reopenedData});
+      } else if (escalated) {
+        result.escalated.push({
+          id: existing.id,
+          data: {...existingData, ...alert},
+        });
+      }
+
+      transaction.update(existing.ref, update);
+      result.updated.push(existing.id);
+    }
+
+    // Auto-resolve active alerts whose condition no longer fires for a reading
+    // that covers them
+    const firingKeys = new Set(firing.map((alert) => alert.conditionKey));
+
+    active.forEach((doc, conditionKey) => {
+      const vitals: string[] = doc.data().vitals || [];
+      if (!autoResolve || firingKeys.has(conditionKey)) return;
+      if (vitals.length === 0) return;
+      if (!vitals.every((vital) => typeof reading[vital] === "number")) return;
+
+      transaction.update(doc.ref, {
+        status: "resolved",
+        resolvedAt: now,
+        resolvedBy: "system",
+        resolutionNote: "Readings returned to normal",
+      });
+      result.resolved.push(doc.id);
+    });
+
+    return result;
+  });
+}
+
+/**
+ * Recompute a patient's status from their unresolved alerts
+ * @param {string} patientId
+ * @return {Promise<string>} "stable", "warning" or "critical"
+ */
+export async function recomputePatientStatus(
+  patientId: string
+): Promise<"stable" | "warning" | "critical"> {
+  const activeSnapshot = await admin
+    .firestore()
+    .collection(`patients/${patientId}/alerts`)
+    .where("status", "in", ACTIVE_ALERT_STATUSES)
+    .get();
+
+  const severities = activeSnapshot.docs.map((doc) => doc.data().severity);
+  let status: "stable" | "warning" | "critical" = "stable";
+  if (severities.includes("high")) {
+    status = "critical";
+  } else if (severities.includes("medium")) {
+    status = "warning";
+  }
+
+  await admin.firestore().doc(`users/${patientId}`).update({status: status});
+  return status;
+}
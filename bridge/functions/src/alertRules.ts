@@ -0,0 +1,326 @@
+/**
+ * Trend Alert Rules
+ *
+ * Evaluates sliding windows over patients/{id}/vitals so alerts can be raised
+ * on how a vital is changing, not just on a single reading. Three rule types
+ * are supported:
+ *   - delta:      the vital changed by at least `delta` across the window
+ *   - sustained:  the vital stayed above/below `limit` for `windowMinutes`
+ *   - nOfM:       `count` of the last `of` readings within `windowMinutes`
+ *                 were out of range
+ *
+ * Windows are queried per vital, so a high-frequency stream of one vital does
+ * not push another vital's readings out of its window.
+ */
+
+import * as admin from "firebase-admin";
+import {
+  ThresholdProfile,
+  ThresholdVital,
+  VitalsAlert,
+} from "./alertThresholds.js";
+
+// Weight has no threshold profile, so it can only be used in delta and
+// sustained rules
+export type TrendVital = ThresholdVital | "weight";
+
+interface BaseRule {
+  id: string;
+  vital: TrendVital;
+  severity: VitalsAlert["severity"];
+  title: string;
+}
+
+export interface DeltaRule extends BaseRule {
+  type: "delta";
+  windowMinutes: number;
+  delta: number; // negative for a drop, positive for a rise
+}
+
+export interface SustainedRule extends BaseRule {
+  type: "sustained";
+  windowMinutes: number;
+  direction: "above" | "below";
+  limit: number;
+}
+
+export interface NOfMRule extends BaseRule {
+  type: "nOfM";
+  vital: ThresholdVital;
+  count: number;
+  of: number;
+  windowMinutes: number; // older readings do not count towards `of`
+  // Uses the patient's threshold profile when no explicit limits are given
+  low?: number;
+  high?: number;
+}
+
+export type TrendRule = DeltaRule | SustainedRule | NOfMRule;
+
+export type TrendAlert = VitalsAlert & { ruleId: string };
+
+export interface WindowReading {
+  value: number;
+  timestamp: Date;
+}
+
+const VITAL_UNITS: Record<TrendVital, string> = {
+  heartRate: "bpm",
+  bloodPressureSystolic: "mmHg",
+  bloodPressureDiastolic: "mmHg",
+  oxygenLevel: "%",
+  temperature: "°C",
+  glucose: "mg/dL",
+  weight: "kg",
+};
+
+// Maximum readings of one vital loaded per window query
+const MAX_WINDOW_READINGS = 1000;
+
+export const DEFAULT_TREND_RULES: TrendRule[] = [
+  {
+    id: "spo2-drop-1h",
+    type: "delta",
+    vital: "oxygenLevel",
+    windowMinutes: 60,
+    delta: -4,
+    severity: "high",
+    title: "Falling Oxygen Saturation",
+  },
+  {
+    id: "systolic-rise-3d",
+    type: "delta",
+    vital: "bloodPressureSystolic",
+    windowMinutes: 3 * 24 * 60,
+    delta: 20,
+    severity: "medium",
+    title: "Rising Blood Pressure",
+  },
+  {
+    id: "hr-sustained-high-10m",
+    type: "sustained",
+    vital: "heartRate",
+    windowMinutes: 10,
+    direction: "above",
+    limit: 110,
+    severity: "high",
+    title: "Sustained High Heart Rate",
+  },
+  {
+    // Rapid fluid gain is the earliest sign of heart failure decompensation
+    id: "weight-gain-3d",
+    type: "delta",
+    vital: "weight",
+    windowMinutes: 3 * 24 * 60,
+    delta: 2,
+    severity: "medium",
+    title: "Rapid Weight Gain",
+  },
+  {
+    id: "glucose-3-of-5",
+    type: "nOfM",
+    vital: "glucose",
+    count: 3,
+    of: 5,
+    windowMinutes: 7 * 24 * 60,
+    severity: "medium",
+    title: "Repeated Out-of-Range Glucose",
+  },
+];
+
+/**
+ * Describe a window length in the largest whole unit
+ * @param {number} minutes
+ * @return {string}
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day(s)`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour(s)`;
+  return `${minutes} minutes`;
+}
+
+/**
+ * Evaluate a single rule against readings for its vital, newest first
+ * @param {TrendRule} rule
+ * @param {WindowReading[]} readings
+ * @param {ThresholdProfile} profile
+ * @return {VitalsAlert | null}
+ */
+export function evaluateTrendRule(
+  rule: TrendRule,
+  readings: WindowReading[],
+  profile: ThresholdProfile
+): VitalsAlert | null {
+  if (readings.length < 2) return null;
+
+  const unit = VITAL_UNITS[rule.vital];
+  const latest = readings[0];
+  const window = formatMinutes(rule.windowMinutes);
+
+  switch (rule.type) {
+  case "delta": {
+    // Compare the newest reading with the oldest one inside the window
+    const windowStart =
+      latest.timestamp.getTime() - rule.windowMinutes * 60 * 1000;
+    const inWindow = readings.filter(
+      (r) => r.timestamp.getTime() >= windowStart
+    );
+    if (inWindow.length < 2) return null;
+
+    const earliest = inWindow[inWindow.length - 1];
+    const change = latest.value - earliest.value;
+    const triggered = rule.delta < 0 ?
+      change <= rule.delta :
+      change >= rule.delta;
+    if (!triggered) return null;
+
+    return {
+      title: rule.title,
+      conditionKey: `trend:${rule.id}`,
+      vitals: [rule.vital],
+      message: `${rule.title}: ${earliest.value} → ${latest.value} ${unit} ` +
+        `over ${window}`,
+      severity: rule.severity,
+    };
+  }
+
+  case "sustained": {
+    // Walk back from the newest reading while the vital stays past the limit
+    const isPast = (value: number) =>
+      rule.direction === "above" ? value > rule.limit : value < rule.limit;
+    let runStart: WindowReading | null = null;
+
+    for (const reading of readings) {
+      if (!isPast(reading.value)) break;
+      runStart = reading;
+    }
+
+    if (!runStart) return null;
+
+    const runMinutes =
+      (latest.timestamp.getTime() - runStart.timestamp.getTime()) /
+      (60 * 1000);
+    if (runMinutes < rule.windowMinutes) return null;
+
+    return {
+      title: rule.title,
+      conditionKey: `trend:${rule.id}`,
+      vitals: [rule.vital],
+      message: `${rule.title}: ${rule.direction} ${rule.limit} ${unit} ` +
+        `for ${Math.round(runMinutes)} minutes ` +
+        `(now ${latest.value} ${unit})`,
+      severity: rule.severity,
+    };
+  }
+
+  case "nOfM": {
+    const low = rule.low ?? profile[rule.vital].low;
+    const high = rule.high ?? profile[rule.vital].high;
+    const recent = readings.slice(0, rule.of);
+    if (recent.length < rule.of) return null;
+
+    const outOfRange = recent.filter(
+      (r) =>
+        (low !== undefined && r.value < low) ||
+        (high !== undefined && r.value > high)
+    ).length;
+    if (outOfRange < rule.count) return null;
+
+    return {
+      title: rule.title,
+      conditionKey: `trend:${rule.id}`,
+      vitals: [rule.vital],
+      message: `${rule.title}: ${outOfRange} of the last ${rule.of} ` +
+        `readings within ${window} were out of range ` +
+        `(latest ${latest.value} ${unit})`,
+      severity: rule.severity,
+    };
+  }
+
+  default:
+    return null;
+  }
+}
+
+/**
+ * Load the readings for a vital in the window ending at (and including) the
+ * given time, newest first. Only documents that carry the vital are read
+ * (needs the per-vital indexes in firestore.indexes.json).
+ * @param {string} patientId
+ * @param {TrendVital} vital
+ * @param {admin.firestore.Timestamp} until
+ * @param {number} windowMinutes
+ * @param {number} limit
+ * @return {Promise<WindowReading[]>}
+ */
+async function loadWindow(
+  patientId: string,
+  vital: TrendVital,
+  until: admin.firestore.Timestamp,
+  windowMinutes: number,
+  limit: number = MAX_WINDOW_READINGS
+): Promise<WindowReading[]> {
+  const since = admin.firestore.Timestamp.fromMillis(
+    until.toMillis() - windowMinutes * 60 * 1000
+  );
+  const snapshot = await admin
+    .firestore()
+    .collection(`patients/${patientId}/vitals`)
+    .where(vital, "!=", null)
+    .where("timestamp", "<=", until)
+    .where("timestamp", ">=", since)
+    .orderBy("timestamp", "desc")
+    .limit(limit)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => doc.data())
+    .filter((data) => typeof data[vital] === "number")
+    .map((data) => ({
+      value: data[vital] as number,
+      timestamp: data.timestamp.toDate(),
+    }));
+}
+
+/**
+ * Evaluate every rule whose vital is present in the new reading
+ * @param {string} patientId
+ * @param {admin.firestore.DocumentData} reading
+ * @param {ThresholdProfile} profile
+ * @param {TrendRule[]} rules
+ * @return {Promise<TrendAlert[]>}
+ */
+export async function evaluateTrendRules(
+  patientId: string,
+  reading: admin.firestore.DocumentData,
+  profile: ThresholdProfile,
+  rules: TrendRule[] = DEFAULT_TREND_RULES
+): Promise<TrendAlert[]> {
+  const alerts: TrendAlert[] = [];
+  const until: admin.firestore.Timestamp = reading.timestamp;
+
+  for (const rule of rules) {
+    if (typeof reading[rule.vital] !== "number") continue;
+
+    // Sustained rules look back further so the start of the run is inside the
+    // window; nOfM rules only need their last `of` readings
+    const windowMinutes = rule.type === "sustained" ?
+      rule.windowMinutes * 2 :
+      rule.windowMinutes;
+    const limit = rule.type === "nOfM" ? rule.of : MAX_WINDOW_READINGS;
+    const readings = await loadWindow(
+      patientId,
+      rule.vital,
+      until,
+      windowMinutes,
+      limit
+    );
+
+    const alert = evaluateTrendRule(rule, readings, profile);
+    if (alert) {
+      alerts.push({...alert, ruleId: rule.id});
+    }
+  }
+
+  return alerts;
+}
@@ -0,0 +1,419 @@
+/**
+ * Alert Threshold Profiles
+ *
+ * Resolves the per-patient vital sign limits used to decide when a reading
+ * should raise an alert. Defaults are adjusted for the patient's chronic
+ * conditions and can be overridden by the assigned doctor.
+ *
+ * Kept in sync with web/src/services/alertThresholds.ts
+ */
+
+import * as admin from "firebase-admin";
+
+export type ThresholdVital =
+  | "heartRate"
+  | "bloodPressureSystolic"
+  | "bloodPressureDiastolic"
+  | "oxygenLevel"
+  | "temperature"
+  | "glucose";
+
+export interface ThresholdRange {
+  criticalLow?: number;
+  low?: number;
+  high?: number;
+  criticalHigh?: number;
+}
+
+export type ThresholdProfile = Record<ThresholdVital, ThresholdRange>;
+
+// A null value removes that limit from the condition-adjusted defaults
+export type ThresholdRangeOverride = {
+  [K in keyof ThresholdRange]?: number | null;
+};
+
+export type ThresholdOverrides = Partial<
+  Record<ThresholdVital, ThresholdRangeOverride>
+>;
+
+export interface VitalsReading {
+  heartRate?: number;
+  bloodPressureSystolic?: number;
+  bloodPressureDiastolic?: number;
+  oxygenLevel?: number;
+  temperature?: number;
+  glucose?: number;
+}
+
+export interface VitalsAlert {
+  title: string;
+  message: string;
+  severity: "low" | "medium" | "high";
+  // Identifies the condition for deduplication, e.g. "heartRate:high"
+  conditionKey: string;
+  // Vitals that must be present in a reading to resolve the alert
+  vitals: (ThresholdVital | "news2" | "weight")[];
+}
+
+export const THRESHOLD_VITALS: ThresholdVital[] = [
+  "heartRate",
+  "bloodPressureSystolic",
+  "bloodPressureDiastolic",
+  "oxygenLevel",
+  "temperature",
+  "glucose",
+];
+
+/**
+ * Limits applied to every patient unless a condition or doctor override applies
+ */
+export const DEFAULT_THRESHOLDS: ThresholdProfile = {
+  heartRate: {criticalLow: 50, low: 60, high: 100, criticalHigh: 120},
+  bloodPressureSystolic: {low: 90, high: 140, criticalHigh: 160},
+  bloodPressureDiastolic: {low: 60, high: 90},
+  oxygenLevel: {criticalLow: 90, low: 95},
+  temperature: {low: 36, high: 37.5, criticalHigh: 38.5},
+  glucose: {criticalLow: 54, low: 70, high: 180, criticalHigh: 250},
+};
+
+/**
+ * Adjustments applied when a patient's chronicConditions match one of the
+ * keywords
+ */
+export const CONDITION_THRESHOLDS: {
+  keywords: string[];
+  thresholds: ThresholdOverrides;
+}[] = [
+  {
+    keywords: ["copd", "chronic obstructive"],
+    thresholds: {oxygenLevel: {criticalLow: 85, low: 88}},
+  },
+  {
+    keywords: ["heart disease", "cardiovascular"],
+    thresholds: {heartRate: {criticalLow: 40, low: 50}},
+  },
+  {
+    keywords: ["hypertension", "high blood pressure"],
+    thresholds: {
+      bloodPressureSystolic: {high: 150, criticalHigh: 180},
+      bloodPressureDiastolic: {high: 95},
+    },
+  },
+  {
+    keywords: ["diabetes"],
+    thresholds: {glucose: {high: 200, criticalHigh: 300}},
+  },
+];
+
+/**
+ * Merge a set of overrides on top of a profile, range by range
+ * @param {ThresholdProfile} profile
+ * @param {ThresholdOverrides} overrides
+ * @return {ThresholdProfile}
+ */
+function applyOverrides(
+  profile: ThresholdProfile,
+  overrides: ThresholdOverrides
+): ThresholdProfile {
+  const merged = {...profile};
+
+  for (const vital of THRESHOLD_VITALS) {
+    const override = overrides[vital];
+    if (!override) continue;
+
+    const range: ThresholdRange = {...merged[vital]};
+    const entries = Object.entries(override) as [
+      keyof ThresholdRange,
+      number | null | undefined,
+    ][];
+    for (const [key, value] of entries) {
+      if (value === null) {
+        delete range[key]; // the doctor removed this limit
+      } else if (value !== undefined) {
+        range[key] = value;
+      }
+    }
+    merged[vital] = range;
+  }
+
+  return merged;
+}
+
+/**
+ * Build the condition-adjusted profile for a patient, before any doctor
+ * overrides
+ * @param {string[]} chronicConditions
+ * @return {ThresholdProfile}
+ */
+export function getConditionThresholds(
+  chronicConditions: string[] = []
+): ThresholdProfile {
+  const conditions = chronicConditions.map(
+    (condition) => condition.toLowerCase()
+  );
+  const matches = (keywords: string[]) =>
+    conditions.some(
+      (condition) => keywords.some((keyword) => condition.includes(keyword))
+    );
+
+  return CONDITION_THRESHOLDS.reduce(
+    (profile, {keywords, thresholds}) =>
+      matches(keywords) ? applyOverrides(profile, thresholds) : profile,
+    DEFAULT_THRESHOLDS
+  );
+}
+
+/**
+ * Resolve the effective profile: defaults, then condition adjustments, then
+ * doctor overrides
+ * @param {string[]} chronicConditions
+ * @param {ThresholdOverrides} overrides
+ * @return {ThresholdProfile}
+ */
+export function resolveThresholdProfile(
+  chronicConditions: string[] = [],
+  overrides: ThresholdOverrides = {}
+): ThresholdProfile {
+  return applyOverrides(getConditionThresholds(chronicConditions), overrides);
+}
+
+/**
+ * Load the effective threshold profile for a patient from Firestore
+ * @param {string} patientId
+ * @param {string[]} [chronicConditions] loaded from the user when omitted
+ * @return {Promise<ThresholdProfile>}
+ */
+export async function loadThresholdProfile(
+  patientId: string,
+  chronicConditions?: string[]
+): Promise<ThresholdProfile> {
+  const settingsDoc = await admin
+    .firestore()
+    .doc(`patients/${patientId}/settings/alertThresholds`)
+    .get();
+  const overrides: ThresholdOverrides = settingsDoc.data()?.overrides || {};
+
+  if (!chronicConditions) {
+    const userDoc = await admin.firestore().doc(`users/${patientId}`).get();
+    chronicConditions = userDoc.data()?.chronicConditions || [];
+  }
+
+  return resolveThresholdProfile(chronicConditions, overrides);
+}
+
+/**
+ * Check that a range is ordered criticalLow <= low < high <= criticalHigh
+ * @param {ThresholdRange} range
+ * @return {boolean}
+ */
+export function isValidThresholdRange(range: ThresholdRange): boolean {
+  const values = [
+    range.criticalLow,
+    range.low,
+    range.high,
+    range.criticalHigh,
+  ].filter((value): value is number => value !== undefined);
+
+  if (values.some((value) => !Number.isFinite(value))) return false;
+  if (
+    range.low !== undefined &&
+    range.high !== undefined &&
+    range.low >= range.high
+  ) {
+    return false;
+  }
+
+  return values.every(
+    (value, index) => index === 0 || values[index - 1] <= value
+  );
+}
+
+/**
+ * Whether a value is above a limit, if the limit is set
+ * @param {number} value
+ * @param {number} [limit]
+ * @return {boolean}
+ */
+function isAbove(value: number, limit?: number): boolean {
+  return limit !== undefined && value > limit;
+}
+
+/**
+ * Whether a value is below a limit, if the limit is set
+ * @param {number} value
+ * @param {number} [limit]
+ * @return {boolean}
+ */
+function isBelow(value: number, limit?: number): boolean {
+  return limit !== undefined && value < limit;
+}
+
+/**
+ * Evaluate a reading against a threshold profile
+ * @param {VitalsReading} reading
+ * @param {ThresholdProfile} profile
+ * @return {VitalsAlert[]} the alerts the reading should raise
+ */
+export function evaluateThresholds(
+  reading: VitalsReading,
+  profile: ThresholdProfile
+): VitalsAlert[] {
+  const alerts: VitalsAlert[] = [];
+
+  // Heart rate checks
+  if (reading.heartRate !== undefined) {
+    const heartRate = reading.heartRate;
+    const range = profile.heartRate;
+    if (isAbove(heartRate, range.high)) {
+      alerts.push({
+        title: "High Heart Rate",
+        conditionKey: "heartRate:high",
+        vitals: ["heartRate"],
+        message: `Heart rate is ${heartRate} bpm (elevated)`,
+        severity: isAbove(heartRate, range.criticalHigh) ? "high" : "medium",
+      });
+    } else if (isBelow(heartRate, range.low)) {
+      alerts.push({
+        title: "Low Heart Rate",
+        conditionKey: "heartRate:low",
+        vitals: ["heartRate"],
+        message: `Heart rate is ${heartRate} bpm (below normal)`,
+        severity: isBelow(heartRate, range.criticalLow) ? "high" : "medium",
+      });
+    }
+  }
+
+  // Blood pressure checks
+  if (
+    reading.bloodPressureSystolic !== undefined &&
+    reading.bloodPressureDiastolic !== undefined
+  ) {
+    const systolic = reading.bloodPressureSystolic;
+    const diastolic = reading.bloodPressureDiastolic;
+    const systolicRange = profile.bloodPressureSystolic;
+    const diastolicRange = profile.bloodPressureDiastolic;
+
+    if (
+      isAbove(systolic, systolicRange.high) ||
+      isAbove(diastolic, diastolicRange.high)
+    ) {
+      const critical =
+        isAbove(systolic, systolicRange.criticalHigh) ||
+        isAbove(diastolic, diastolicRange.criticalHigh);
+      alerts.push({
+        title: "High Blood Pressure",
+        conditionKey: "bloodPressure:high",
+        vitals: ["bloodPressureSystolic", "bloodPressureDiastolic"],
+        message: `BP is ${systolic}/${diastolic} mmHg (elevated)`,
+        severity: critical ? "high" : "medium",
+      });
+    } else if (
+      isBelow(systolic, systolicRange.low) ||
+      isBelow(diastolic, diastolicRange.low)
+    ) {
+      const critical =
+        isBelow(systolic, systolicRange.criticalLow) ||
+        isBelow(diastolic, diastolicRange.criticalLow);
+      alerts.push({
+        title: "Low Blood Pressure",
+        conditionKey: "bloodPressure:low",
+        vitals: ["bloodPressureSystolic", "bloodPressureDiastolic"],
+        message: `BP is ${systolic}/${diastolic} mmHg (low)`,
+        severity: critical ? "high" : "medium",
+      });
+    }
+  }
+
+  // Oxygen level checks
+  if (reading.oxygenLevel !== undefined) {
+    const oxygenLevel = reading.oxygenLevel;
+    const range = profile.oxygenLevel;
+    if (isBelow(oxygenLevel, range.low)) {
+      alerts.push({
+        title: "Low Oxygen Saturation",
+        conditionKey: "oxygenLevel:low",
+        vitals: ["oxygenLevel"],
+        message: `Oxygen level is ${oxygenLevel}% (below normal)`,
+        severity: isBelow(oxygenLevel, range.criticalLow) ? "high" : "medium",
+      });
+    }
+  }
+
+  // Temperature checks
+  if (reading.temperature !== undefined) {
+    const temperature = reading.temperature;
+    const range = profile.temperature;
+    if (isAbove(temperature, range.high)) {
+      alerts.push({
+        title: "Elevated Temperature",
+        conditionKey: "temperature:high",
+        vitals: ["temperature"],
+        message: `Temperature is ${temperature}°C (elevated)`,
+        severity: isAbove(temperature, range.criticalHigh) ? "high" : "medium",
+      });
+    } else if (isBelow(temperature, range.low)) {
+      alerts.push({
+        title: "Low Temperature",
+        conditionKey: "temperature:low",
+        vitals: ["temperature"],
+        message: `Temperature is ${temperature}°C (below normal)`,
+        severity: isBelow(temperature, range.criticalLow) ? "high" : "medium",
+      });
+    }
+  }
+
+  // Glucose checks
+  if (reading.glucose !== undefined) {
+    const glucose = reading.glucose;
+    const range = profile.glucose;
+    if (isAbove(glucose, range.high)) {
+      alerts.push({
+        title: "High Blood Glucose",
+        conditionKey: "glucose:high",
+        vitals: ["glucose"],
+        message: `Glucose is ${glucose} mg/dL (elevated)`,
+        severity: isAbove(glucose, range.criticalHigh) ? "high" : "medium",
+      });
+    } else if (isBelow(glucose, range.low)) {
+      alerts.push({
+        title: "Low Blood Glucose",
+        conditionKey: "glucose:low",
+        vitals: ["glucose"],
+        message: `Glucose is ${glucose} mg/dL (low)`,
+        severity: isBelow(glucose, range.criticalLow) ? "high" : "medium",
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Evaluate a per-interval summary of streamed samples, which stores each
+ * vital's mean under the vital's own field alongside its min and max. High
+ * limits are checked against the max and low limits against the min, so a
+ * brief excursion within the interval is not averaged away.
+ * @param {admin.firestore.DocumentData} summary
+ * @param {ThresholdProfile} profile
+ * @return {VitalsAlert[]}
+ */
+export function evaluateSummaryThresholds(
+  summary: admin.firestore.DocumentData,
+  profile: ThresholdProfile
+): VitalsAlert[] {
+  const extremes = (suffix: "Min" | "Max"): VitalsReading => {
+    const reading: VitalsReading = {...summary};
+    THRESHOLD_VITALS.forEach((vital) => {
+      const value = summary[`${vital}${suffix}`];
+      if (typeof value === "number") reading[vital] = value;
+    });
+    return reading;
+  };
+
+  const highs = evaluateThresholds(extremes("Max"), profile)
+    .filter((alert) => alert.conditionKey.endsWith(":high"));
+  const lows = evaluateThresholds(extremes("Min"), profile)
+    .filter((alert) => alert.conditionKey.endsWith(":low"));
+
+  return [...highs, ...lows];
+}
@@ -0,0 +1,143 @@
+/**
+ * Device Battery
+ *
+ * The web app saves the battery level reported by a patient's Bluetooth
+ * monitors on their connectedDevices entries. When a level drops past the low
+ * or critical threshold, the patient and their assigned caretaker are notified
+ * so the monitor can be charged before it dies, e.g. overnight. Critical
+ * notifications are high severity so they are not held during quiet hours.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+export const LOW_BATTERY_THRESHOLD = 20;
+export const CRITICAL_BATTERY_THRESHOLD = 10;
+
+export interface LowBatteryDevice {
+  id: string;
+  name: string;
+  batteryLevel: number;
+  critical: boolean;
+}
+
+/**
+ * Battery level of each connected device, by device ID
+ * @param {admin.firestore.DocumentData} userData
+ * @return {Map<string, number>}
+ */
+function batteryLevels(
+  userData: admin.firestore.DocumentData
+): Map<string, number> {
+  const devices = Array.isArray(userData.connectedDevices) ?
+    userData.connectedDevices :
+    [];
+  const levels = new Map<string, number>();
+
+  devices.forEach((device: { id?: string; batteryLevel?: unknown }) => {
+    if (device.id && typeof device.batteryLevel === "number") {
+      levels.set(device.id, device.batteryLevel);
+    }
+  });
+
+  return levels;
+}
+
+/**
+ * Devices whose battery level crossed the low or critical threshold in this
+ * update. A device is reported once per crossing, so notifications are not
+ * repeated as the level keeps falling, and again after it has been charged
+ * above the threshold.
+ * @param {admin.firestore.DocumentData} before
+ * @param {admin.firestore.DocumentData} after
+ * @return {LowBatteryDevice[]}
+ */
+export function findLowBatteryDevices(
+  before: admin.firestore.DocumentData,
+  after: admin.firestore.DocumentData
+): LowBatteryDevice[] {
+  const previousLevels = batteryLevels(before);
+  const devices = Array.isArray(after.connectedDevices) ?
+    after.connectedDevices :
+    [];
+
+  const lowBatteryDevices: LowBatteryDevice[] = [];
+
+  devices.forEach(
+    (device: { id?: string; name?: string; batteryLevel?: unknown }) => {
+      if (!device.id || typeof device.batteryLevel !== "number") return;
+
+      const level = device.batteryLevel;
+      const previous = previousLevels.get(device.id);
+      const crossed = (threshold: number) =>
+        level <= threshold && (previous === undefined || previous > threshold);
+
+      const critical = crossed(CRITICAL_BATTERY_THRESHOLD);
+      if (critical || crossed(LOW_BATTERY_THRESHOLD)) {
+        lowBatteryDevices.push({
+          id: device.id,
+          name: device.name || "Device",
+          batteryLevel: level,
+          critical,
+        });
+      }
+    }
+  );
+
+  return lowBatteryDevices;
+}
+
+/**
+ * Queue low-battery notifications for the patient and their assigned caretaker
+ * @param {string} patientId
+ * @param {admin.firestore.DocumentData} patientData
+ * @param {LowBatteryDevice[]} devices
+ */
+export async function notifyLowBattery(
+  patientId: string,
+  patientData: admin.firestore.DocumentData,
+  devices: LowBatteryDevice[]
+): Promise<void> {
+  const patientName = `${patientData.firstName} ${patientData.lastName}`;
+
+  for (const device of devices) {
+    const severity = device.critical ? "high" : "medium";
+    const title = device.critical ?
+      "Device Battery Critical" :
+      "Device Battery Low";
+    const level = `${device.batteryLevel}% battery`;
+
+    const recipients = [{
+      userId: patientId,
+      message: `Your ${device.name} is at ${level}. ` +
+        "Charge it soon so monitoring is not interrupted.",
+    }];
+
+    if (patientData.assignedCaretakerId) {
+      recipients.push({
+        userId: patientData.assignedCaretakerId,
+        message: `${patientName}'s ${device.name} is at ${level}.`,
+      });
+    }
+
+    for (const recipient of recipients) {
+      await admin.firestore().collection("notifications").add({
+        userId: recipient.userId,
+        type: "device",
+        severity: severity,
+        title: title,
+        message: recipient.message,
+        patientId: patientId,
+        patientName: patientName,
+        deviceId: device.id,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        read: false,
+        sent: false,
+      });
+    }
+
+    logger.info(
+      `Low battery (${level}) on device ${device.id} for patient ${patientId}`
+    );
+  }
+}
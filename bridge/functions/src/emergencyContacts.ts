@@ -0,0 +1,443 @@
+/**
+ * Emergency Contacts
+ *
+ * Patients list emergency contacts (name, relationship, phone, email) on their
+ * profile and must record each contact's consent before they can be notified.
+ * Consenting contacts are notified by SMS and email when the patient becomes
+ * critical, triggers an SOS, or an alert escalates past the care team. Each
+ * notification carries a time-limited, read-only status link served by the
+ * statusPage function.
+ */
+
+import * as crypto from "crypto";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {getNotificationTransports} from "./notificationTransports.js";
+
+export type EmergencyNotificationReason = "critical" | "sos" | "escalation";
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone?: string;
+  email?: string;
+  consent: boolean;
+}
+
+export interface StatusPage {
+  status: number;
+  html: string;
+}
+
+interface CooldownKeys {
+  check: string[];
+  record: string[];
+}
+
+// Status links stop working after this long
+export const STATUS_LINK_TTL_HOURS = 24;
+
+// Contacts are not notified again for the same reason within this window, e.g.
+// a status that keeps returning to critical, or an SOS followed by the critical
+// status it causes. An SOS is always sent.
+export const EMERGENCY_NOTIFICATION_COOLDOWN_MINUTES = 60;
+
+/**
+ * Cooldown entries a notification is checked against and records. Escalations
+ * are tracked per alert, so one alert's escalation does not silence another's.
+ * @param {EmergencyNotificationReason} reason
+ * @param {string} [alertId]
+ * @return {CooldownKeys}
+ */
+function cooldownKeys(
+  reason: EmergencyNotificationReason,
+  alertId?: string
+): CooldownKeys {
+  switch (reason) {
+  case "sos":
+    return {check: [], record: ["critical"]};
+  case "critical":
+    return {check: ["critical"], record: ["critical"]};
+  case "escalation": {
+    const key = alertId ? `escalation:${alertId}` : "escalation";
+    return {check: [key], record: [key]};
+  }
+  }
+}
+
+/**
+ * Contacts that have consented and can be reached on at least one channel
+ * @param {admin.firestore.DocumentData} patientData
+ * @return {EmergencyContact[]}
+ */
+export function getNotifiableContacts(
+  patientData: admin.firestore.DocumentData
+): EmergencyContact[] {
+  const contacts: EmergencyContact[] =
+    Array.isArray(patientData.emergencyContacts) ?
+      patientData.emergencyContacts :
+      [];
+  return contacts.filter(
+    (contact) => contact.consent === true && (contact.phone || contact.email)
+  );
+}
+
+/**
+ * Base URL of the statusPage function
+ * @return {string}
+ */
+function statusPageUrl(): string {
+  if (process.env.STATUS_LINK_BASE_URL) {
+    return process.env.STATUS_LINK_BASE_URL;
+  }
+  return `https://us-central1-${process.env.GCLOUD_PROJECT}` +
+    ".cloudfunctions.net/statusPage";
+}
+
+/**
+ * Create a read-only status link for a patient that expires after
+ * STATUS_LINK_TTL_HOURS
+ * @param {string} patientId
+ * @param {EmergencyNotificationReason} reason
+ * @return {Promise<string>}
+ */
+export async function createStatusLink(
+  patientId: string,
+  reason: EmergencyNotificationReason
+): Promise<string> {
+  const token = crypto.randomBytes(24).toString("hex");
+  const now = admin.firestore.Timestamp.now();
+
+  await admin.firestore().doc(`statusLinks/${token}`).set({
+    patientId: patientId,
+    reason: reason,
+    createdAt: now,
+    expiresAt: admin.firestore.Timestamp.fromMillis(
+      now.toMillis() + STATUS_LINK_TTL_HOURS * 60 * 60 * 1000
+    ),
+  });
+
+  return `${statusPageUrl()}?token=${token}`;
+}
+
+/**
+ * The sentence telling a contact why they are being notified
+ * @param {EmergencyNotificationReason} reason
+ * @param {string} patientName
+ * @param {string} [detail]
+ * @return {string}
+ */
+function describeReason(
+  reason: EmergencyNotificationReason,
+  patientName: string,
+  detail?: string
+): string {
+  switch (reason) {
+  case "sos":
+    return `${patientName} has triggered an SOS in HealthComm` +
+      `${detail ? `: "${detail}"` : ""}.`;
+  case "critical":
+    return `${patientName}'s health status in HealthComm is now critical` +
+      `${detail ? ` (${detail})` : ""}.`;
+  case "escalation":
+    return `${patientName} has an urgent alert` +
+      `${detail ? ` (${detail})` : ""} ` +
+      "that their care team has not responded to.";
+  }
+}
+
+/**
+ * Notify a patient's consenting emergency contacts by SMS and email
+ * @param {string} patientId
+ * @param {admin.firestore.DocumentData} patientData
+ * @param {EmergencyNotificationReason} reason
+ * @param {string} [detail]
+ * @param {string} [alertId]
+ * @return {Promise<number>} the number of contacts reached, or 0 when skipped
+ *   by the cooldown
+ */
+export async function notifyEmergencyContacts(
+  patientId: string,
+  patientData: admin.firestore.DocumentData,
+  reason: EmergencyNotificationReason,
+  detail?: string,
+  alertId?: string
+): Promise<number> {
+  const contacts = getNotifiableContacts(patientData);
+  if (contacts.length === 0) {
+    logger.info(`No consenting emergency contacts for patient ${patientId}`);
+    return 0;
+  }
+
+  // Claim the cooldown in a transaction so concurrent triggers notify only
+  // once
+  const patientRef = admin.firestore().doc(`patients/${patientId}`);
+  const now = admin.firestore.Timestamp.now();
+  const cooldownMs = EMERGENCY_NOTIFICATION_COOLDOWN_MINUTES * 60 * 1000;
+  const keys = cooldownKeys(reason, alertId);
+  const claimed = await admin.firestore().runTransaction(
+    async (transaction) => {
+      const patientMeta = await transaction.get(patientRef);
+      const sentAt: Record<string, admin.firestore.Timestamp> =
+        patientMeta.data()?.emergencyNotificationsAt || {};
+
+      const coolingDown = keys.check.some((key) => {
+        const last = sentAt[key];
+        return last && now.toMillis() - last.toMillis() < cooldownMs;
+      });
+      if (coolingDown) return false;
+
+      const recorded = Object.fromEntries(
+        keys.record.map((key) => [key, now])
+      );
+      transaction.set(
+        patientRef,
+        {emergencyNotificationsAt: recorded},
+        {merge: true}
+      );
+      return true;
+    }
+  );
+
+  if (!claimed) {
+    logger.info(
+      `Emergency contacts for patient ${patientId} were notified recently, ` +
+      `skipping ${reason}`
+    );
+    return 0;
+  }
+
+  const patientName = `${patientData.firstName} ${patientData.lastName}`;
+  const statusLink = await createStatusLink(patientId, reason);
+  const text = `${describeReason(reason, patientName, detail)} ` +
+    "View their current status " +
+    `(link expires in ${STATUS_LINK_TTL_HOURS} hours): ${statusLink}`;
+  const transports = getNotificationTransports();
+
+  let reached = 0;
+  for (const contact of contacts) {
+    const results = await Promise.all([
+      contact.phone ?
+        transports.sms.send({
+          to: contact.phone,
+          body: `HealthComm: ${text}`,
+        }) :
+        null,
+      contact.email ?
+        transports.email.send({
+          to: contact.email,
+          subject: `HealthComm: ${patientName} needs attention`,
+          text: `Hi ${contact.name},\n\n${text}`,
+        }) :
+        null,
+    ]);
+
+    const sent = results.filter((result) => result?.success).length;
+    if (sent > 0) {
+      reached++;
+    } else {
+      logger.error(
+        `Failed to reach emergency contact ${contact.id} ` +
+        `for patient ${patientId}`,
+        results
+      );
+    }
+  }
+
+  await admin.firestore().collection("auditLogs").add({
+    action: "emergency_contacts_notified",
+    userId: patientId,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    details: {
+      reason: reason,
+      contactIds: contacts.map((contact) => contact.id),
+      reached: reached,
+    },
+  });
+
+  logger.info(
+    `Notified ${reached}/${contacts.length} emergency contacts ` +
+    `for patient ${patientId} (${reason})`
+  );
+  return reached;
+}
+
+/**
+ * Escape a value for use in HTML text or attributes
+ * @param {unknown} value
+ * @return {string}
+ */
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Wrap a page body in the status page layout
+ * @param {string} title
+ * @param {string} body
+ * @return {string}
+ */
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)} - HealthComm</title>
+<style>
+body {
+  font-family: system-ui, sans-serif; max-width: 32rem;
+  margin: 2rem auto; padding: 0 1rem; color: #111827;
+}
+h1 { font-size: 1.5rem; }
+.status { font-weight: 700; text-transform: capitalize; }
+.critical { color: #b91c1c; } .warning { color: #b45309; }
+.stable { color: #15803d; }
+li { margin: 0.25rem 0; } small { color: #6b7280; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Describe the vitals of a reading, one line per vital
+ * @param {admin.firestore.DocumentData} latest
+ * @return {string[]}
+ */
+function describeVitals(latest: admin.firestore.DocumentData): string[] {
+  const vitals: string[] = [];
+
+  if (typeof latest.heartRate === "number") {
+    vitals.push(`Heart rate: ${latest.heartRate} bpm`);
+  }
+  if (
+    typeof latest.bloodPressureSystolic === "number" &&
+    typeof latest.bloodPressureDiastolic === "number"
+  ) {
+    vitals.push(
+      `Blood pressure: ${latest.bloodPressureSystolic}/` +
+      `${latest.bloodPressureDiastolic} mmHg`
+    );
+  }
+  if (typeof latest.oxygenLevel === "number") {
+    vitals.push(`Oxygen: ${latest.oxygenLevel}%`);
+  }
+  if (typeof latest.temperature === "number") {
+    vitals.push(`Temperature: ${latest.temperature}°C`);
+  }
+  if (typeof latest.glucose === "number") {
+    vitals.push(`Glucose: ${latest.glucose} mg/dL`);
+  }
+  if (typeof latest.weight === "number") {
+    vitals.push(`Weight: ${latest.weight} kg`);
+  }
+
+  return vitals;
+}
+
+/**
+ * Render the read-only status page for a status link token
+ * Shows the patient's status, latest vitals, and open alerts; nothing can be
+ * changed from it
+ * @param {string} token
+ * @return {Promise<StatusPage>}
+ */
+export async function renderStatusPage(token: string): Promise<StatusPage> {
+  const notFound = {
+    status: 404,
+    html: renderPage("Not found", "<h1>Status link not found</h1>"),
+  };
+
+  if (!/^[a-f0-9]{48}$/.test(token)) {
+    return notFound;
+  }
+
+  const linkDoc = await admin.firestore().doc(`statusLinks/${token}`).get();
+  const link = linkDoc.data();
+
+  if (!link) {
+    return notFound;
+  }
+
+  if (link.expiresAt.toMillis() < Date.now()) {
+    return {
+      status: 410,
+      html: renderPage(
+        "Link expired",
+        "<h1>This status link has expired</h1>" +
+          "<p>Please contact the patient's care team.</p>"
+      ),
+    };
+  }
+
+  const patientId: string = link.patientId;
+  const [patientDoc, vitalsSnapshot, alertsSnapshot] = await Promise.all([
+    admin.firestore().doc(`users/${patientId}`).get(),
+    admin
+      .firestore()
+      .collection(`patients/${patientId}/vitals`)
+      .orderBy("timestamp", "desc")
+      .limit(1)
+      .get(),
+    admin
+      .firestore()
+      .collection(`patients/${patientId}/alerts`)
+      .where("status", "in", ["open", "acknowledged"])
+      .get(),
+  ]);
+
+  const patient = patientDoc.data() || {};
+  const status = patient.status || "stable";
+  const latest = vitalsSnapshot.docs[0]?.data();
+  const vitals = latest ? describeVitals(latest) : [];
+
+  const alerts = alertsSnapshot.docs
+    .map((doc) => doc.data())
+    .sort((a, b) =>
+      (b.lastOccurredAt?.toMillis() || 0) - (a.lastOccurredAt?.toMillis() || 0)
+    );
+
+  // Only first name and last initial are shown to link holders
+  const lastInitial = patient.lastName ? `${String(patient.lastName)[0]}.` : "";
+  const displayName = `${patient.firstName || "Patient"} ${lastInitial}`.trim();
+
+  const vitalsHtml = vitals.length > 0 ?
+    `<ul>${vitals.map((vital) => `<li>${escapeHtml(vital)}</li>`).join("")}` +
+      "</ul>\n<small>Recorded " +
+      `${escapeHtml(latest?.timestamp?.toDate().toUTCString())}</small>` :
+    "<p>No vitals recorded yet.</p>";
+
+  const alertItems = alerts.map((alert) => {
+    const responding = alert.status === "acknowledged" ?
+      " <small>(care team responding)</small>" :
+      "";
+    return `<li><strong>${escapeHtml(alert.title)}</strong>: ` +
+      `${escapeHtml(alert.message)}${responding}</li>`;
+  });
+  const alertsHtml = alerts.length > 0 ?
+    `<ul>${alertItems.join("")}</ul>` :
+    "<p>No open alerts.</p>";
+
+  const statusClass = escapeHtml(status);
+  const expires = escapeHtml(link.expiresAt.toDate().toUTCString());
+  const body = `
+<h1>${escapeHtml(displayName)}</h1>
+<p>Current status: <span class="status ${statusClass}">${statusClass}</span></p>
+<h2>Latest vitals</h2>
+${vitalsHtml}
+<h2>Open alerts</h2>
+${alertsHtml}
+<p><small>This read-only link expires ${expires}.</small></p>`;
+
+  return {status: 200, html: renderPage(displayName, body)};
+}
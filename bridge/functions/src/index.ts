@@ -7,10 +7,46 @@
 
 import { setGlobalOptions } from "firebase-functions/v2";
 import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
-import { onCall, HttpsError } from "firebase-functions/v2/https";
+import {onCall, onRequest, HttpsError} from "firebase-functions/v2/https";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
+import {
+  THRESHOLD_VITALS,
+  ThresholdOverrides,
+  evaluateSummaryThresholds,
+  evaluateThresholds,
+  isValidThresholdRange,
+  loadThresholdProfile,
+  resolveThresholdProfile,
+} from "./alertThresholds.js";
+import {evaluateTrendRules} from "./alertRules.js";
+import {
+  applyAlertLifecycle,
+  recomputePatientStatus,
+} from "./alertLifecycle.js";
+import {
+  advanceAlertEscalation,
+  startAlertEscalation,
+} from "./alertEscalation.js";
+import {
+  notifyEmergencyContacts,
+  renderStatusPage,
+} from "./emergencyContacts.js";
+import {findLowBatteryDevices, notifyLowBattery} from "./deviceBattery.js";
+import {
+  CONSCIOUSNESS_LEVELS,
+  NEWS2_VITALS,
+  News2Result,
+  loadNews2Inputs,
+  news2Alert,
+  refreshPatientNews2,
+  scoreNews2,
+} from "./news2.js";
+import {
+  deliverNotification,
+  sendQuietHoursDigests,
+} from "./notificationDispatcher.js";
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -73,6 +109,45 @@ export const onUserCreated = onDocumentCreated("users/{userId}", async (event) =
   }
 });
 
+/**
+ * User fields written by vitals syncing and device telemetry rather than
+ * profile edits
+ */
+const TELEMETRY_FIELDS = ["lastVitals", "news2", "status", "connectedDevices"];
+
+/**
+ * Whether an update only changed telemetry fields, in which case it is not
+ * audited. Device entries count as telemetry only when nothing but their
+ * battery level changed.
+ * @param {admin.firestore.DocumentData} before
+ * @param {admin.firestore.DocumentData} after
+ * @return {boolean}
+ */
+function isTelemetryOnlyUpdate(
+  before: admin.firestore.DocumentData,
+  after: admin.firestore.DocumentData
+): boolean {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const modifiedFields = [...fields].filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+
+  if (!modifiedFields.every((field) => TELEMETRY_FIELDS.includes(field))) {
+    return false;
+  }
+
+  const withoutBattery = (devices: unknown) =>
+    JSON.stringify(
+      (Array.isArray(devices) ? devices : []).map((device) => {
+        const copy = {...device};
+        delete copy.batteryLevel;
+        return copy;
+      })
+    );
+  return withoutBattery(before.connectedDevices) ===
+    withoutBattery(after.connectedDevices);
+}
+
 /**
  * Validates user data when updated
  * Ensures critical fields are not modified
@@ -99,16 +174,36 @@ export const onUserUpdated = onDocumentUpdated("users/{userId}", async (event) =
     // In a production system, you might want to revert or flag this
   }
 
-  // Create audit log for profile updates
-  await admin.firestore().collection("auditLogs").add({
-    action: "user_updated",
-    userId: userId,
-    timestamp: admin.firestore.FieldValue.serverTimestamp(),
-    details: {
-      before: before,
-      after: after,
-    },
-  });
+  // Create audit log for profile updates; vitals and battery telemetry would
+  // flood it
+  if (!isTelemetryOnlyUpdate(before, after)) {
+    await admin.firestore().collection("auditLogs").add({
+      action: "user_updated",
+      userId: userId,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      details: {
+        before: before,
+        after: after,
+      },
+    });
+  }
+
+  // Emergency contacts are told when a patient becomes critical
+  if (
+    after.role === "patient" &&
+    before.status !== "critical" &&
+    after.status === "critical"
+  ) {
+    await notifyEmergencyContacts(userId, after, "critical");
+  }
+
+  // Warn the patient and caretaker before a monitor runs out of battery
+  if (after.role === "patient") {
+    const lowBatteryDevices = findLowBatteryDevices(before, after);
+    if (lowBatteryDevices.length > 0) {
+      await notifyLowBattery(userId, after, lowBatteryDevices);
+    }
+  }
 
   logger.info(`User profile updated: ${userId}`);
   return { success: true };
@@ -118,9 +213,14 @@ export const onUserUpdated = onDocumentUpdated("users/{userId}", async (event) =
 // VITALS & ALERTS FUNCTIONS
 // ============================================
 
+// A reading measured this long before its device received it was stored on the
+// device or synced late
+const LATE_READING_TOLERANCE_MS = 10 * 60 * 1000;
+
 /**
  * Triggered when a new vitals reading is created
- * Updates patient metadata and sends notifications if needed
+ * Updates patient metadata and runs the authoritative alert evaluation
+ * against the patient's threshold profile and trend rules
  */
 export const onVitalsCreated = onDocumentCreated(
   "patients/{patientId}/vitals/{vitalId}",
@@ -137,13 +237,35 @@ export const onVitalsCreated = onDocumentCreated(
     logger.info(`New vitals reading for patient ${patientId}`);
 
     try {
-      // Update patient metadata
+      // Update patient metadata; readings downloaded from a device's memory
+      // can be older than the latest. A summary of streamed samples is
+      // timestamped with the start of its interval, and covers samples up to
+      // the last one received.
+      const summary = vitalsData.kind === "summary";
+      const receivedAt: admin.firestore.Timestamp | undefined =
+        vitalsData.receivedAt;
+      const measuredAt: admin.firestore.Timestamp = summary && receivedAt ?
+        receivedAt :
+        vitalsData.timestamp;
+
       const patientRef = admin.firestore().doc(`patients/${patientId}`);
+      const lastVitalsTimestamp: admin.firestore.Timestamp | undefined =
+        (await patientRef.get()).get("lastVitalsTimestamp");
+      const isLatest = !lastVitalsTimestamp ||
+        measuredAt.toMillis() >= lastVitalsTimestamp.toMillis();
       await patientRef.update({
         vitalsCount: admin.firestore.FieldValue.increment(1),
-        lastVitalsTimestamp: vitalsData.timestamp,
+        ...(isLatest && {lastVitalsTimestamp: measuredAt}),
       });
 
+      // Older readings still count towards trend and NEWS2 windows, but they
+      // must not resolve current alerts or raise new ones as if they were
+      // happening now
+      const lateBy = receivedAt ?
+        receivedAt.toMillis() - measuredAt.toMillis() :
+        0;
+      const historical = !isLatest || lateBy > LATE_READING_TOLERANCE_MS;
+
       // Create audit log
       await admin.firestore().collection("auditLogs").add({
         action: "vitals_created",
@@ -159,7 +281,119 @@ export const onVitalsCreated = onDocumentCreated(
         },
       });
 
-      return { success: true };
+      // Evaluate the reading against the patient's threshold profile
+      const userDoc = await admin.firestore().doc(`users/${patientId}`).get();
+      const userData = userDoc.data();
+
+      if (!userData) {
+        logger.error(`User data not found for patient ${patientId}`);
+        return {success: false};
+      }
+
+      const profile = await loadThresholdProfile(
+        patientId,
+        userData.chronicConditions || []
+      );
+      const alerts = historical ? [] : [
+        // Summaries are checked against each vital's min and max rather than
+        // its mean
+        ...(summary ?
+          evaluateSummaryThresholds(vitalsData, profile) :
+          evaluateThresholds(vitalsData, profile)),
+        // Trend rules look at sliding windows over the patient's recent vitals
+        ...(await evaluateTrendRules(patientId, vitalsData, profile)),
+      ];
+
+      // NEWS2: score this reading on its own and refresh the rolling
+      // per-patient score
+      let rollingNews2: News2Result | null = null;
+      const hasNews2Vital = NEWS2_VITALS.some(
+        (vital) => typeof vitalsData[vital] === "number"
+      );
+      if (hasNews2Vital) {
+        const news2Inputs = await loadNews2Inputs(patientId);
+        const readingNews2 = scoreNews2(vitalsData, news2Inputs);
+
+        await snapshot.ref.update({
+          news2: {
+            score: readingNews2.score,
+            risk: readingNews2.risk,
+            complete: readingNews2.complete,
+          },
+        });
+
+        // The rolling score is the patient's current one, so it never ends at
+        // an older reading
+        rollingNews2 = await refreshPatientNews2(
+          patientId,
+          historical ? admin.firestore.Timestamp.now() : vitalsData.timestamp,
+          news2Inputs
+        );
+
+        const news2AlertData = news2Alert(rollingNews2);
+        if (news2AlertData && !historical) {
+          alerts.push(news2AlertData);
+        }
+      }
+
+      if (historical) {
+        logger.info(
+          "Skipping alert lifecycle for historical reading " +
+          `${event.params.vitalId} of patient ${patientId}`
+        );
+        return {success: true, alertsCreated: 0};
+      }
+
+      // Deduplicate against open alerts and auto-resolve conditions that have
+      // cleared
+      const lifecycle = await applyAlertLifecycle(
+        patientId,
+        event.params.vitalId,
+        rollingNews2 ? {...vitalsData, news2: rollingNews2.score} : vitalsData,
+        alerts,
+        // A summary's mean can look normal while the patient is not, so it
+        // never resolves an alert
+        {autoResolve: !summary}
+      );
+
+      // New alerts notify via onAlertCreated; repeats only notify when
+      // severity increases or the alert reopens
+      const renotify = [...lifecycle.escalated, ...lifecycle.reopened];
+      for (const escalated of renotify) {
+        await queueAlertNotifications(
+          patientId,
+          escalated.id,
+          escalated.data,
+          userData
+        );
+        if (escalated.data.severity === "high") {
+          await startAlertEscalation(
+            admin
+              .firestore()
+              .doc(`patients/${patientId}/alerts/${escalated.id}`),
+            escalated.data,
+            patientId,
+            userData
+          );
+        }
+      }
+
+      if (
+        lifecycle.created.length > 0 ||
+        lifecycle.escalated.length > 0 ||
+        lifecycle.reopened.length > 0 ||
+        lifecycle.resolved.length > 0
+      ) {
+        await recomputePatientStatus(patientId);
+      }
+
+      logger.info(`Alert lifecycle for patient ${patientId}:`, {
+        created: lifecycle.created.length,
+        updated: lifecycle.updated.length,
+        resolved: lifecycle.resolved.length,
+      });
+
+      return {success: true, alertsCreated: lifecycle.created.length};
     } catch (error) {
       logger.error("Error in onVitalsCreated:", error);
       throw error;
@@ -170,6 +404,7 @@ export const onVitalsCreated = onDocumentCreated(
 /**
  * Triggered when a new alert is created
  * Sends push notifications to patient, caretaker, and doctor
+ * (user status is set by onVitalsCreated when the alert is raised)
  */
 export const onAlertCreated = onDocumentCreated(
   "patients/{patientId}/alerts/{alertId}",
@@ -204,139 +439,821 @@ export const onAlertCreated = onDocumentCreated(
         return { success: false };
       }
 
-      const notificationTargets: string[] = [patientId];
+      const notificationTargets = await queueAlertNotifications(
+        patientId,
+        event.params.alertId,
+        alertData,
+        userData
+      );
+
+      // Create audit log
+      await admin.firestore().collection("auditLogs").add({
+        action: "alert_created",
+        userId: patientId,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        details: {
+          severity: alertData.severity,
+          title: alertData.title,
+          notificationTargets: notificationTargets,
+        },
+      });
+
+      // High severity alerts climb the escalation chain until someone
+      // acknowledges them
+      if (alertData.severity === "high") {
+        await startAlertEscalation(
+          snapshot.ref,
+          alertData,
+          patientId,
+          userData
+        );
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Error in onAlertCreated:", error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * Queue alert notifications for the patient and their assigned caretaker and
+ * doctor
+ * @param {string} patientId
+ * @param {string} alertId
+ * @param {admin.firestore.DocumentData} alertData
+ * @param {admin.firestore.DocumentData} userData
+ * @return {Promise<string[]>} the notified user IDs
+ */
+async function queueAlertNotifications(
+  patientId: string,
+  alertId: string,
+  alertData: admin.firestore.DocumentData,
+  userData: admin.firestore.DocumentData
+): Promise<string[]> {
+  const notificationTargets: string[] = [patientId];
+
+  // Add assigned caretaker
+  if (userData.assignedCaretakerId) {
+    notificationTargets.push(userData.assignedCaretakerId);
+  }
 
-      // Add assigned caretaker
-      if (userData.assignedCaretakerId) {
-        notificationTargets.push(userData.assignedCaretakerId);
+  // Add assigned doctor
+  if (userData.assignedDoctorId) {
+    notificationTargets.push(userData.assignedDoctorId);
+  }
+
+  // Queue notifications (delivered by onNotificationCreated)
+  for (const targetUserId of notificationTargets) {
+    logger.info(`Queuing notification for user ${targetUserId}`);
+
+    // Create notification document
+    await admin.firestore().collection("notifications").add({
+      userId: targetUserId,
+      type: "alert",
+      severity: alertData.severity,
+      title: alertData.title,
+      message: alertData.message,
+      patientId: patientId,
+      patientName: `${userData.firstName} ${userData.lastName}`,
+      alertId: alertId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      read: false,
+      sent: false,
+    });
+  }
+
+  return notificationTargets;
+}
+
+// ============================================
+// ALERT THRESHOLD FUNCTIONS
+// ============================================
+
+/**
+ * Callable function for the assigned doctor to set a patient's alert threshold
+ * overrides. Overrides are layered on top of the condition-based defaults.
+ */
+export const updateAlertThresholds = onCall(
+  {cors: true},
+  async (request) => {
+    const {patientId, overrides} = request.data;
+    const userId = request.auth?.uid;
+
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    if (!patientId || typeof overrides !== "object" || overrides === null) {
+      throw new HttpsError(
+        "invalid-argument",
+        "patientId and overrides are required"
+      );
+    }
+
+    // Validate overrides: only known vitals and range keys, numeric or null
+    // (no limit)
+    const sanitizedOverrides: ThresholdOverrides = {};
+    for (const [vital, range] of Object.entries(overrides)) {
+      const thresholdVital = vital as typeof THRESHOLD_VITALS[number];
+      if (!THRESHOLD_VITALS.includes(thresholdVital)) {
+        throw new HttpsError("invalid-argument", `Unknown vital: ${vital}`);
+      }
+
+      if (typeof range !== "object" || range === null) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Invalid threshold range for ${vital}`
+        );
       }
 
-      // Add assigned doctor
-      if (userData.assignedDoctorId) {
-        notificationTargets.push(userData.assignedDoctorId);
+      const sanitizedRange: Record<string, number | null> = {};
+      for (const [key, value] of Object.entries(range)) {
+        const validValue = value === null ||
+          (typeof value === "number" && Number.isFinite(value));
+        if (
+          !["criticalLow", "low", "high", "criticalHigh"].includes(key) ||
+          !validValue
+        ) {
+          throw new HttpsError(
+            "invalid-argument",
+            `Invalid threshold value ${key} for ${vital}`
+          );
+        }
+        sanitizedRange[key] = value;
       }
 
-      // Queue notifications (would integrate with FCM)
-      for (const targetUserId of notificationTargets) {
-        logger.info(`Queuing notification for user ${targetUserId}`);
+      sanitizedOverrides[thresholdVital] = sanitizedRange;
+    }
 
-        // Create notification document (can be consumed by FCM service)
-        await admin.firestore().collection("notifications").add({
-          userId: targetUserId,
-          type: "alert",
-          severity: alertData.severity,
-          title: alertData.title,
-          message: alertData.message,
+    logger.info(
+      `Updating alert thresholds for patient ${patientId} by user ${userId}`
+    );
+
+    try {
+      const patientDoc = await admin
+        .firestore()
+        .doc(`users/${patientId}`)
+        .get();
+      const patientData = patientDoc.data();
+
+      if (!patientData) {
+        throw new HttpsError("not-found", "Patient not found");
+      }
+
+      // Only the assigned doctor can change a patient's thresholds
+      if (patientData.assignedDoctorId !== userId) {
+        throw new HttpsError(
+          "permission-denied",
+          "Only the assigned doctor can update alert thresholds"
+        );
+      }
+
+      // Check the profile the overrides produce, since they are merged with
+      // the condition defaults
+      const profile = resolveThresholdProfile(
+        patientData.chronicConditions || [],
+        sanitizedOverrides
+      );
+      const invalidVital = THRESHOLD_VITALS.find(
+        (vital) => !isValidThresholdRange(profile[vital])
+      );
+      if (invalidVital) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Thresholds for ${invalidVital} must be ordered ` +
+            "criticalLow <= low < high <= criticalHigh"
+        );
+      }
+
+      const settingsRef = admin
+        .firestore()
+        .doc(`patients/${patientId}/settings/alertThresholds`);
+      await settingsRef.set({
+        overrides: sanitizedOverrides,
+        updatedBy: userId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      // Create audit log
+      await admin.firestore().collection("auditLogs").add({
+        action: "alert_thresholds_updated",
+        userId: userId,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        details: {
           patientId: patientId,
-          patientName: `${userData.firstName} ${userData.lastName}`,
-          alertId: event.params.alertId,
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          read: false,
-          sent: false,
+          overrides: sanitizedOverrides,
+        },
+      });
+
+      logger.info(`Alert thresholds updated for patient ${patientId}`);
+
+      return {
+        success: true,
+        profile,
+      };
+    } catch (error) {
+      logger.error("Error in updateAlertThresholds:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to update alert thresholds");
+    }
+  }
+);
+
+// ============================================
+// ALERT WORKFLOW FUNCTIONS
+// ============================================
+
+/**
+ * Callable function for the care team to acknowledge, claim, resolve, or
+ * comment on an alert. Claiming also acknowledges; resolving and commenting
+ * require a note.
+ */
+export const updateAlertStatus = onCall(
+  {cors: true},
+  async (request) => {
+    const {patientId, alertId, action, note} = request.data;
+    const userId = request.auth?.uid;
+
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    if (!patientId || !alertId || !action) {
+      throw new HttpsError(
+        "invalid-argument",
+        "patientId, alertId and action are required"
+      );
+    }
+
+    if (!["acknowledge", "claim", "resolve", "comment"].includes(action)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "action must be 'acknowledge', 'claim', 'resolve', or 'comment'"
+      );
+    }
+
+    const trimmedNote = typeof note === "string" ? note.trim() : "";
+    if ((action === "resolve" || action === "comment") && !trimmedNote) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A note is required to ${action} an alert`
+      );
+    }
+
+    logger.info(
+      `User ${userId} performing ${action} on alert ${alertId} ` +
+      `for patient ${patientId}`
+    );
+
+    try {
+      const patientDoc = await admin
+        .firestore()
+        .doc(`users/${patientId}`)
+        .get();
+      const patientData = patientDoc.data();
+
+      if (!patientData) {
+        throw new HttpsError("not-found", "Patient not found");
+      }
+
+      const alertRef = admin
+        .firestore()
+        .doc(`patients/${patientId}/alerts/${alertId}`);
+      const alertDoc = await alertRef.get();
+      const alertData = alertDoc.data();
+
+      if (!alertData) {
+        throw new HttpsError("not-found", "Alert not found");
+      }
+
+      // Only the assigned caretaker or doctor, or a clinician the alert
+      // escalated to, can work an alert
+      const escalationRecipientIds: string[] =
+        alertData.escalationRecipientIds || [];
+      if (
+        patientData.assignedCaretakerId !== userId &&
+        patientData.assignedDoctorId !== userId &&
+        !escalationRecipientIds.includes(userId)
+      ) {
+        throw new HttpsError(
+          "permission-denied",
+          "You are not on this patient's care team"
+        );
+      }
+
+      if (alertData.status === "resolved" && action !== "comment") {
+        throw new HttpsError(
+          "failed-precondition",
+          "Alert has already been resolved"
+        );
+      }
+
+      const userDoc = await admin.firestore().doc(`users/${userId}`).get();
+      const userData = userDoc.data();
+      const userName = userData ?
+        `${userData.firstName} ${userData.lastName}` :
+        "Unknown";
+      const now = admin.firestore.Timestamp.now();
+
+      const update: admin.firestore.UpdateData<admin.firestore.DocumentData> =
+        {};
+
+      if (
+        (action === "acknowledge" || action === "claim") &&
+        alertData.status !== "acknowledged"
+      ) {
+        update.status = "acknowledged";
+        update.acknowledgedBy = userId;
+        update.acknowledgedByName = userName;
+        update.acknowledgedAt = now;
+      }
+
+      if (action === "claim") {
+        update.claimedBy = userId;
+        update.claimedByName = userName;
+        update.claimedAt = now;
+      }
+
+      // Any response from the care team stops the escalation chain
+      if (action !== "comment" && alertData.escalationDueAt) {
+        update.escalationDueAt = null;
+      }
+
+      if (action === "resolve") {
+        update.status = "resolved";
+        update.resolvedAt = now;
+        update.resolvedBy = userId;
+        update.resolvedByName = userName;
+        update.resolutionNote = trimmedNote;
+      }
+
+      if (trimmedNote) {
+        update.notes = admin.firestore.FieldValue.arrayUnion({
+          userId: userId,
+          userName: userName,
+          action: action,
+          note: trimmedNote,
+          createdAt: now,
         });
       }
 
+      if (Object.keys(update).length > 0) {
+        await alertRef.update(update);
+      }
+
+      // Resolving may clear the patient's last active alert
+      const patientStatus = action === "resolve" ?
+        await recomputePatientStatus(patientId) :
+        patientData.status;
+
       // Create audit log
+      const auditActions: Record<string, string> = {
+        acknowledge: "alert_acknowledged",
+        claim: "alert_claimed",
+        resolve: "alert_resolved",
+        comment: "alert_commented",
+      };
+
       await admin.firestore().collection("auditLogs").add({
-        action: "alert_created",
-        userId: patientId,
+        action: auditActions[action],
+        userId: userId,
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
         details: {
-          severity: alertData.severity,
-          title: alertData.title,
-          notificationTargets: notificationTargets,
+          patientId: patientId,
+          alertId: alertId,
+          previousStatus: alertData.status || "open",
+          note: trimmedNote || null,
+          patientStatus: patientStatus || "stable",
         },
       });
 
-      // Update user status if high severity
-      if (alertData.severity === "high") {
-        await admin.firestore().doc(`users/${patientId}`).update({
-          status: "critical",
-        });
-      } else if (alertData.severity === "medium" && userData.status !== "critical") {
-        await admin.firestore().doc(`users/${patientId}`).update({
-          status: "warning",
-        });
+      logger.info(`Alert ${alertId} ${action} by ${userId}`);
+
+      return {
+        success: true,
+        status: (update.status as string) || alertData.status || "open",
+        patientStatus: patientStatus || "stable",
+      };
+    } catch (error) {
+      logger.error("Error in updateAlertStatus:", error);
+      if (error instanceof HttpsError) {
+        throw error;
       }
+      throw new HttpsError("internal", "Failed to update alert");
+    }
+  }
+);
 
-      // AUTO-ESCALATION LOGIC
-      // If patient has caretaker but no doctor, and autoEscalateToDoctor is enabled
-      // Escalate to doctor on critical alerts or multiple high-severity alerts
-      if (userData.assignedCaretakerId && !userData.assignedDoctorId && userData.autoEscalateToDoctor) {
-        let shouldEscalate = false;
-        let escalationReason = "";
+/**
+ * Scheduled function to escalate high severity alerts nobody has acknowledged
+ * in time. Runs every minute.
+ */
+export const processAlertEscalations = onSchedule(
+  {
+    schedule: "* * * * *", // Every minute
+    timeZone: "America/New_York",
+  },
+  async () => {
+    try {
+      const dueAlerts = await admin
+        .firestore()
+        .collectionGroup("alerts")
+        .where("escalationDueAt", "<=", admin.firestore.Timestamp.now())
+        .limit(100)
+        .get();
 
-        // Escalate on critical status
-        if (alertData.severity === "high") {
-          // Count recent high-severity alerts (last 24 hours)
-          const twentyFourHoursAgo = admin.firestore.Timestamp.fromDate(
-            new Date(Date.now() - 24 * 60 * 60 * 1000)
-          );
+      if (dueAlerts.empty) return;
 
-          const recentHighAlerts = await admin
-            .firestore()
-            .collection(`patients/${patientId}/alerts`)
-            .where("severity", "==", "high")
-            .where("timestamp", ">=", twentyFourHoursAgo)
-            .get();
+      logger.info(`Processing ${dueAlerts.size} overdue alert escalations`);
 
-          if (recentHighAlerts.size >= 2) {
-            shouldEscalate = true;
-            escalationReason = `Multiple high-severity alerts (${recentHighAlerts.size} in 24 hours)`;
-          }
-        }
+      for (const alertDoc of dueAlerts.docs) {
+        await advanceAlertEscalation(alertDoc);
+      }
+    } catch (error) {
+      logger.error("Error in processAlertEscalations:", error);
+      throw error;
+    }
+  }
+);
 
-        if (shouldEscalate) {
-          logger.info(`Auto-escalating patient ${patientId} to doctor due to: ${escalationReason}`);
-
-          // Find available doctor using simplified logic
-          const doctorsSnapshot = await admin
-            .firestore()
-            .collection("users")
-            .where("role", "==", "medical")
-            .where("availability", "==", "available")
-            .limit(1)
-            .get();
-
-          if (!doctorsSnapshot.empty) {
-            const doctorDoc = doctorsSnapshot.docs[0];
-            const doctorData = doctorDoc.data();
-
-            await admin.firestore().doc(`users/${patientId}`).update({
-              assignedDoctorId: doctorDoc.id,
-              assignedDoctor: `${doctorData.firstName} ${doctorData.lastName}`,
-              escalatedAt: admin.firestore.FieldValue.serverTimestamp(),
-              escalatedFrom: userData.assignedCaretakerId,
-              escalationReason: escalationReason,
-            });
-
-            // Notify all parties
-            await admin.firestore().collection("notifications").add({
-              userId: doctorDoc.id,
-              type: "alert",
-              severity: "high",
-              title: "URGENT: Patient Auto-Escalated",
-              message: `${userData.firstName} ${userData.lastName} has been auto-escalated due to: ${escalationReason}`,
-              patientId: patientId,
-              patientName: `${userData.firstName} ${userData.lastName}`,
-              createdAt: admin.firestore.FieldValue.serverTimestamp(),
-              read: false,
-              sent: false,
-            });
-
-            logger.info(`Auto-escalated patient ${patientId} to doctor ${doctorDoc.id}`);
-          }
+// ============================================
+// NEWS2 FUNCTIONS
+// ============================================
+
+/**
+ * Callable function for the care team to record the manual NEWS2 inputs
+ * (consciousness and supplemental oxygen) and refresh the patient's score
+ */
+export const updateNews2Inputs = onCall(
+  {cors: true},
+  async (request) => {
+    const {
+      patientId,
+      consciousness,
+      supplementalOxygen,
+      useSpO2Scale2,
+    } = request.data;
+    const userId = request.auth?.uid;
+
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    if (!patientId) {
+      throw new HttpsError("invalid-argument", "patientId is required");
+    }
+
+    if (
+      consciousness !== undefined &&
+      !CONSCIOUSNESS_LEVELS.includes(consciousness)
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `consciousness must be one of: ${CONSCIOUSNESS_LEVELS.join(", ")}`
+      );
+    }
+
+    const isOptionalBoolean = (value: unknown) =>
+      value === undefined || typeof value === "boolean";
+    if (
+      !isOptionalBoolean(supplementalOxygen) ||
+      !isOptionalBoolean(useSpO2Scale2)
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        "supplementalOxygen and useSpO2Scale2 must be booleans"
+      );
+    }
+
+    logger.info(
+      `Updating NEWS2 inputs for patient ${patientId} by user ${userId}`
+    );
+
+    try {
+      const patientDoc = await admin
+        .firestore()
+        .doc(`users/${patientId}`)
+        .get();
+      const patientData = patientDoc.data();
+
+      if (!patientData) {
+        throw new HttpsError("not-found", "Patient not found");
+      }
+
+      const isDoctor = patientData.assignedDoctorId === userId;
+      if (!isDoctor && patientData.assignedCaretakerId !== userId) {
+        throw new HttpsError(
+          "permission-denied",
+          "You are not on this patient's care team"
+        );
+      }
+
+      // Choosing the SpO2 scale is a clinical decision
+      if (useSpO2Scale2 !== undefined && !isDoctor) {
+        throw new HttpsError(
+          "permission-denied",
+          "Only the assigned doctor can change the SpO2 scale"
+        );
+      }
+
+      const inputsRef = admin
+        .firestore()
+        .doc(`patients/${patientId}/settings/news2`);
+      await inputsRef.set(
+        {
+          ...(consciousness !== undefined && {consciousness}),
+          ...(supplementalOxygen !== undefined && {supplementalOxygen}),
+          ...(useSpO2Scale2 !== undefined && {useSpO2Scale2}),
+          updatedBy: userId,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        {merge: true}
+      );
+
+      const news2Inputs = await loadNews2Inputs(patientId);
+      const result = await refreshPatientNews2(
+        patientId,
+        admin.firestore.Timestamp.now(),
+        news2Inputs
+      );
+
+      // Raise or clear the NEWS2 alert for the new score
+      const news2AlertData = news2Alert(result);
+      const lifecycle = await applyAlertLifecycle(
+        patientId,
+        null,
+        {news2: result.score},
+        news2AlertData ? [news2AlertData] : []
+      );
+
+      if (
+        lifecycle.created.length > 0 ||
+        lifecycle.escalated.length > 0 ||
+        lifecycle.reopened.length > 0 ||
+        lifecycle.resolved.length > 0
+      ) {
+        await recomputePatientStatus(patientId);
+      }
+
+      const renotify = [...lifecycle.escalated, ...lifecycle.reopened];
+      for (const escalated of renotify) {
+        await queueAlertNotifications(
+          patientId,
+          escalated.id,
+          escalated.data,
+          patientData
+        );
+        if (escalated.data.severity === "high") {
+          await startAlertEscalation(
+            admin
+              .firestore()
+              .doc(`patients/${patientId}/alerts/${escalated.id}`),
+            escalated.data,
+            patientId,
+            patientData
+          );
         }
       }
 
-      return { success: true };
+      // Create audit log
+      await admin.firestore().collection("auditLogs").add({
+        action: "news2_inputs_updated",
+        userId: userId,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        details: {
+          patientId: patientId,
+          consciousness: consciousness ?? null,
+          supplementalOxygen: supplementalOxygen ?? null,
+          useSpO2Scale2: useSpO2Scale2 ?? null,
+          news2Score: result.score,
+        },
+      });
+
+      logger.info(
+        `NEWS2 for patient ${patientId} is now ${result.score} ` +
+        `(${result.risk})`
+      );
+
+      return {success: true, news2: result};
     } catch (error) {
-      logger.error("Error in onAlertCreated:", error);
+      logger.error("Error in updateNews2Inputs:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to update NEWS2 inputs");
+    }
+  }
+);
+
+// ============================================
+// NOTIFICATION DELIVERY FUNCTIONS
+// ============================================
+
+/**
+ * Triggered when a notification document is created
+ * Sends it on the recipient's preferred channels, or holds it during quiet
+ * hours
+ */
+export const onNotificationCreated = onDocumentCreated(
+  "notifications/{notificationId}",
+  async (event) => {
+    const snapshot = event.data;
+    if (!snapshot) return;
+
+    const notification = snapshot.data();
+    if (notification.sent) return;
+
+    try {
+      const delivered = await deliverNotification(snapshot.ref, notification);
+      logger.info(
+        `Notification ${event.params.notificationId} ` +
+        (delivered ? "delivered" : "not delivered")
+      );
+    } catch (error) {
+      logger.error("Error in onNotificationCreated:", error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * Scheduled function to retry failed deliveries whose backoff has elapsed
+ * Runs every 5 minutes
+ */
+export const retryFailedNotifications = onSchedule(
+  {
+    schedule: "*/5 * * * *", // Every 5 minutes
+    timeZone: "America/New_York",
+  },
+  async () => {
+    try {
+      const dueNotifications = await admin
+        .firestore()
+        .collection("notifications")
+        .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+        .limit(100)
+        .get();
+
+      if (dueNotifications.empty) return;
+
+      logger.info(`Retrying ${dueNotifications.size} notification deliveries`);
+
+      for (const doc of dueNotifications.docs) {
+        await deliverNotification(doc.ref, doc.data());
+      }
+    } catch (error) {
+      logger.error("Error in retryFailedNotifications:", error);
       throw error;
     }
   }
 );
 
+/**
+ * Scheduled function to send the digest of notifications held during quiet
+ * hours. Runs every 15 minutes so each user's digest goes out shortly after
+ * their quiet hours end.
+ */
+export const sendNotificationDigests = onSchedule(
+  {
+    schedule: "*/15 * * * *", // Every 15 minutes
+    timeZone: "America/New_York",
+  },
+  async () => {
+    try {
+      const digestCount = await sendQuietHoursDigests();
+      if (digestCount > 0) {
+        logger.info(`Sent ${digestCount} quiet hours digests`);
+      }
+    } catch (error) {
+      logger.error("Error in sendNotificationDigests:", error);
+      throw error;
+    }
+  }
+);
+
+// ============================================
+// EMERGENCY FUNCTIONS
+// ============================================
+
+/**
+ * Callable function for a patient to trigger an SOS
+ * Notifies their emergency contacts and raises a high severity alert for the
+ * care team
+ */
+export const triggerSos = onCall(
+  {cors: true},
+  async (request) => {
+    const {message} = request.data || {};
+    const userId = request.auth?.uid;
+
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const note = typeof message === "string" ?
+      message.trim().slice(0, 280) :
+      "";
+
+    logger.warn(`SOS triggered by patient ${userId}`);
+
+    try {
+      const userDoc = await admin.firestore().doc(`users/${userId}`).get();
+      const userData = userDoc.data();
+
+      if (!userData || userData.role !== "patient") {
+        throw new HttpsError(
+          "permission-denied",
+          "Only patients can trigger an SOS"
+        );
+      }
+
+      // An SOS always reaches contacts; sending it first keeps the critical
+      // status that follows from notifying them again
+      const contactsNotified = await notifyEmergencyContacts(
+        userId,
+        userData,
+        "sos",
+        note || undefined
+      );
+
+      const lifecycle = await applyAlertLifecycle(userId, null, {}, [
+        {
+          title: "SOS Triggered",
+          message: note ?
+            `Patient triggered an SOS: "${note}"` :
+            "Patient triggered an SOS",
+          severity: "high",
+          conditionKey: "sos",
+          // No vitals, so the alert is never auto-resolved by a reading
+          vitals: [],
+        },
+      ]);
+
+      // A repeat SOS updates the open alert, so tell the care team again
+      for (const alertId of lifecycle.updated) {
+        const alertDoc = await admin
+          .firestore()
+          .doc(`patients/${userId}/alerts/${alertId}`)
+          .get();
+        await queueAlertNotifications(
+          userId,
+          alertId,
+          alertDoc.data() || {},
+          userData
+        );
+      }
+
+      await recomputePatientStatus(userId);
+
+      // Create audit log
+      await admin.firestore().collection("auditLogs").add({
+        action: "sos_triggered",
+        userId: userId,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        details: {
+          message: note,
+          contactsNotified: contactsNotified,
+        },
+      });
+
+      return {
+        success: true,
+        alertId: lifecycle.created[0] ?? lifecycle.updated[0],
+        contactsNotified: contactsNotified,
+      };
+    } catch (error) {
+      logger.error("Error in triggerSos:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to trigger SOS");
+    }
+  }
+);
+
+/**
+ * HTTP function serving the read-only patient status page behind an emergency
+ * status link
+ */
+export const statusPage = onRequest(async (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+
+  res.set("Cache-Control", "no-store");
+  res.set("X-Robots-Tag", "noindex");
+
+  try {
+    const page = await renderStatusPage(token);
+    res.status(page.status).type("html").send(page.html);
+  } catch (error) {
+    logger.error("Error in statusPage:", error);
+    res.status(500).send("Unable to load status");
+  }
+});
+
 // ============================================
 // INVITATION MANAGEMENT FUNCTIONS
 // ============================================
@@ -836,17 +1753,31 @@ export const assignCareTeamMember = onCall(
 export const updateAvailability = onCall(
   { cors: true },
   async (request) => {
-    const { availability } = request.data;
+    const {availability, onCall} = request.data;
     const userId = request.auth?.uid;
 
     if (!userId) {
       throw new HttpsError("unauthenticated", "User must be authenticated");
     }
 
-    if (!availability || !["available", "busy", "offline"].includes(availability)) {
+    if (availability === undefined && onCall === undefined) {
+      throw new HttpsError(
+        "invalid-argument",
+        "availability or onCall is required"
+      );
+    }
+
+    if (
+      availability !== undefined &&
+      !["available", "busy", "offline"].includes(availability)
+    ) {
       throw new HttpsError("invalid-argument", "availability must be 'available', 'busy', or 'offline'");
     }
 
+    if (onCall !== undefined && typeof onCall !== "boolean") {
+      throw new HttpsError("invalid-argument", "onCall must be a boolean");
+    }
+
     try {
       // Verify user is a medical professional or caretaker
       const userDoc = await admin.firestore().doc(`users/${userId}`).get();
@@ -856,12 +1787,29 @@ export const updateAvailability = onCall(
         throw new HttpsError("permission-denied", "Only medical professionals and caretakers can update availability");
       }
 
-      logger.info(`Updating availability for ${userData.role} ${userId} to ${availability}`);
+      // On-call clinicians are the backup tier of alert escalation
+      if (onCall !== undefined && userData.role !== "medical") {
+        throw new HttpsError(
+          "permission-denied",
+          "Only medical professionals can join the on-call rota"
+        );
+      }
+
+      logger.info(
+        `Updating availability for ${userData.role} ${userId}`,
+        {availability, onCall}
+      );
 
       // Update availability
       await admin.firestore().doc(`users/${userId}`).update({
-        availability: availability,
-        availabilityUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...(availability !== undefined && {
+          availability: availability,
+          availabilityUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }),
+        ...(onCall !== undefined && {
+          onCall: onCall,
+          onCallUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }),
       });
 
       // Create audit log
@@ -871,13 +1819,18 @@ export const updateAvailability = onCall(
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
         details: {
           role: userData.role,
-          availability: availability,
+          availability: availability ?? userData.availability ?? null,
+          onCall: onCall ?? userData.onCall ?? false,
         },
       });
 
       logger.info(`Availability updated successfully for ${userData.role} ${userId}`);
 
-      return { success: true, availability: availability };
+      return {
+        success: true,
+        availability: availability ?? userData.availability,
+        onCall: onCall ?? userData.onCall === true,
+      };
     } catch (error) {
       logger.error("Error in updateAvailability:", error);
       if (error instanceof HttpsError) {
@@ -1206,6 +2159,39 @@ export const cleanupExpiredInvitations = onSchedule(
   }
 );
 
+/**
+ * Scheduled function to delete expired emergency status links
+ * Runs daily at 1 AM
+ */
+export const cleanupExpiredStatusLinks = onSchedule(
+  {
+    schedule: "0 1 * * *", // Daily at 1 AM
+    timeZone: "America/New_York",
+  },
+  async () => {
+    try {
+      const expiredLinks = await admin
+        .firestore()
+        .collection("statusLinks")
+        .where("expiresAt", "<", admin.firestore.Timestamp.now())
+        .limit(500)
+        .get();
+
+      const batch = admin.firestore().batch();
+      expiredLinks.docs.forEach((doc) => {
+        batch.delete(doc.ref);
+      });
+
+      await batch.commit();
+
+      logger.info(`Deleted ${expiredLinks.size} expired status links`);
+    } catch (error) {
+      logger.error("Error in cleanupExpiredStatusLinks:", error);
+      throw error;
+    }
+  }
+);
+
 /**
  * Scheduled function to clean up old notifications
  * Runs weekly on Sunday at 2 AM
@@ -0,0 +1,315 @@
+/**
+ * National Early Warning Score (NEWS2)
+ *
+ * Scores respiration rate, SpO2, supplemental oxygen, systolic BP, pulse,
+ * consciousness (ACVPU) and temperature per the Royal College of Physicians
+ * NEWS2 chart. Consciousness and supplemental oxygen are entered manually by
+ * the care team and stored at patients/{id}/settings/news2.
+ */
+
+import * as admin from "firebase-admin";
+import {VitalsAlert} from "./alertThresholds.js";
+
+export type Consciousness =
+  | "alert"
+  | "confusion"
+  | "voice"
+  | "pain"
+  | "unresponsive";
+
+export type News2Parameter =
+  | "respiration"
+  | "oxygenLevel"
+  | "supplementalOxygen"
+  | "bloodPressureSystolic"
+  | "heartRate"
+  | "consciousness"
+  | "temperature";
+
+export type News2Risk = "low" | "low-medium" | "medium" | "high";
+
+export interface News2Inputs {
+  consciousness?: Consciousness;
+  supplementalOxygen?: boolean;
+  // SpO2 Scale 2 for patients with hypercapnic respiratory failure (target
+  // 88-92%)
+  useSpO2Scale2?: boolean;
+}
+
+export interface News2Vitals {
+  respiration?: number;
+  oxygenLevel?: number;
+  bloodPressureSystolic?: number;
+  heartRate?: number;
+  temperature?: number;
+}
+
+export interface News2Result {
+  score: number;
+  risk: News2Risk;
+  components: Partial<Record<News2Parameter, number>>;
+  missing: News2Parameter[];
+  complete: boolean;
+}
+
+export const CONSCIOUSNESS_LEVELS: Consciousness[] = [
+  "alert",
+  "confusion",
+  "voice",
+  "pain",
+  "unresponsive",
+];
+
+export const NEWS2_VITALS: (keyof News2Vitals)[] = [
+  "respiration",
+  "oxygenLevel",
+  "bloodPressureSystolic",
+  "heartRate",
+  "temperature",
+];
+
+// Readings older than this are not used in the rolling score
+export const NEWS2_WINDOW_MINUTES = 60;
+
+/**
+ * Score a respiration rate in breaths per minute
+ * @param {number} rate
+ * @return {number}
+ */
+function scoreRespiration(rate: number): number {
+  if (rate <= 8) return 3;
+  if (rate <= 11) return 1;
+  if (rate <= 20) return 0;
+  if (rate <= 24) return 2;
+  return 3;
+}
+
+/**
+ * Score an SpO2 percentage on Scale 1, or Scale 2 when requested
+ * @param {number} spo2
+ * @param {boolean} useScale2
+ * @param {boolean} onOxygen
+ * @return {number}
+ */
+function scoreSpO2(
+  spo2: number,
+  useScale2: boolean,
+  onOxygen: boolean
+): number {
+  if (!useScale2) {
+    if (spo2 <= 91) return 3;
+    if (spo2 <= 93) return 2;
+    if (spo2 <= 95) return 1;
+    return 0;
+  }
+
+  if (spo2 <= 83) return 3;
+  if (spo2 <= 85) return 2;
+  if (spo2 <= 87) return 1;
+  // Scale 2 only penalises high saturations while on oxygen
+  if (spo2 <= 92 || !onOxygen) return 0;
+  if (spo2 <= 94) return 1;
+  if (spo2 <= 96) return 2;
+  return 3;
+}
+
+/**
+ * Score a systolic blood pressure in mmHg
+ * @param {number} systolic
+ * @return {number}
+ */
+function scoreSystolic(systolic: number): number {
+  if (systolic <= 90) return 3;
+  if (systolic <= 100) return 2;
+  if (systolic <= 110) return 1;
+  if (systolic <= 219) return 0;
+  return 3;
+}
+
+/**
+ * Score a pulse in beats per minute
+ * @param {number} pulse
+ * @return {number}
+ */
+function scorePulse(pulse: number): number {
+  if (pulse <= 40) return 3;
+  if (pulse <= 50) return 1;
+  if (pulse <= 90) return 0;
+  if (pulse <= 110) return 1;
+  if (pulse <= 130) return 2;
+  return 3;
+}
+
+/**
+ * Score a temperature in °C
+ * @param {number} temperature
+ * @return {number}
+ */
+function scoreTemperature(temperature: number): number {
+  if (temperature <= 35.0) return 3;
+  if (temperature <= 36.0) return 1;
+  if (temperature <= 38.0) return 0;
+  if (temperature <= 39.0) return 1;
+  return 2;
+}
+
+/**
+ * Compute NEWS2 from whichever parameters are available
+ * Missing parameters score 0 and are listed in `missing`
+ * @param {News2Vitals} vitals
+ * @param {News2Inputs} inputs
+ * @return {News2Result}
+ */
+export function scoreNews2(
+  vitals: News2Vitals,
+  inputs: News2Inputs = {}
+): News2Result {
+  const components: Partial<Record<News2Parameter, number>> = {};
+  const onOxygen = inputs.supplementalOxygen === true;
+
+  if (vitals.respiration !== undefined) {
+    components.respiration = scoreRespiration(vitals.respiration);
+  }
+  if (vitals.oxygenLevel !== undefined) {
+    components.oxygenLevel = scoreSpO2(
+      vitals.oxygenLevel,
+      inputs.useSpO2Scale2 === true,
+      onOxygen
+    );
+  }
+  if (inputs.supplementalOxygen !== undefined) {
+    components.supplementalOxygen = onOxygen ? 2 : 0;
+  }
+  if (vitals.bloodPressureSystolic !== undefined) {
+    components.bloodPressureSystolic =
+      scoreSystolic(vitals.bloodPressureSystolic);
+  }
+  if (vitals.heartRate !== undefined) {
+    components.heartRate = scorePulse(vitals.heartRate);
+  }
+  if (inputs.consciousness !== undefined) {
+    components.consciousness = inputs.consciousness === "alert" ? 0 : 3;
+  }
+  if (vitals.temperature !== undefined) {
+    components.temperature = scoreTemperature(vitals.temperature);
+  }
+
+  const allParameters: News2Parameter[] = [
+    ...NEWS2_VITALS,
+    "supplementalOxygen",
+    "consciousness",
+  ];
+  const missing = allParameters.filter(
+    (parameter) => components[parameter] === undefined
+  );
+  const scores = Object.values(components) as number[];
+  const score = scores.reduce((sum, value) => sum + value, 0);
+
+  let risk: News2Risk = "low";
+  if (score >= 7) risk = "high";
+  else if (score >= 5) risk = "medium";
+  else if (scores.includes(3)) risk = "low-medium";
+
+  return {score, risk, components, missing, complete: missing.length === 0};
+}
+
+/**
+ * Build the alert raised by a NEWS2 result, if any
+ * 7+ is high, 5-6 or a single parameter scoring 3 is medium
+ * @param {News2Result} result
+ * @return {VitalsAlert | null}
+ */
+export function news2Alert(result: News2Result): VitalsAlert | null {
+  if (result.risk === "low") return null;
+
+  const reason = result.risk === "low-medium" ?
+    "a single parameter scored 3" :
+    `aggregate score ${result.score}`;
+  const missing = result.complete ? "" : " - some parameters missing";
+
+  return {
+    title: result.risk === "high" ? "High NEWS2 Score" : "Elevated NEWS2 Score",
+    message: `NEWS2 is ${result.score} (${reason})${missing}`,
+    severity: result.risk === "high" ? "high" : "medium",
+    conditionKey: "news2",
+    vitals: ["news2"],
+  };
+}
+
+/**
+ * Load the care team's manual NEWS2 inputs for a patient
+ * @param {string} patientId
+ * @return {Promise<News2Inputs>}
+ */
+export async function loadNews2Inputs(
+  patientId: string
+): Promise<News2Inputs> {
+  const inputsDoc = await admin
+    .firestore()
+    .doc(`patients/${patientId}/settings/news2`)
+    .get();
+  return (inputsDoc.data() as News2Inputs) || {};
+}
+
+/**
+ * Compute the rolling NEWS2 from the latest value of each parameter in the
+ * window
+ * @param {string} patientId
+ * @param {admin.firestore.Timestamp} until
+ * @param {News2Inputs} inputs
+ * @return {Promise<News2Result>}
+ */
+export async function computeRollingNews2(
+  patientId: string,
+  until: admin.firestore.Timestamp,
+  inputs: News2Inputs
+): Promise<News2Result> {
+  const since = admin.firestore.Timestamp.fromMillis(
+    until.toMillis() - NEWS2_WINDOW_MINUTES * 60 * 1000
+  );
+  const snapshot = await admin
+    .firestore()
+    .collection(`patients/${patientId}/vitals`)
+    .where("timestamp", "<=", until)
+    .where("timestamp", ">=", since)
+    .orderBy("timestamp", "desc")
+    .limit(500)
+    .get();
+
+  // Readings are newest first, so keep the first value seen for each parameter
+  const latest: News2Vitals = {};
+  snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    NEWS2_VITALS.forEach((vital) => {
+      if (latest[vital] === undefined && typeof data[vital] === "number") {
+        latest[vital] = data[vital];
+      }
+    });
+  });
+
+  return scoreNews2(latest, inputs);
+}
+
+/**
+ * Recompute the rolling NEWS2 and store it on the patient's user document
+ * @param {string} patientId
+ * @param {admin.firestore.Timestamp} until
+ * @param {News2Inputs} inputs
+ * @return {Promise<News2Result>}
+ */
+export async function refreshPatientNews2(
+  patientId: string,
+  until: admin.firestore.Timestamp,
+  inputs: News2Inputs
+): Promise<News2Result> {
+  const result = await computeRollingNews2(patientId, until, inputs);
+
+  await admin.firestore().doc(`users/${patientId}`).update({
+    news2: {
+      ...result,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+  });
+
+  return result;
+}
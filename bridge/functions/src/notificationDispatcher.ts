@@ -0,0 +1,437 @@
+/**
+ * Notification Dispatcher
+ *
+ * Delivers documents from the notifications collection on the channels chosen
+ * by the recipient's notification preferences: push to every device token at
+ * users/{uid}/deviceTokens/{token}, email, and SMS. Records the outcome per
+ * channel and overall (sent, sentAt, failureReason, attempts), schedules
+ * retries with exponential backoff, and removes tokens that FCM reports as
+ * invalid. Low and medium notifications arriving during quiet hours are held
+ * and later combined into a single digest.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  INVALID_TOKEN_ERROR_CODES,
+  NotificationTransports,
+  getNotificationTransports,
+} from "./notificationTransports.js";
+import {
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationSeverity,
+  isInQuietHours,
+  resolveChannels,
+  shouldHoldForQuietHours,
+} from "./notificationPreferences.js";
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// A digest lists at most this many held notifications and stays within the
+// body length push services accept
+const MAX_DIGEST_ITEMS = 10;
+const MAX_DIGEST_LENGTH = 1000;
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+interface ChannelOutcome {
+  delivered: boolean;
+  // False when retrying cannot help, e.g. no tokens or no phone number
+  retryable: boolean;
+  failureReason?: string;
+}
+
+interface ChannelDelivery {
+  sent: boolean;
+  sentAt?: admin.firestore.Timestamp;
+  failureReason?: string;
+}
+
+/**
+ * Delay before the next attempt: 1, 2, 4, 8... minutes, capped at one hour
+ * @param {number} attempts
+ * @return {number}
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Send a push message to all of the recipient's registered devices
+ * @param {string} notificationId
+ * @param {admin.firestore.DocumentData} notification
+ * @param {NotificationTransports} transports
+ * @return {Promise<ChannelOutcome>}
+ */
+async function sendPush(
+  notificationId: string,
+  notification: admin.firestore.DocumentData,
+  transports: NotificationTransports
+): Promise<ChannelOutcome> {
+  const tokensSnapshot = await admin
+    .firestore()
+    .collection(`users/${notification.userId}/deviceTokens`)
+    .get();
+
+  if (tokensSnapshot.empty) {
+    // Nothing to retry until the user signs in on a device
+    return {
+      delivered: false,
+      retryable: false,
+      failureReason: "No registered device tokens",
+    };
+  }
+
+  const tokens = tokensSnapshot.docs.map((doc) => doc.id);
+  const results = await transports.push.send(tokens, {
+    title: notification.title,
+    body: notification.message,
+    highPriority: notification.severity === "high",
+    data: {
+      notificationId: notificationId,
+      type: notification.type || "system",
+      severity: notification.severity || "low",
+      ...(notification.patientId && {patientId: notification.patientId}),
+      ...(notification.alertId && {alertId: notification.alertId}),
+    },
+  });
+
+  // Prune tokens that will never work again
+  const invalidTokens = results.filter(
+    (result) =>
+      !result.success &&
+      result.errorCode &&
+      INVALID_TOKEN_ERROR_CODES.includes(result.errorCode)
+  );
+
+  if (invalidTokens.length > 0) {
+    const batch = admin.firestore().batch();
+    invalidTokens.forEach((result) => {
+      batch.delete(admin.firestore().doc(
+        `users/${notification.userId}/deviceTokens/${result.token}`
+      ));
+    });
+    await batch.commit();
+    logger.info(
+      `Removed ${invalidTokens.length} invalid device token(s) ` +
+      `for user ${notification.userId}`
+    );
+  }
+
+  if (results.some((result) => result.success)) {
+    return {delivered: true, retryable: false};
+  }
+
+  const firstError = results.find((result) => !result.success);
+  return {
+    delivered: false,
+    // Every token was invalid and has been removed, so a retry cannot succeed
+    retryable: invalidTokens.length < results.length,
+    failureReason: firstError?.errorCode ||
+      firstError?.errorMessage ||
+      "Unknown delivery error",
+  };
+}
+
+/**
+ * Send the notification to the recipient's account email
+ * @param {admin.firestore.DocumentData} notification
+ * @param {admin.firestore.DocumentData} user
+ * @param {NotificationTransports} transports
+ * @return {Promise<ChannelOutcome>}
+ */
+async function sendEmail(
+  notification: admin.firestore.DocumentData,
+  user: admin.firestore.DocumentData,
+  transports: NotificationTransports
+): Promise<ChannelOutcome> {
+  if (!user.email) {
+    return {
+      delivered: false,
+      retryable: false,
+      failureReason: "No email address on file",
+    };
+  }
+
+  const lines = [notification.message];
+  if (notification.patientName) {
+    lines.push("", `Patient: ${notification.patientName}`);
+  }
+  lines.push("", "Open HealthComm to view details.");
+
+  const result = await transports.email.send({
+    to: user.email,
+    subject: `HealthComm: ${notification.title}`,
+    text: lines.join("\n"),
+  });
+
+  return {
+    delivered: result.success,
+    retryable: result.retryable !== false,
+    failureReason: result.errorMessage,
+  };
+}
+
+/**
+ * Send the notification to the recipient's phone number
+ * @param {admin.firestore.DocumentData} notification
+ * @param {admin.firestore.DocumentData} user
+ * @param {NotificationTransports} transports
+ * @return {Promise<ChannelOutcome>}
+ */
+async function sendSms(
+  notification: admin.firestore.DocumentData,
+  user: admin.firestore.DocumentData,
+  transports: NotificationTransports
+): Promise<ChannelOutcome> {
+  if (!user.phoneNumber) {
+    return {
+      delivered: false,
+      retryable: false,
+      failureReason: "No phone number on file",
+    };
+  }
+
+  const result = await transports.sms.send({
+    to: user.phoneNumber,
+    body: `HealthComm: ${notification.title} - ${notification.message}`,
+  });
+
+  return {
+    delivered: result.success,
+    retryable: result.retryable !== false,
+    failureReason: result.errorMessage,
+  };
+}
+
+/**
+ * Deliver a notification on each channel the recipient's preferences call for
+ * @param {admin.firestore.DocumentReference} notificationRef
+ * @param {admin.firestore.DocumentData} notification
+ * @param {NotificationTransports} transports
+ * @return {Promise<boolean>} true once the recipient has been reached on at
+ *   least one channel
+ */
+export async function deliverNotification(
+  notificationRef: admin.firestore.DocumentReference,
+  notification: admin.firestore.DocumentData,
+  transports: NotificationTransports = getNotificationTransports()
+): Promise<boolean> {
+  const now = admin.firestore.Timestamp.now();
+  const userDoc = await admin
+    .firestore()
+    .doc(`users/${notification.userId}`)
+    .get();
+  const user = userDoc.data() || {};
+  const preferences = user.notificationPreferences as
+    NotificationPreferences | undefined;
+  const severity: NotificationSeverity = notification.severity || "low";
+  const firstAttempt = notification.pendingChannels === undefined;
+
+  // Channels are decided once; retries only revisit the ones that failed
+  const channels: NotificationChannel[] = firstAttempt ?
+    resolveChannels(preferences, severity) :
+    notification.pendingChannels;
+
+  if (
+    firstAttempt &&
+    notification.type !== "digest" &&
+    shouldHoldForQuietHours(preferences, severity)
+  ) {
+    await notificationRef.update({held: true, heldAt: now, channels: channels});
+    return false;
+  }
+
+  if (channels.length === 0) {
+    await notificationRef.update({
+      channels: channels,
+      pendingChannels: [],
+      failureReason: "All notification channels are turned off",
+      nextAttemptAt: null,
+    });
+    return false;
+  }
+
+  const attempts = (notification.attempts || 0) + 1;
+  const deliveries: Record<string, ChannelDelivery> = {
+    ...(notification.deliveries || {}),
+  };
+  const stillPending: NotificationChannel[] = [];
+
+  for (const channel of channels) {
+    let outcome: ChannelOutcome;
+
+    try {
+      if (channel === "push") {
+        outcome = await sendPush(notificationRef.id, notification, transports);
+      } else if (channel === "email") {
+        outcome = await sendEmail(notification, user, transports);
+      } else {
+        outcome = await sendSms(notification, user, transports);
+      }
+    } catch (error) {
+      logger.error(
+        `Error sending ${channel} for notification ${notificationRef.id}:`,
+        error
+      );
+      outcome = {
+        delivered: false,
+        retryable: true,
+        failureReason: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    deliveries[channel] = outcome.delivered ?
+      {sent: true, sentAt: now} :
+      {
+        sent: false,
+        failureReason: outcome.failureReason || "Unknown delivery error",
+      };
+
+    if (!outcome.delivered && outcome.retryable) {
+      stillPending.push(channel);
+    }
+  }
+
+  const delivered = Object.values(deliveries)
+    .some((delivery) => delivery.sent);
+  const failures = Object.entries(deliveries)
+    .filter(([, delivery]) => !delivery.sent);
+  const retry = stillPending.length > 0 && attempts < MAX_DELIVERY_ATTEMPTS;
+
+  await notificationRef.update({
+    sent: delivered,
+    ...(delivered && !notification.sentAt && {sentAt: now}),
+    attempts: attempts,
+    lastAttemptAt: now,
+    ...(firstAttempt && {channels: channels}),
+    deliveries: deliveries,
+    pendingChannels: retry ? stillPending : [],
+    failureReason: failures.length > 0 ?
+      failures
+        .map(([channel, delivery]) => `${channel}: ${delivery.failureReason}`)
+        .join("; ") :
+      admin.firestore.FieldValue.delete(),
+    nextAttemptAt: retry ?
+      admin.firestore.Timestamp.fromMillis(
+        now.toMillis() + retryDelayMs(attempts)
+      ) :
+      null,
+  });
+
+  if (stillPending.length > 0 && !retry) {
+    logger.warn(
+      `Giving up on ${stillPending.join(", ")} for notification ` +
+      `${notificationRef.id} after ${attempts} attempts`
+    );
+  }
+
+  return delivered;
+}
+
+/**
+ * Summarize held notifications in the order they were held, keeping the body
+ * short enough to send
+ * @param {admin.firestore.DocumentData[]} held
+ * @return {string}
+ */
+function digestMessage(held: admin.firestore.DocumentData[]): string {
+  const lines: string[] = [];
+  const maxLineLength = MAX_DIGEST_LENGTH / 2;
+  let length = 0;
+
+  for (const data of held.slice(0, MAX_DIGEST_ITEMS)) {
+    const line = `• ${data.title}: ${data.message}`;
+    const truncated = line.length > maxLineLength ?
+      `${line.slice(0, maxLineLength - 1)}…` :
+      line;
+    if (length + truncated.length > MAX_DIGEST_LENGTH) break;
+
+    lines.push(truncated);
+    length += truncated.length + 1;
+  }
+
+  const remaining = held.length - lines.length;
+  if (remaining > 0) {
+    lines.push(`…and ${remaining} more`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Combine notifications held during quiet hours into one digest per user
+ * Users still inside their quiet hours are skipped until the next run
+ * @return {Promise<number>} the number of digests created
+ */
+export async function sendQuietHoursDigests(): Promise<number> {
+  const heldSnapshot = await admin
+    .firestore()
+    .collection("notifications")
+    .where("held", "==", true)
+    .limit(500)
+    .get();
+
+  const byUser = new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+  heldSnapshot.docs.forEach((doc) => {
+    const userId = doc.data().userId;
+    byUser.set(userId, [...(byUser.get(userId) || []), doc]);
+  });
+
+  let digestCount = 0;
+
+  for (const [userId, docs] of byUser) {
+    const userDoc = await admin.firestore().doc(`users/${userId}`).get();
+    if (isInQuietHours(userDoc.data()?.notificationPreferences)) continue;
+
+    const held = docs
+      .map((doc) => doc.data())
+      .sort((a, b) =>
+        (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0)
+      );
+    const severity = held.reduce<NotificationSeverity>(
+      (highest, data) =>
+        SEVERITY_RANK[data.severity as NotificationSeverity] >
+          SEVERITY_RANK[highest] ?
+          data.severity :
+          highest,
+      "low"
+    );
+
+    const digestRef = admin.firestore().collection("notifications").doc();
+    const batch = admin.firestore().batch();
+    const plural = held.length === 1 ? "" : "s";
+
+    batch.set(digestRef, {
+      userId: userId,
+      type: "digest",
+      severity: severity,
+      title: `${held.length} notification${plural} during quiet hours`,
+      message: digestMessage(held),
+      digestOf: docs.map((doc) => doc.id),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      read: false,
+      sent: false,
+    });
+
+    docs.forEach((doc) => {
+      batch.update(doc.ref, {held: false, digestId: digestRef.id});
+    });
+
+    await batch.commit();
+    digestCount++;
+  }
+
+  return digestCount;
+}
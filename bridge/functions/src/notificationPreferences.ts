@@ -0,0 +1,154 @@
+/**
+ * Notification Preferences
+ *
+ * Decides which channels a notification goes out on for a given user. The
+ * email/push/sms flags saved from Settings are the base, per-severity overrides
+ * adjust them, and high severity is always delivered by push, even during
+ * quiet hours. Low and medium notifications that arrive during quiet hours (in
+ * the user's timezone) are held and sent as a digest once quiet hours end.
+ */
+
+export type NotificationChannel = "push" | "email" | "sms";
+export type NotificationSeverity = "low" | "medium" | "high";
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local 24-hour times, e.g. "22:00" to "07:00"
+  start: string;
+  end: string;
+}
+
+export type SeverityOverrides = Partial<
+  Record<NotificationSeverity, Partial<Record<NotificationChannel, boolean>>>
+>;
+
+export interface NotificationPreferences {
+  email?: boolean;
+  push?: boolean;
+  sms?: boolean;
+  severityOverrides?: SeverityOverrides;
+  quietHours?: QuietHours;
+  // IANA timezone, e.g. "America/New_York"
+  timezone?: string;
+}
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = [
+  "push",
+  "email",
+  "sms",
+];
+
+// Used when a user has never saved preferences (matches the Settings defaults)
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: true,
+  sms: false,
+};
+
+// Applied on top of the user's choices and cannot be turned off
+const REQUIRED_SEVERITY_CHANNELS: Partial<
+  Record<NotificationSeverity, NotificationChannel[]>
+> = {
+  high: ["push"],
+};
+
+const DEFAULT_TIMEZONE = "America/New_York";
+
+/**
+ * Resolve the channels a notification of the given severity should use
+ * @param {NotificationPreferences | undefined} preferences
+ * @param {NotificationSeverity} severity
+ * @return {NotificationChannel[]}
+ */
+export function resolveChannels(
+  preferences: NotificationPreferences | undefined,
+  severity: NotificationSeverity
+): NotificationChannel[] {
+  const base = {...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences};
+  const overrides = base.severityOverrides?.[severity] || {};
+  const required = REQUIRED_SEVERITY_CHANNELS[severity] || [];
+
+  return NOTIFICATION_CHANNELS.filter(
+    (channel) =>
+      required.includes(channel) ||
+      (overrides[channel] ?? base[channel]) === true
+  );
+}
+
+/**
+ * Minutes since midnight for a "HH:MM" time, or null if it is not valid
+ * @param {string} time
+ * @return {number | null}
+ */
+function parseTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes since local midnight in the given timezone
+ * @param {Date} date
+ * @param {string} timezone
+ * @return {number}
+ */
+function localMinutes(date: Date, timezone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch {
+    // Unknown timezone
+    return localMinutes(date, DEFAULT_TIMEZONE);
+  }
+
+  const hour = Number(parts.find((part) => part.type === "hour")?.value);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value);
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether the given time falls within the user's quiet hours
+ * Windows may cross midnight (e.g. 22:00 to 07:00)
+ * @param {NotificationPreferences | undefined} preferences
+ * @param {Date} date
+ * @return {boolean}
+ */
+export function isInQuietHours(
+  preferences: NotificationPreferences | undefined,
+  date: Date = new Date()
+): boolean {
+  const quietHours = preferences?.quietHours;
+  if (!quietHours?.enabled) return false;
+
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = localMinutes(date, preferences?.timezone || DEFAULT_TIMEZONE);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Whether a notification should be held for the digest instead of sent now
+ * @param {NotificationPreferences | undefined} preferences
+ * @param {NotificationSeverity} severity
+ * @param {Date} date
+ * @return {boolean}
+ */
+export function shouldHoldForQuietHours(
+  preferences: NotificationPreferences | undefined,
+  severity: NotificationSeverity,
+  date: Date = new Date()
+): boolean {
+  return severity !== "high" && isInQuietHours(preferences, date);
+}
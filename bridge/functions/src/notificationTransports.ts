@@ -0,0 +1,422 @@
+/**
+ * Notification Transports
+ *
+ * Delivery backends used by the notification dispatcher. Production sends push
+ * messages through Firebase Cloud Messaging, email through SendGrid and SMS
+ * through Twilio; the emulator and local testing use in-memory fakes that
+ * record what would have been sent and can simulate failures and invalid
+ * tokens.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // FCM data payloads only accept string values
+  data?: Record<string, string>;
+  highPriority?: boolean;
+}
+
+export interface PushSendResult {
+  token: string;
+  success: boolean;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface PushTransport {
+  send(tokens: string[], message: PushMessage): Promise<PushSendResult[]>;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SendResult {
+  success: boolean;
+  errorMessage?: string;
+  // False when retrying cannot help, e.g. a rejected address
+  retryable?: boolean;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<SendResult>;
+}
+
+// Error codes meaning the token will never work again and should be removed.
+// messaging/invalid-argument is not one: it usually means the payload was
+// rejected.
+export const INVALID_TOKEN_ERROR_CODES = [
+  "messaging/invalid-registration-token",
+  "messaging/registration-token-not-registered",
+];
+
+/**
+ * Sends push messages through Firebase Cloud Messaging
+ */
+export class FcmPushTransport implements PushTransport {
+  /**
+   * Send a message to each token
+   * @param {string[]} tokens
+   * @param {PushMessage} message
+   * @return {Promise<PushSendResult[]>} one result per token
+   */
+  async send(
+    tokens: string[],
+    message: PushMessage
+  ): Promise<PushSendResult[]> {
+    const response = await admin.messaging().sendEachForMulticast({
+      tokens: tokens,
+      notification: {
+        title: message.title,
+        body: message.body,
+      },
+      data: message.data,
+      apns: {
+        headers: {"apns-priority": message.highPriority ? "10" : "5"},
+        payload: {aps: {sound: "default"}},
+      },
+      webpush: {
+        headers: {Urgency: message.highPriority ? "high" : "normal"},
+      },
+    });
+
+    return response.responses.map((result, index) => ({
+      token: tokens[index],
+      success: result.success,
+      errorCode: result.error?.code,
+      errorMessage: result.error?.message,
+    }));
+  }
+}
+
+/**
+ * In-memory transport for the emulator and local testing
+ */
+export class FakePushTransport implements PushTransport {
+  sent: { tokens: string[]; message: PushMessage }[] = [];
+  // Tokens that respond as unregistered
+  invalidTokens = new Set<string>();
+  // When set, every other token fails with this error code
+  failWith: string | null = null;
+
+  /**
+   * Record the message and answer for each token
+   * @param {string[]} tokens
+   * @param {PushMessage} message
+   * @return {Promise<PushSendResult[]>} one result per token
+   */
+  async send(
+    tokens: string[],
+    message: PushMessage
+  ): Promise<PushSendResult[]> {
+    this.sent.push({tokens, message});
+    logger.info(
+      `[FakePushTransport] "${message.title}" to ${tokens.length} token(s)`
+    );
+
+    return tokens.map((token) => {
+      if (this.invalidTokens.has(token)) {
+        return {
+          token,
+          success: false,
+          errorCode: "messaging/registration-token-not-registered",
+          errorMessage: "Requested entity was not found.",
+        };
+      }
+
+      if (this.failWith) {
+        return {
+          token,
+          success: false,
+          errorCode: this.failWith,
+          errorMessage: "Simulated failure",
+        };
+      }
+
+      return {token, success: true};
+    });
+  }
+
+  /**
+   * Forget sent messages and simulated failures
+   */
+  reset(): void {
+    this.sent = [];
+    this.invalidTokens.clear();
+    this.failWith = null;
+  }
+}
+
+/**
+ * Sends email through the SendGrid v3 API
+ * Requires SENDGRID_API_KEY and SENDGRID_FROM_EMAIL
+ */
+export class SendGridEmailTransport implements EmailTransport {
+  /**
+   * Send a plain text email
+   * @param {EmailMessage} message
+   * @return {Promise<SendResult>}
+   */
+  async send(message: EmailMessage): Promise<SendResult> {
+    const apiKey = process.env.SENDGRID_API_KEY;
+    const from = process.env.SENDGRID_FROM_EMAIL;
+    if (!apiKey || !from) {
+      return {
+        success: false,
+        errorMessage: "SendGrid is not configured",
+        retryable: false,
+      };
+    }
+
+    const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        personalizations: [{to: [{email: message.to}]}],
+        from: {email: from, name: "HealthComm"},
+        subject: message.subject,
+        content: [{type: "text/plain", value: message.text}],
+      }),
+    });
+
+    if (response.ok) return {success: true};
+
+    // 4xx (other than rate limiting) means the request itself was rejected
+    return {
+      success: false,
+      errorMessage: `SendGrid ${response.status}: ${await response.text()}`,
+      retryable: response.status === 429 || response.status >= 500,
+    };
+  }
+}
+
+/**
+ * Sends SMS through the Twilio Messages API
+ * Requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER
+ */
+export class TwilioSmsTransport implements SmsTransport {
+  /**
+   * Send a text message
+   * @param {SmsMessage} message
+   * @return {Promise<SendResult>}
+   */
+  async send(message: SmsMessage): Promise<SendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM_NUMBER;
+    if (!accountSid || !authToken || !from) {
+      return {
+        success: false,
+        errorMessage: "Twilio is not configured",
+        retryable: false,
+      };
+    }
+
+    const url = "https://api.twilio.com/2010-04-01/Accounts/" +
+      `${accountSid}/Messages.json`;
+    const credentials = Buffer.from(`${accountSid}:${authToken}`)
+      .toString("base64");
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        To: message.to,
+        From: from,
+        Body: message.body,
+      }).toString(),
+    });
+
+    if (response.ok) return {success: true};
+
+    return {
+      success: false,
+      errorMessage: `Twilio ${response.status}: ${await response.text()}`,
+      retryable: response.status === 429 || response.status >= 500,
+    };
+  }
+}
+
+/**
+ * In-memory email transport for the emulator and local testing
+ */
+export class FakeEmailTransport implements EmailTransport {
+  sent: EmailMessage[] = [];
+  failWith: string | null = null;
+
+  /**
+   * Record the email, or fail with the simulated error
+   * @param {EmailMessage} message
+   * @return {Promise<SendResult>}
+   */
+  async send(message: EmailMessage): Promise<SendResult> {
+    if (this.failWith) {
+      return {success: false, errorMessage: this.failWith, retryable: true};
+    }
+
+    this.sent.push(message);
+    logger.info(`[FakeEmailTransport] "${message.subject}" to ${message.to}`);
+    return {success: true};
+  }
+
+  /**
+   * Forget sent emails and the simulated error
+   */
+  reset(): void {
+    this.sent = [];
+    this.failWith = null;
+  }
+}
+
+/**
+ * In-memory SMS transport for the emulator and local testing
+ */
+export class FakeSmsTransport implements SmsTransport {
+  sent: SmsMessage[] = [];
+  failWith: string | null = null;
+
+  /**
+   * Record the text message, or fail with the simulated error
+   * @param {SmsMessage} message
+   * @return {Promise<SendResult>}
+   */
+  async send(message: SmsMessage): Promise<SendResult> {
+    if (this.failWith) {
+      return {success: false, errorMessage: this.failWith, retryable: true};
+    }
+
+    this.sent.push(message);
+    logger.info(`[FakeSmsTransport] SMS to ${message.to}`);
+    return {success: true};
+  }
+
+  /**
+   * Forget sent text messages and the simulated error
+   */
+  reset(): void {
+    this.sent = [];
+    this.failWith = null;
+  }
+}
+
+export interface NotificationTransports {
+  push: PushTransport;
+  email: EmailTransport;
+  sms: SmsTransport;
+}
+
+let pushTransport: PushTransport | null = null;
+let emailTransport: EmailTransport | null = null;
+let smsTransport: SmsTransport | null = null;
+
+/**
+ * Whether a channel should use its local fake, e.g. PUSH_TRANSPORT=fake
+ * The emulator always uses fakes
+ * @param {string} variable
+ * @return {boolean}
+ */
+function useFakeTransport(variable: string): boolean {
+  return process.env[variable] === "fake" ||
+    process.env.FUNCTIONS_EMULATOR === "true";
+}
+
+/**
+ * Get the active push transport
+ * Uses the fake when PUSH_TRANSPORT=fake or when running in the emulator
+ * @return {PushTransport}
+ */
+export function getPushTransport(): PushTransport {
+  if (!pushTransport) {
+    pushTransport = useFakeTransport("PUSH_TRANSPORT") ?
+      new FakePushTransport() :
+      new FcmPushTransport();
+  }
+
+  return pushTransport;
+}
+
+/**
+ * Replace the active push transport (for tests and local tooling)
+ * @param {PushTransport | null} transport
+ */
+export function setPushTransport(transport: PushTransport | null): void {
+  pushTransport = transport;
+}
+
+/**
+ * Get the active email transport
+ * Uses the fake when EMAIL_TRANSPORT=fake or when running in the emulator
+ * @return {EmailTransport}
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) {
+    emailTransport = useFakeTransport("EMAIL_TRANSPORT") ?
+      new FakeEmailTransport() :
+      new SendGridEmailTransport();
+  }
+
+  return emailTransport;
+}
+
+/**
+ * Replace the active email transport (for tests and local tooling)
+ * @param {EmailTransport | null} transport
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  emailTransport = transport;
+}
+
+/**
+ * Get the active SMS transport
+ * Uses the fake when SMS_TRANSPORT=fake or when running in the emulator
+ * @return {SmsTransport}
+ */
+export function getSmsTransport(): SmsTransport {
+  if (!smsTransport) {
+    smsTransport = useFakeTransport("SMS_TRANSPORT") ?
+      new FakeSmsTransport() :
+      new TwilioSmsTransport();
+  }
+
+  return smsTransport;
+}
+
+/**
+ * Replace the active SMS transport (for tests and local tooling)
+ * @param {SmsTransport | null} transport
+ */
+export function setSmsTransport(transport: SmsTransport | null): void {
+  smsTransport = transport;
+}
+
+/**
+ * Get the active transport for every channel
+ * @return {NotificationTransports}
+ */
+export function getNotificationTransports(): NotificationTransports {
+  return {
+    push: getPushTransport(),
+    email: getEmailTransport(),
+    sms: getSmsTransport(),
+  };
+}
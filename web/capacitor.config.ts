@@ -8,12 +8,12 @@ const config: CapacitorConfig = {
     androidScheme: 'https'
   },
   plugins: {
-    Health: {
-      ios: {
-        backgroundDelivery: true,
-        // Request authorization for HealthKit on app launch
-        autoAuth: false
-      }
+    HealthKitVitals: {
+      // Let HealthKit wake the app to deliver new samples (ios/App/App/HealthKitVitalsPlugin.swift)
+      backgroundDelivery: true
+    },
+    PushNotifications: {
+      presentationOptions: ['badge', 'sound', 'alert']
     }
   }
 };
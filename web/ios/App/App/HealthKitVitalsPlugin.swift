@@ -0,0 +1,343 @@
+import Foundation
+import Capacitor
+import HealthKit
+
+// Reads the vitals capacitor-health does not cover: blood pressure, SpO2, body
+// temperature, blood glucose, respiratory rate and HRV, plus heart rate samples
+// outside workouts. Registered with the bridge in ViewController.
+//
+// Background delivery: observer queries watch each type and, when HealthKit
+// reports changes (waking the app if needed), an anchored query collects the
+// samples added since the type's last anchor and sends them to JavaScript in a
+// "samplesAdded" event. JavaScript saves the anchor once it has taken the samples,
+// so samples are delivered again rather than lost if the app stops first.
+@objc(HealthKitVitalsPlugin)
+public class HealthKitVitalsPlugin: CAPPlugin, CAPBridgedPlugin {
+    public let identifier = "HealthKitVitalsPlugin"
+    public let jsName = "HealthKitVitals"
+    public let pluginMethods: [CAPPluginMethod] = [
+        CAPPluginMethod(name: "isAvailable", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "requestAuthorization", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "queryQuantitySamples", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "queryBloodPressure", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "startBackgroundDelivery", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "stopBackgroundDelivery", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "getBackgroundDeliveryStatus", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "saveAnchor", returnType: CAPPluginReturnPromise)
+    ]
+
+    private let healthStore = HKHealthStore()
+    private let defaults = UserDefaults.standard
+    private var observerQueries: [HKObserverQuery] = []
+
+    private let observedTypesKey = "HealthKitVitals.observedTypes"
+    private let deliverySinceKey = "HealthKitVitals.deliverySince"
+
+    // Quantity types by the name used in JavaScript, with the unit values are reported in
+    private let quantityTypes: [String: (identifier: HKQuantityTypeIdentifier, unit: HKUnit)] = [
+        "heartRate": (.heartRate, HKUnit.count().unitDivided(by: .minute())),
+        "oxygenSaturation": (.oxygenSaturation, .percent()),
+        "bodyTemperature": (.bodyTemperature, .degreeCelsius()),
+        "bloodGlucose": (.bloodGlucose, HKUnit(from: "mg/dL")),
+        "respiratoryRate": (.respiratoryRate, HKUnit.count().unitDivided(by: .minute())),
+        "heartRateVariabilitySDNN": (.heartRateVariabilitySDNN, .secondUnit(with: .milli))
+    ]
+
+    private let dateFormatter: ISO8601DateFormatter = {
+        let formatter = ISO8601DateFormatter()
+        formatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
+        return formatter
+    }()
+
+    @objc func isAvailable(_ call: CAPPluginCall) {
+        call.resolve(["available": HKHealthStore.isHealthDataAvailable()])
+    }
+
+    @objc func requestAuthorization(_ call: CAPPluginCall) {
+        var readTypes = Set<HKObjectType>()
+
+        for name in call.getArray("read", String.self) ?? [] {
+            if name == "bloodPressure" {
+                // Correlations are authorized through the quantity types they contain
+                [HKQuantityTypeIdentifier.bloodPressureSystolic, .bloodPressureDiastolic]
+                    .compactMap { HKQuantityType.quantityType(forIdentifier: $0) }
+                    .forEach { readTypes.insert($0) }
+            } else if let entry = quantityTypes[name],
+                      let type = HKQuantityType.quantityType(forIdentifier: entry.identifier) {
+                readTypes.insert(type)
+            }
+        }
+
+        healthStore.requestAuthorization(toShare: nil, read: readTypes) { _, error in
+            if let error = error {
+                call.reject(error.localizedDescription)
+                return
+            }
+            call.resolve()
+        }
+    }
+
+    @objc func queryQuantitySamples(_ call: CAPPluginCall) {
+        guard let name = call.getString("type"),
+              let entry = quantityTypes[name],
+              let sampleType = HKQuantityType.quantityType(forIdentifier: entry.identifier) else {
+            call.reject("Unsupported HealthKit quantity type")
+            return
+        }
+        guard let predicate = datePredicate(call) else {
+            call.reject("startDate and endDate must be ISO 8601 dates")
+            return
+        }
+
+        let sortByStart = NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: true)
+        let query = HKSampleQuery(
+            sampleType: sampleType,
+            predicate: predicate,
+            limit: HKObjectQueryNoLimit,
+            sortDescriptors: [sortByStart]
+        ) { _, results, error in
+            if let error = error {
+                call.reject(error.localizedDescription)
+                return
+            }
+
+            let samples = (results as? [HKQuantitySample] ?? []).map { self.quantityFields($0, unit: entry.unit) }
+            call.resolve(["samples": samples])
+        }
+
+        healthStore.execute(query)
+    }
+
+    @objc func queryBloodPressure(_ call: CAPPluginCall) {
+        guard let correlationType = HKCorrelationType.correlationType(forIdentifier: .bloodPressure) else {
+            call.reject("Blood pressure is not available")
+            return
+        }
+        guard let predicate = datePredicate(call) else {
+            call.reject("startDate and endDate must be ISO 8601 dates")
+            return
+        }
+
+        let query = HKCorrelationQuery(
+            type: correlationType,
+            predicate: predicate,
+            samplePredicates: nil
+        ) { _, correlations, error in
+            if let error = error {
+                call.reject(error.localizedDescription)
+                return
+            }
+
+            let samples = (correlations ?? [])
+                .sorted { $0.startDate < $1.startDate }
+                .map { self.bloodPressureFields($0) }
+            call.resolve(["samples": samples])
+        }
+
+        healthStore.execute(query)
+    }
+
+    // MARK: Background delivery
+
+    override public func load() {
+        // HealthKit relaunches the app in the background to deliver samples, so observers are registered again
+        if let types = defaults.stringArray(forKey: observedTypesKey), !types.isEmpty {
+            startObserving(types)
+        }
+    }
+
+    @objc func startBackgroundDelivery(_ call: CAPPluginCall) {
+        let types = call.getArray("types", String.self) ?? []
+        guard let since = call.getString("since").flatMap({ dateFormatter.date(from: $0) }) else {
+            call.reject("since must be an ISO 8601 date")
+            return
+        }
+
+        // Samples older than this are never delivered, even before the first anchor is saved
+        if defaults.object(forKey: deliverySinceKey) == nil {
+            defaults.set(since, forKey: deliverySinceKey)
+        }
+        defaults.set(types, forKey: observedTypesKey)
+
+        startObserving(types)
+        call.resolve()
+    }
+
+    @objc func stopBackgroundDelivery(_ call: CAPPluginCall) {
+        observerQueries.forEach { healthStore.stop($0) }
+        observerQueries = []
+
+        (defaults.stringArray(forKey: observedTypesKey) ?? []).forEach { defaults.removeObject(forKey: anchorKey($0)) }
+        defaults.removeObject(forKey: observedTypesKey)
+        defaults.removeObject(forKey: deliverySinceKey)
+
+        healthStore.disableAllBackgroundDelivery { _, error in
+            if let error = error {
+                call.reject(error.localizedDescription)
+                return
+            }
+            call.resolve()
+        }
+    }
+
+    @objc func getBackgroundDeliveryStatus(_ call: CAPPluginCall) {
+        let types = defaults.stringArray(forKey: observedTypesKey) ?? []
+        call.resolve(["active": !types.isEmpty, "types": types])
+    }
+
+    @objc func saveAnchor(_ call: CAPPluginCall) {
+        guard let type = call.getString("type"),
+              let anchor = call.getString("anchor").flatMap({ Data(base64Encoded: $0) }) else {
+            call.reject("type and a base64 anchor are required")
+            return
+        }
+
+        defaults.set(anchor, forKey: anchorKey(type))
+        call.resolve()
+    }
+
+    private func startObserving(_ types: [String]) {
+        observerQueries.forEach { healthStore.stop($0) }
+        observerQueries = []
+
+        let backgroundDelivery = getConfig().getBoolean("backgroundDelivery", true)
+
+        for name in types {
+            guard let observedType = observedSampleType(name) else { continue }
+
+            // Also runs once when first executed, which delivers anything added while the app was not running
+            let query = HKObserverQuery(sampleType: observedType, predicate: nil) { [weak self] _, completionHandler, error in
+                guard let self = self, error == nil else {
+                    completionHandler()
+                    return
+                }
+                self.deliverNewSamples(name, completion: completionHandler)
+            }
+            healthStore.execute(query)
+            observerQueries.append(query)
+
+            if backgroundDelivery {
+                healthStore.enableBackgroundDelivery(for: observedType, frequency: .immediate) { _, error in
+                    if let error = error {
+                        CAPLog.print("HealthKit background delivery for \(name) failed: \(error.localizedDescription)")
+                    }
+                }
+            }
+        }
+    }
+
+    private func deliverNewSamples(_ name: String, completion: @escaping () -> Void) {
+        guard let sampleType = queriedSampleType(name) else {
+            completion()
+            return
+        }
+
+        let anchor = loadAnchor(name)
+        let since = defaults.object(forKey: deliverySinceKey) as? Date
+        let predicate = since.map { HKQuery.predicateForSamples(withStart: $0, end: nil, options: .strictStartDate) }
+
+        let query = HKAnchoredObjectQuery(
+            type: sampleType,
+            predicate: predicate,
+            anchor: anchor,
+            limit: HKObjectQueryNoLimit
+        ) { [weak self] _, added, _, newAnchor, error in
+            defer { completion() }
+            guard let self = self, error == nil, let newAnchor = newAnchor,
+                  let archivedAnchor = try? NSKeyedArchiver.archivedData(withRootObject: newAnchor, requiringSecureCoding: true) else {
+                return
+            }
+
+            let samples: [[String: Any]] = (added ?? []).compactMap { sample in
+                if let correlation = sample as? HKCorrelation {
+                    return self.bloodPressureFields(correlation)
+                }
+                if let quantitySample = sample as? HKQuantitySample, let entry = self.quantityTypes[name] {
+                    return self.quantityFields(quantitySample, unit: entry.unit)
+                }
+                return nil
+            }
+
+            // Nothing to hand over, so the anchor can move on straight away
+            if samples.isEmpty {
+                self.defaults.set(archivedAnchor, forKey: self.anchorKey(name))
+                return
+            }
+
+            self.notifyListeners("samplesAdded", data: [
+                "type": name,
+                "samples": samples,
+                "anchor": archivedAnchor.base64EncodedString()
+            ], retainUntilConsumed: true)
+        }
+
+        healthStore.execute(query)
+    }
+
+    // The type whose changes signal new samples; blood pressure is observed through its systolic values
+    private func observedSampleType(_ name: String) -> HKSampleType? {
+        if name == "bloodPressure" {
+            return HKQuantityType.quantityType(forIdentifier: .bloodPressureSystolic)
+        }
+        guard let entry = quantityTypes[name] else { return nil }
+        return HKQuantityType.quantityType(forIdentifier: entry.identifier)
+    }
+
+    // The type new samples are read from; blood pressure is read as correlations so values stay paired
+    private func queriedSampleType(_ name: String) -> HKSampleType? {
+        if name == "bloodPressure" {
+            return HKCorrelationType.correlationType(forIdentifier: .bloodPressure)
+        }
+        return observedSampleType(name)
+    }
+
+    private func anchorKey(_ name: String) -> String {
+        return "HealthKitVitals.anchor.\(name)"
+    }
+
+    private func loadAnchor(_ name: String) -> HKQueryAnchor? {
+        guard let data = defaults.data(forKey: anchorKey(name)) else { return nil }
+        return try? NSKeyedUnarchiver.unarchivedObject(ofClass: HKQueryAnchor.self, from: data)
+    }
+
+    // MARK: Sample serialization
+
+    private func quantityFields(_ sample: HKQuantitySample, unit: HKUnit) -> [String: Any] {
+        var result = sampleFields(sample)
+        result["value"] = sample.quantity.doubleValue(for: unit)
+        return result
+    }
+
+    private func bloodPressureFields(_ correlation: HKCorrelation) -> [String: Any] {
+        // Both values come from the same correlation, so they always belong to one measurement
+        var result = sampleFields(correlation)
+        let mmHg = HKUnit.millimeterOfMercury()
+
+        if let systolicType = HKQuantityType.quantityType(forIdentifier: .bloodPressureSystolic),
+           let systolic = correlation.objects(for: systolicType).first as? HKQuantitySample {
+            result["systolic"] = systolic.quantity.doubleValue(for: mmHg)
+        }
+        if let diastolicType = HKQuantityType.quantityType(forIdentifier: .bloodPressureDiastolic),
+           let diastolic = correlation.objects(for: diastolicType).first as? HKQuantitySample {
+            result["diastolic"] = diastolic.quantity.doubleValue(for: mmHg)
+        }
+        return result
+    }
+
+    private func sampleFields(_ sample: HKSample) -> [String: Any] {
+        return [
+            "uuid": sample.uuid.uuidString,
+            "startDate": dateFormatter.string(from: sample.startDate),
+            "endDate": dateFormatter.string(from: sample.endDate),
+            "sourceName": sample.sourceRevision.source.name
+        ]
+    }
+
+    private func datePredicate(_ call: CAPPluginCall) -> NSPredicate? {
+        guard let start = call.getString("startDate").flatMap({ dateFormatter.date(from: $0) }),
+              let end = call.getString("endDate").flatMap({ dateFormatter.date(from: $0) }) else {
+            return nil
+        }
+        return HKQuery.predicateForSamples(withStart: start, end: end, options: .strictStartDate)
+    }
+}
@@ -0,0 +1,9 @@
+import UIKit
+import Capacitor
+
+class ViewController: CAPBridgeViewController {
+    override open func capacitorDidLoad() {
+        // Plugins that live in the app target are not discovered automatically, so register them here
+        bridge?.registerPluginInstance(HealthKitVitalsPlugin())
+    }
+}
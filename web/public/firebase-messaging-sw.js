@@ -0,0 +1,39 @@
+/* global importScripts, firebase */
+
+/**
+ * Firebase Cloud Messaging service worker
+ * Shows push notifications while HealthComm is in the background. The Firebase
+ * config is passed as query parameters by pushNotificationService, since Vite
+ * env vars are not available here.
+ */
+
+importScripts('https://www.gstatic.com/firebasejs/12.0.0/firebase-app-compat.js');
+importScripts('https://www.gstatic.com/firebasejs/12.0.0/firebase-messaging-compat.js');
+
+const params = new URL(self.location.href).searchParams;
+
+firebase.initializeApp({
+  apiKey: params.get('apiKey'),
+  projectId: params.get('projectId'),
+  messagingSenderId: params.get('messagingSenderId'),
+  appId: params.get('appId'),
+});
+
+const messaging = firebase.messaging();
+
+messaging.onBackgroundMessage((payload) => {
+  // Messages with a notification payload are displayed by the SDK automatically
+  if (payload.notification) return;
+
+  const data = payload.data || {};
+  self.registration.showNotification(data.title || 'HealthComm', {
+    body: data.body || '',
+    icon: '/HealthCommFavicon.png',
+    data,
+  });
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow('/'));
+});
@@ -1,7 +1,9 @@
 import { useState } from 'react';
-import type { DeviceType, DeviceStatus } from '../contexts/AuthTypes';
+import type { Device, DeviceType, DeviceStatus } from '../contexts/AuthTypes';
 import { useDevice } from '../hooks/useDevice';
 import { useDarkMode } from '../contexts/useDarkMode';
+import { SIMULATION_SCENARIOS, type SimulationScenario } from '../services/simulatedDeviceService';
+import type { BluetoothDeviceType } from '../services/types';
 
 interface AddDeviceModalProps {
   isOpen: boolean;
@@ -9,11 +11,15 @@ interface AddDeviceModalProps {
 }
 
 export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps) {
-  const { addDevice, connectBluetoothDevice, connectGoogleFit, connectAppleHealth } = useDevice();
+  const { addDevice, connectBluetoothDevice, connectSimulatedDevice, connectGoogleFit, connectAppleHealth } = useDevice();
   const { darkMode } = useDarkMode();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [connectionMode, setConnectionMode] = useState<'manual' | 'bluetooth' | 'googlefit' | 'applehealth'>('bluetooth');
+  const [connectionMode, setConnectionMode] = useState<'manual' | 'bluetooth' | 'googlefit' | 'applehealth' | 'simulator'>('bluetooth');
+  // Bluetooth device just connected, shown with the details read from it
+  const [connectedDevice, setConnectedDevice] = useState<Device | null>(null);
+  const [simulatedType, setSimulatedType] = useState<BluetoothDeviceType>('pulse_oximeter');
+  const [scenario, setScenario] = useState<SimulationScenario>('normal');
 
   const [formData, setFormData] = useState({
     name: '',
@@ -26,6 +32,11 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
 
   if (!isOpen) return null;
 
+  const handleClose = () => {
+    setConnectedDevice(null);
+    onClose();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -72,13 +83,13 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
     }));
   };
 
-  const handleBluetoothConnect = async (deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter') => {
+  const handleBluetoothConnect = async (deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter' | 'weight_scale') => {
     setLoading(true);
     setError(null);
 
     try {
-      await connectBluetoothDevice(deviceType);
-      onClose();
+      const device = await connectBluetoothDevice(deviceType);
+      setConnectedDevice(device);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to connect to Bluetooth device');
     } finally {
@@ -86,6 +97,20 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
     }
   };
 
+  const handleSimulatorConnect = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const device = await connectSimulatedDevice(simulatedType, scenario);
+      setConnectedDevice(device);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start simulated device');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleGoogleFitConnect = async () => {
     setLoading(true);
     setError(null);
@@ -128,7 +153,7 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-2xl font-bold">Add New Device</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className={`${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full p-2 transition-colors`}
             disabled={loading}
           >
@@ -218,11 +243,68 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
                 <div className="text-xs font-medium">Manual</div>
               </div>
             </button>
+            {import.meta.env.DEV && (
+              <button
+                type="button"
+                onClick={() => setConnectionMode('simulator')}
+                className={`p-3 rounded-md border-2 transition-all ${
+                  connectionMode === 'simulator'
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900'
+                    : darkMode ? 'border-gray-600 hover:border-gray-500' : 'border-gray-300 hover:border-gray-400'
+                }`}
+                disabled={loading}
+              >
+                <div className="text-center">
+                  <svg className="w-8 h-8 mx-auto mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                  </svg>
+                  <div className="text-xs font-medium">Simulator</div>
+                </div>
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Connected Bluetooth device, filled in from its Device Information Service */}
+        {(connectionMode === 'bluetooth' || connectionMode === 'simulator') && connectedDevice && (
+          <div className="space-y-3">
+            <div className="p-3 bg-green-100 text-green-700 rounded-md">
+              Connected to {connectedDevice.name}
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="font-medium">Manufacturer:</span> {connectedDevice.manufacturer || 'Unknown'}
+              </div>
+              <div>
+                <span className="font-medium">Model:</span> {connectedDevice.model || 'Unknown'}
+              </div>
+              <div>
+                <span className="font-medium">Serial:</span> {connectedDevice.serialNumber || 'Unknown'}
+              </div>
+              <div>
+                <span className="font-medium">Firmware:</span> {connectedDevice.firmwareVersion || 'Unknown'}
+              </div>
+              <div>
+                <span className="font-medium">Hardware:</span> {connectedDevice.hardwareVersion || 'Unknown'}
+              </div>
+              {connectedDevice.batteryLevel !== undefined && (
+                <div>
+                  <span className="font-medium">Battery:</span> {connectedDevice.batteryLevel}%
+                </div>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={handleClose}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
         {/* Bluetooth Connection UI */}
-        {connectionMode === 'bluetooth' && (
+        {connectionMode === 'bluetooth' && !connectedDevice && (
           <div className="space-y-3">
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
               Select the type of Bluetooth device you want to connect:
@@ -272,6 +354,15 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
               <div className="font-medium">Thermometer</div>
               <div className="text-sm text-gray-600 dark:text-gray-400">Digital thermometer, ear thermometer</div>
             </button>
+            <button
+              type="button"
+              onClick={() => handleBluetoothConnect('weight_scale')}
+              className="w-full p-4 border-2 border-gray-300 dark:border-gray-600 rounded-lg hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900 transition-all text-left disabled:opacity-50"
+              disabled={loading}
+            >
+              <div className="font-medium">Weight Scale</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Smart scale, body composition scale</div>
+            </button>
             {loading && (
               <div className="text-center text-sm text-blue-600 dark:text-blue-400 mt-4">
                 Searching for devices...
@@ -280,6 +371,57 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
           </div>
         )}
 
+        {/* Simulated Device UI (development builds only) */}
+        {import.meta.env.DEV && connectionMode === 'simulator' && !connectedDevice && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Start a software device that sends realistic readings through the normal vitals pipeline.
+            </p>
+            <div>
+              <label className="block text-sm font-medium mb-1">Device Type</label>
+              <select
+                value={simulatedType}
+                onChange={(e) => setSimulatedType(e.target.value as BluetoothDeviceType)}
+                className={`w-full px-3 py-2 border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                disabled={loading}
+              >
+                <option value="heart_rate">Heart Rate Monitor</option>
+                <option value="blood_pressure">Blood Pressure Monitor</option>
+                <option value="pulse_oximeter">Pulse Oximeter</option>
+                <option value="glucose">Glucose Monitor</option>
+                <option value="temperature">Thermometer</option>
+                <option value="weight_scale">Weight Scale</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Scenario</label>
+              <select
+                value={scenario}
+                onChange={(e) => setScenario(e.target.value as SimulationScenario)}
+                className={`w-full px-3 py-2 border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                disabled={loading}
+              >
+                {(Object.keys(SIMULATION_SCENARIOS) as SimulationScenario[]).map((key) => (
+                  <option key={key} value={key}>{SIMULATION_SCENARIOS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="bg-yellow-50 dark:bg-yellow-900 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                <strong>Note:</strong> Simulated readings are saved and raise alerts like real ones. Use a test account.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleSimulatorConnect}
+              className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              disabled={loading}
+            >
+              {loading ? 'Starting...' : 'Start Simulated Device'}
+            </button>
+          </div>
+        )}
+
         {/* Google Fit Connection UI */}
         {connectionMode === 'googlefit' && (
           <div className="space-y-4">
@@ -372,6 +514,7 @@ export default function AddDeviceModal({ isOpen, onClose }: AddDeviceModalProps)
               <option value="blood_pressure_monitor">Blood Pressure Monitor</option>
               <option value="glucose_monitor">Glucose Monitor</option>
               <option value="pulse_oximeter">Pulse Oximeter</option>
+              <option value="weight_scale">Weight Scale</option>
               <option value="ecg_monitor">ECG Monitor</option>
               <option value="other">Other</option>
             </select>
@@ -0,0 +1,181 @@
+/**
+ * AlertActions Component
+ * Acknowledge, claim, resolve, and comment controls for an alert on the care team dashboards
+ * Resolving requires a resolution note; comments can be added until and after resolution
+ */
+
+import { useState } from "react";
+import { Timestamp } from "firebase/firestore";
+import type { Alert, AlertNote } from "../contexts/AuthTypes";
+import { useUpdateAlertStatus } from "../hooks/useCloudFunctions";
+
+const formatNoteTime = (createdAt: AlertNote["createdAt"]): string => {
+  const date = createdAt instanceof Timestamp ? createdAt.toDate() : new Date(createdAt);
+  return date.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+};
+
+function NoteHistory({ notes }: { notes: AlertNote[] }) {
+  if (notes.length === 0) return null;
+
+  return (
+    <ul className="w-64 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+      {notes.map((note, index) => (
+        <li key={`${note.userId}-${index}`} className="border-l-2 border-gray-300 dark:border-gray-600 pl-2">
+          <span className="font-medium">{note.userName}</span>
+          {note.action !== "comment" && ` (${note.action})`}
+          <span className="text-gray-400 dark:text-gray-500"> · {formatNoteTime(note.createdAt)}</span>
+          <p className="whitespace-pre-wrap">{note.note}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface AlertActionsProps {
+  alert: Alert;
+  currentUserId: string;
+}
+
+export default function AlertActions({ alert, currentUserId }: AlertActionsProps) {
+  const { updateAlertStatus, loading } = useUpdateAlertStatus();
+  const [showResolve, setShowResolve] = useState(false);
+  const [showComment, setShowComment] = useState(false);
+  const [note, setNote] = useState("");
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  if (!alert.patientId) return null;
+
+  const handleAction = async (action: "acknowledge" | "claim" | "resolve" | "comment") => {
+    if (!alert.patientId) return;
+    setError(null);
+
+    try {
+      await updateAlertStatus({
+        patientId: alert.patientId,
+        alertId: alert.id,
+        action,
+        note: action === "resolve" ? note : action === "comment" ? comment : undefined,
+      });
+
+      if (action === "resolve") {
+        setShowResolve(false);
+        setNote("");
+      }
+      if (action === "comment") {
+        setShowComment(false);
+        setComment("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update alert");
+    }
+  };
+
+  const commentButton = (
+    <button
+      onClick={() => setShowComment(!showComment)}
+      disabled={loading}
+      className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white px-3 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+    >
+      Comment
+    </button>
+  );
+
+  const commentForm = showComment && (
+    <div className="flex flex-col gap-2 w-64">
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Comment for the care team"
+        rows={2}
+        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        onClick={() => handleAction("comment")}
+        disabled={loading || !comment.trim()}
+        className="bg-blue-600 dark:bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors disabled:opacity-50"
+      >
+        {loading ? "Saving..." : "Add Comment"}
+      </button>
+    </div>
+  );
+
+  if (alert.status === "resolved") {
+    return (
+      <div className="flex flex-col items-end gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Resolved{alert.resolvedByName && ` by ${alert.resolvedByName}`}
+          {alert.resolutionNote && `: ${alert.resolutionNote}`}
+        </p>
+        <NoteHistory notes={(alert.notes || []).filter((entry) => entry.action === "comment")} />
+        {commentButton}
+        {commentForm}
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-2">
+        {alert.status !== "acknowledged" && (
+          <button
+            onClick={() => handleAction("acknowledge")}
+            disabled={loading}
+            className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white px-3 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+          >
+            Acknowledge
+          </button>
+        )}
+        {alert.claimedBy !== currentUserId && (
+          <button
+            onClick={() => handleAction("claim")}
+            disabled={loading}
+            className="bg-blue-600 dark:bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Claim
+          </button>
+        )}
+        <button
+          onClick={() => setShowResolve(!showResolve)}
+          disabled={loading}
+          className="bg-green-600 dark:bg-green-500 text-white px-3 py-1 rounded text-sm hover:bg-green-700 dark:hover:bg-green-600 transition-colors disabled:opacity-50"
+        >
+          Resolve
+        </button>
+        {commentButton}
+      </div>
+
+      {alert.claimedByName && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Claimed by {alert.claimedBy === currentUserId ? "you" : alert.claimedByName}
+        </p>
+      )}
+
+      {showResolve && (
+        <div className="flex flex-col gap-2 w-64">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Resolution note (required)"
+            rows={2}
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          <button
+            onClick={() => handleAction("resolve")}
+            disabled={loading || !note.trim()}
+            className="bg-green-600 dark:bg-green-500 text-white px-3 py-1 rounded text-sm hover:bg-green-700 dark:hover:bg-green-600 transition-colors disabled:opacity-50"
+          >
+            {loading ? "Saving..." : "Confirm Resolution"}
+          </button>
+        </div>
+      )}
+
+      {commentForm}
+
+      <NoteHistory notes={alert.notes || []} />
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
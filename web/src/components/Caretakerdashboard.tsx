@@ -21,6 +21,9 @@ import {
   FaChartBar,
 } from "react-icons/fa";
 import InfoCard from "../components/InfoCard";
+import AlertActions from "../components/AlertActions";
+import EscalationStatus from "../components/EscalationStatus";
+import News2InputsModal from "../components/News2InputsModal";
 import type {
   AppUser,
   Alert,
@@ -48,6 +51,7 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<"all" | "stable" | "warning" | "critical">("all");
   const [showFilters, setShowFilters] = useState(false);
+  const [news2Patient, setNews2Patient] = useState<Patient | null>(null);
 
   // Fetch patients assigned to caretaker
   useEffect(() => {
@@ -71,6 +75,7 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
             lastName: data.lastName || "Patient",
             lastVitals: data.lastVitals,
             status: data.status || "stable",
+            news2: data.news2,
           } as Patient;
         });
         setPatients(patientsList);
@@ -107,6 +112,24 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
                 data.timestamp instanceof Timestamp
                   ? data.timestamp.toDate()
                   : data.timestamp,
+              status: data.status || "open",
+              occurrenceCount: data.occurrenceCount || 1,
+              lastOccurredAt:
+                data.lastOccurredAt instanceof Timestamp
+                  ? data.lastOccurredAt.toDate()
+                  : data.lastOccurredAt,
+              acknowledgedBy: data.acknowledgedBy,
+              acknowledgedByName: data.acknowledgedByName,
+              claimedBy: data.claimedBy,
+              claimedByName: data.claimedByName,
+              resolvedAt:
+                data.resolvedAt instanceof Timestamp
+                  ? data.resolvedAt.toDate()
+                  : data.resolvedAt,
+              resolvedByName: data.resolvedByName,
+              resolutionNote: data.resolutionNote,
+              escalationSteps: data.escalationSteps || [],
+              notes: data.notes || [],
             } as Alert;
           });
 
@@ -174,8 +197,8 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
       avgHeartRate: calculateAverage(allHeartRates),
       avgOxygen: calculateAverage(allOxygen),
       totalAlerts: alerts.length,
-      highPriorityAlerts: alerts.filter((a) => a.severity === "high").length,
-      mediumPriorityAlerts: alerts.filter((a) => a.severity === "medium").length,
+      highPriorityAlerts: alerts.filter((a) => a.severity === "high" && a.status !== "resolved").length,
+      mediumPriorityAlerts: alerts.filter((a) => a.severity === "medium" && a.status !== "resolved").length,
     };
   }, [patients, alerts]);
 
@@ -211,7 +234,7 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
           <div className="flex items-center gap-3">
             <FaExclamationTriangle className="text-red-600 dark:text-red-400 text-3xl" />
             <p className="text-3xl font-bold text-red-600 dark:text-red-400">
-              {alerts.filter((a) => a.severity === "high").length}
+              {alerts.filter((a) => a.severity === "high" && a.status !== "resolved").length}
             </p>
           </div>
         </InfoCard>
@@ -220,7 +243,7 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
           <div className="flex items-center gap-3">
             <FaBell className="text-yellow-600 dark:text-yellow-400 text-3xl" />
             <p className="text-3xl font-bold text-yellow-600 dark:text-yellow-400">
-              {alerts.filter((a) => a.severity === "medium").length}
+              {alerts.filter((a) => a.severity === "medium" && a.status !== "resolved").length}
             </p>
           </div>
         </InfoCard>
@@ -313,18 +336,30 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
                     <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                       {alert.message}
                     </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {alert.status === "resolved"
+                        ? "Resolved"
+                        : alert.status === "acknowledged"
+                        ? "Acknowledged"
+                        : "Open"}
+                      {(alert.occurrenceCount ?? 1) > 1 && ` · Repeated ${alert.occurrenceCount} times`}
+                    </p>
+                    <EscalationStatus alert={alert} />
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <span
+                      className={`px-2 py-1 rounded text-xs font-medium ${
+                        alert.severity === "high"
+                          ? "bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-200"
+                          : alert.severity === "medium"
+                          ? "bg-yellow-200 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200"
+                          : "bg-blue-200 dark:bg-blue-800 text-blue-800 dark:text-blue-200"
+                      }`}
+                    >
+                      {alert.severity.toUpperCase()}
+                    </span>
+                    <AlertActions alert={alert} currentUserId={user.uid} />
                   </div>
-                  <span
-                    className={`px-2 py-1 rounded text-xs font-medium ${
-                      alert.severity === "high"
-                        ? "bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-200"
-                        : alert.severity === "medium"
-                        ? "bg-yellow-200 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200"
-                        : "bg-blue-200 dark:bg-blue-800 text-blue-800 dark:text-blue-200"
-                    }`}
-                  >
-                    {alert.severity.toUpperCase()}
-                  </span>
                 </div>
               </div>
             ))}
@@ -443,6 +478,31 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
                       </span>
                     </div>
                   )}
+                  {patient.news2 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">
+                        NEWS2:
+                      </span>
+                      <span
+                        className={`font-medium ${
+                          patient.news2.risk === "high"
+                            ? "text-red-600 dark:text-red-400"
+                            : patient.news2.risk === "low"
+                            ? "dark:text-white"
+                            : "text-yellow-600 dark:text-yellow-400"
+                        }`}
+                      >
+                        {patient.news2.score}
+                        {!patient.news2.complete && "*"}
+                      </span>
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setNews2Patient(patient)}
+                    className="w-full mt-3 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    NEWS2 Inputs
+                  </button>
                   <button className="w-full mt-3 bg-green-600 dark:bg-green-500 text-white py-2 rounded-lg hover:bg-green-700 dark:hover:bg-green-600 transition-colors">
                     View Details
                   </button>
@@ -532,6 +592,15 @@ export default function CaretakerDashboard({ user }: CaretakerDashboardProps) {
           </div>
         )}
       </section>
+
+      {news2Patient && (
+        <News2InputsModal
+          isOpen={true}
+          onClose={() => setNews2Patient(null)}
+          patient={news2Patient}
+          canChangeScale={false}
+        />
+      )}
     </>
   );
 }
@@ -4,7 +4,7 @@ import { useDarkMode } from '../contexts/useDarkMode';
 import AddDeviceModal from './AddDeviceModal';
 
 export default function DeviceManagement() {
-  const { devices, activeDevice, setActiveDevice, removeDevice, refreshDevices } = useDevice();
+  const { devices, activeDevice, setActiveDevice, removeDevice, refreshDevices, pendingReadings } = useDevice();
   const { darkMode } = useDarkMode();
   const [showAddModal, setShowAddModal] = useState(false);
   const [deviceToRemove, setDeviceToRemove] = useState<string | null>(null);
@@ -49,6 +49,7 @@ export default function DeviceManagement() {
       case 'glucose_monitor':
       case 'pulse_oximeter':
       case 'ecg_monitor':
+      case 'weight_scale':
         return (
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
@@ -95,6 +96,12 @@ export default function DeviceManagement() {
         </div>
       </div>
 
+      {pendingReadings > 0 && (
+        <div className={`mb-4 px-4 py-3 rounded-md text-sm ${darkMode ? 'bg-yellow-900/30 text-yellow-300' : 'bg-yellow-50 text-yellow-800'}`}>
+          {pendingReadings} {pendingReadings === 1 ? 'reading is' : 'readings are'} waiting to upload. They are saved on this device and will sync when you are back online.
+        </div>
+      )}
+
       {devices.length === 0 ? (
         <div className={`text-center py-12 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
           <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -146,12 +153,18 @@ export default function DeviceManagement() {
                           <span className="font-medium">Model:</span> {device.model}
                         </div>
                       )}
+                      {device.firmwareVersion && (
+                        <div>
+                          <span className="font-medium">Firmware:</span> {device.firmwareVersion}
+                        </div>
+                      )}
                       <div>
                         <span className="font-medium">Type:</span> {device.type.replace('_', ' ')}
                       </div>
                       {device.batteryLevel !== undefined && (
-                        <div>
+                        <div className={device.batteryLevel <= 20 ? 'text-red-600 dark:text-red-400' : ''}>
                           <span className="font-medium">Battery:</span> {device.batteryLevel}%
+                          {device.batteryLevel <= 20 && ' (charge soon)'}
                         </div>
                       )}
                       <div className="col-span-2">
@@ -3,9 +3,10 @@ import { useDevice } from '../hooks/useDevice';
 import { useDarkMode } from '../contexts/useDarkMode';
 
 export default function DeviceOfflineAlert() {
-  const { activeDevice, updateDeviceStatus } = useDevice();
+  const { activeDevice, reconnectDevice } = useDevice();
   const { darkMode } = useDarkMode();
   const [isReconnecting, setIsReconnecting] = useState(false);
+  const [reconnectFailed, setReconnectFailed] = useState(false);
   const [dismissed, setDismissed] = useState(false);
 
   if (!activeDevice || activeDevice.status !== 'offline' || dismissed) {
@@ -14,20 +15,15 @@ export default function DeviceOfflineAlert() {
 
   const handleReconnect = async () => {
     setIsReconnecting(true);
+    setReconnectFailed(false);
     try {
-      // Simulate reconnection attempt
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // In a real implementation, this would attempt to ping the device
-      // For now, we'll set it to 'syncing' and then 'online' after a delay
-      await updateDeviceStatus(activeDevice.id, 'syncing');
-
-      setTimeout(async () => {
-        await updateDeviceStatus(activeDevice.id, 'online');
-        setIsReconnecting(false);
-      }, 2000);
+      // Device status is updated by the connection itself, so only failure needs handling here
+      const reconnected = await reconnectDevice(activeDevice.id);
+      setReconnectFailed(!reconnected);
     } catch (error) {
       console.error('Reconnection failed:', error);
+      setReconnectFailed(true);
+    } finally {
       setIsReconnecting(false);
     }
   };
@@ -56,6 +52,11 @@ export default function DeviceOfflineAlert() {
             <p>
               Your device "{activeDevice.name}" is currently offline. Vitals data may not be up to date.
             </p>
+            {reconnectFailed && (
+              <p className="mt-1 font-medium">
+                Could not reach the device. Make sure it is turned on and nearby, or remove it and add it again.
+              </p>
+            )}
           </div>
           <div className="mt-4 flex gap-3">
             <button
@@ -0,0 +1,105 @@
+/**
+ * EmergencyContactsEditor Component
+ * Edits a patient's emergency contacts. Contacts are only notified (on a
+ * critical status, an SOS, or an unanswered escalation) once their consent
+ * has been recorded.
+ */
+
+import { FaPlus, FaTrash } from "react-icons/fa";
+import type { EmergencyContact } from "../contexts/AuthTypes";
+
+interface EmergencyContactsEditorProps {
+  contacts: EmergencyContact[];
+  onChange: (contacts: EmergencyContact[]) => void;
+}
+
+const inputClassName =
+  "w-full border dark:border-gray-600 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white transition-colors duration-200";
+
+export default function EmergencyContactsEditor({ contacts, onChange }: EmergencyContactsEditorProps) {
+  const updateContact = (id: string, changes: Partial<EmergencyContact>) => {
+    onChange(contacts.map((contact) => (contact.id === id ? { ...contact, ...changes } : contact)));
+  };
+
+  const addContact = () => {
+    onChange([
+      ...contacts,
+      { id: crypto.randomUUID(), name: "", relationship: "", phone: "", email: "", consent: false },
+    ]);
+  };
+
+  return (
+    <div>
+      <label className="block text-gray-700 dark:text-gray-300 mb-1">Emergency Contacts</label>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        Contacts who have agreed to be contacted receive a text and email with a temporary status link if you
+        trigger an SOS or your status becomes critical.
+      </p>
+
+      <div className="space-y-4">
+        {contacts.map((contact) => (
+          <div key={contact.id} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                aria-label="Name"
+                value={contact.name}
+                onChange={(e) => updateContact(contact.id, { name: e.target.value })}
+                placeholder="Name"
+                className={inputClassName}
+              />
+              <input
+                aria-label="Relationship"
+                value={contact.relationship}
+                onChange={(e) => updateContact(contact.id, { relationship: e.target.value })}
+                placeholder="Relationship (e.g., Daughter)"
+                className={inputClassName}
+              />
+              <input
+                aria-label="Phone"
+                type="tel"
+                value={contact.phone || ""}
+                onChange={(e) => updateContact(contact.id, { phone: e.target.value })}
+                placeholder="Mobile number (e.g., +15551234567)"
+                className={inputClassName}
+              />
+              <input
+                aria-label="Email"
+                type="email"
+                value={contact.email || ""}
+                onChange={(e) => updateContact(contact.id, { email: e.target.value })}
+                placeholder="Email"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={contact.consent}
+                  onChange={(e) => updateContact(contact.id, { consent: e.target.checked })}
+                  className="h-4 w-4 accent-green-600"
+                />
+                {contact.name || "This contact"} has agreed to be contacted in an emergency
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(contacts.filter((c) => c.id !== contact.id))}
+                className="text-red-600 dark:text-red-400 hover:text-red-700 text-sm flex items-center gap-1"
+              >
+                <FaTrash /> Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addContact}
+        className="mt-3 text-green-600 dark:text-green-400 hover:text-green-700 text-sm flex items-center gap-1"
+      >
+        <FaPlus /> Add emergency contact
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * EscalationStatus Component
+ * Shows how far an unacknowledged high severity alert has escalated
+ */
+
+import type { Alert, EscalationTier } from "../contexts/AuthTypes";
+
+const TIER_LABELS: Record<EscalationTier, string> = {
+  caretaker: "caretaker",
+  doctor: "doctor",
+  onCall: "on-call clinician",
+  emergencyContact: "emergency contact",
+};
+
+interface EscalationStatusProps {
+  alert: Alert;
+}
+
+export default function EscalationStatus({ alert }: EscalationStatusProps) {
+  const steps = alert.escalationSteps || [];
+
+  // The first step is the initial owner, so only later steps are escalations
+  if (steps.length < 2 || alert.status === "resolved") return null;
+
+  const latest = steps[steps.length - 1];
+
+  return (
+    <p className="text-xs font-medium text-red-600 dark:text-red-400 mt-1" title={latest.reason}>
+      Escalated to {TIER_LABELS[latest.tier]} ({latest.recipientName})
+    </p>
+  );
+}
@@ -22,6 +22,10 @@ import {
   FaChartBar,
 } from "react-icons/fa";
 import InfoCard from "../components/InfoCard";
+import AlertActions from "../components/AlertActions";
+import EscalationStatus from "../components/EscalationStatus";
+import ThresholdProfileModal from "../components/ThresholdProfileModal";
+import News2InputsModal from "../components/News2InputsModal";
 import type {
   AppUser,
   Alert,
@@ -49,6 +53,10 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<"all" | "stable" | "warning" | "critical">("all");
   const [showFilters, setShowFilters] = useState(false);
+  const [news2Filter, setNews2Filter] = useState<0 | 5 | 7>(0);
+  const [sortBy, setSortBy] = useState<"name" | "news2">("name");
+  const [thresholdPatient, setThresholdPatient] = useState<Patient | null>(null);
+  const [news2Patient, setNews2Patient] = useState<Patient | null>(null);
 
   // Fetch patients assigned to medical professional
   useEffect(() => {
@@ -72,6 +80,8 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
             lastName: data.lastName || "Patient",
             lastVitals: data.lastVitals,
             status: data.status || "stable",
+            chronicConditions: data.chronicConditions || [],
+            news2: data.news2,
           } as Patient;
         });
         setPatients(patientsList);
@@ -108,6 +118,24 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
                 data.timestamp instanceof Timestamp
                   ? data.timestamp.toDate()
                   : data.timestamp,
+              status: data.status || "open",
+              occurrenceCount: data.occurrenceCount || 1,
+              lastOccurredAt:
+                data.lastOccurredAt instanceof Timestamp
+                  ? data.lastOccurredAt.toDate()
+                  : data.lastOccurredAt,
+              acknowledgedBy: data.acknowledgedBy,
+              acknowledgedByName: data.acknowledgedByName,
+              claimedBy: data.claimedBy,
+              claimedByName: data.claimedByName,
+              resolvedAt:
+                data.resolvedAt instanceof Timestamp
+                  ? data.resolvedAt.toDate()
+                  : data.resolvedAt,
+              resolvedByName: data.resolvedByName,
+              resolutionNote: data.resolutionNote,
+              escalationSteps: data.escalationSteps || [],
+              notes: data.notes || [],
             } as Alert;
           });
 
@@ -154,8 +182,18 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
       );
     }
 
-    return filtered;
-  }, [patients, statusFilter, searchQuery]);
+    // Apply NEWS2 filter
+    if (news2Filter > 0) {
+      filtered = filtered.filter((p) => (p.news2?.score ?? 0) >= news2Filter);
+    }
+
+    // Sort by NEWS2 (highest first) or by name
+    return [...filtered].sort((a, b) =>
+      sortBy === "news2"
+        ? (b.news2?.score ?? -1) - (a.news2?.score ?? -1)
+        : `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`)
+    );
+  }, [patients, statusFilter, searchQuery, news2Filter, sortBy]);
 
   // Memoized pagination
   const paginatedPatients = useMemo(() => {
@@ -183,8 +221,8 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
       avgTemp: calculateAverage(allTemp),
       avgGlucose: calculateAverage(allGlucose),
       totalAlerts: alerts.length,
-      highPriorityAlerts: alerts.filter((a) => a.severity === "high").length,
-      mediumPriorityAlerts: alerts.filter((a) => a.severity === "medium").length,
+      highPriorityAlerts: alerts.filter((a) => a.severity === "high" && a.status !== "resolved").length,
+      mediumPriorityAlerts: alerts.filter((a) => a.severity === "medium" && a.status !== "resolved").length,
     };
   }, [patients, alerts]);
 
@@ -203,6 +241,11 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
     setCurrentPage(1); // Reset to first page on filter change
   }, []);
 
+  const handleNews2FilterChange = useCallback((minScore: 0 | 5 | 7) => {
+    setNews2Filter(minScore);
+    setCurrentPage(1);
+  }, []);
+
   return (
     <>
       {/* Overview Stats */}
@@ -337,7 +380,7 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
       </section>
 
       {/* Priority Alerts */}
-      {alerts.filter((a) => a.severity === "high").length > 0 && (
+      {alerts.filter((a) => a.severity === "high" && a.status !== "resolved").length > 0 && (
         <section className="mb-8">
           <h3 className="text-xl font-semibold mb-4 flex items-center gap-2 dark:text-white">
             <FaExclamationTriangle className="text-red-600 dark:text-red-400" />
@@ -345,7 +388,7 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
           </h3>
           <div className="space-y-3">
             {alerts
-              .filter((a) => a.severity === "high")
+              .filter((a) => a.severity === "high" && a.status !== "resolved")
               .map((alert) => (
                 <div
                   key={alert.id}
@@ -362,10 +405,14 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
                       <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                         {alert.message}
                       </p>
+                      {(alert.occurrenceCount ?? 1) > 1 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Repeated {alert.occurrenceCount} times
+                        </p>
+                      )}
+                      <EscalationStatus alert={alert} />
                     </div>
-                    <button className="bg-red-600 dark:bg-red-500 text-white px-4 py-1 rounded text-sm hover:bg-red-700 dark:hover:bg-red-600 transition-colors">
-                      Review
-                    </button>
+                    <AlertActions alert={alert} currentUserId={user.uid} />
                   </div>
                 </div>
               ))}
@@ -436,6 +483,40 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
                 </button>
               ))}
             </div>
+
+            <p className="text-sm font-medium mt-4 mb-2 dark:text-white">Filter by NEWS2:</p>
+            <div className="flex flex-wrap gap-2">
+              {([0, 5, 7] as const).map((minScore) => (
+                <button
+                  key={minScore}
+                  onClick={() => handleNews2FilterChange(minScore)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    news2Filter === minScore
+                      ? "bg-blue-600 text-white"
+                      : "bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-600"
+                  }`}
+                >
+                  {minScore === 0 ? "Any score" : `${minScore} or higher`}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-sm font-medium mt-4 mb-2 dark:text-white">Sort by:</p>
+            <div className="flex flex-wrap gap-2">
+              {(["name", "news2"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSortBy(option)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    sortBy === option
+                      ? "bg-blue-600 text-white"
+                      : "bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-600"
+                  }`}
+                >
+                  {option === "name" ? "Name" : "NEWS2 (highest first)"}
+                </button>
+              ))}
+            </div>
           </div>
         )}
 
@@ -512,9 +593,36 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
                     >
                       {patient.status.toUpperCase()}
                     </span>
+                    {patient.news2 && (
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-medium text-center ${
+                          patient.news2.risk === "high"
+                            ? "bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-200"
+                            : patient.news2.risk === "medium" || patient.news2.risk === "low-medium"
+                            ? "bg-yellow-200 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200"
+                            : "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                        }`}
+                        title={patient.news2.complete ? "NEWS2" : "NEWS2 (some parameters missing)"}
+                      >
+                        NEWS2 {patient.news2.score}
+                        {!patient.news2.complete && "*"}
+                      </span>
+                    )}
                     <button className="bg-green-600 dark:bg-green-500 text-white px-4 py-1 rounded text-sm hover:bg-green-700 dark:hover:bg-green-600 transition-colors">
                       View Chart
                     </button>
+                    <button
+                      onClick={() => setThresholdPatient(patient)}
+                      className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white px-4 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      Thresholds
+                    </button>
+                    <button
+                      onClick={() => setNews2Patient(patient)}
+                      className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 dark:text-white px-4 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      NEWS2 Inputs
+                    </button>
                   </div>
                 </div>
               </div>
@@ -603,6 +711,23 @@ export default function MedicalDashboard({ user }: MedicalDashboardProps) {
           </div>
         )}
       </section>
+
+      {thresholdPatient && (
+        <ThresholdProfileModal
+          isOpen={true}
+          onClose={() => setThresholdPatient(null)}
+          patient={thresholdPatient}
+        />
+      )}
+
+      {news2Patient && (
+        <News2InputsModal
+          isOpen={true}
+          onClose={() => setNews2Patient(null)}
+          patient={news2Patient}
+          canChangeScale={true}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import type { Consciousness, Patient } from '../contexts/AuthTypes';
+import { useUpdateNews2Inputs } from '../hooks/useCloudFunctions';
+import { useDarkMode } from '../contexts/useDarkMode';
+
+interface News2InputsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patient: Patient;
+  canChangeScale: boolean; // only the assigned doctor can switch SpO2 scales
+}
+
+const CONSCIOUSNESS_OPTIONS: { value: Consciousness; label: string }[] = [
+  { value: 'alert', label: 'Alert' },
+  { value: 'confusion', label: 'New Confusion' },
+  { value: 'voice', label: 'Responds to Voice' },
+  { value: 'pain', label: 'Responds to Pain' },
+  { value: 'unresponsive', label: 'Unresponsive' },
+];
+
+export default function News2InputsModal({ isOpen, onClose, patient, canChangeScale }: News2InputsModalProps) {
+  const { darkMode } = useDarkMode();
+  const { updateNews2Inputs, loading } = useUpdateNews2Inputs();
+  const [consciousness, setConsciousness] = useState<Consciousness>('alert');
+  const [supplementalOxygen, setSupplementalOxygen] = useState(false);
+  const [useSpO2Scale2, setUseSpO2Scale2] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the current manual inputs
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'patients', patient.id, 'settings', 'news2'),
+      (snapshot) => {
+        const data = snapshot.data();
+        setConsciousness(data?.consciousness || 'alert');
+        setSupplementalOxygen(data?.supplementalOxygen === true);
+        setUseSpO2Scale2(data?.useSpO2Scale2 === true);
+      },
+      (err) => {
+        console.error('Error loading NEWS2 inputs:', err);
+        setError('Failed to load NEWS2 inputs');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isOpen, patient.id]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      await updateNews2Inputs({
+        patientId: patient.id,
+        consciousness,
+        supplementalOxygen,
+        ...(canChangeScale && { useSpO2Scale2 }),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save NEWS2 inputs');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className={`${darkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} rounded-lg shadow-xl max-w-md w-full mx-4 p-6`}>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-2xl font-bold">NEWS2 Inputs</h2>
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              {patient.firstName} {patient.lastName}
+              {patient.news2 && ` · Current score ${patient.news2.score}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full p-2 transition-colors`}
+            disabled={loading}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Consciousness (ACVPU)</label>
+            <select
+              value={consciousness}
+              onChange={(e) => setConsciousness(e.target.value as Consciousness)}
+              className={`w-full px-3 py-2 border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+              disabled={loading}
+            >
+              {CONSCIOUSNESS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={supplementalOxygen}
+              onChange={(e) => setSupplementalOxygen(e.target.checked)}
+              disabled={loading}
+            />
+            On supplemental oxygen
+          </label>
+
+          {canChangeScale && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={useSpO2Scale2}
+                onChange={(e) => setUseSpO2Scale2(e.target.checked)}
+                disabled={loading}
+              />
+              Use SpO2 Scale 2 (hypercapnic respiratory failure, target 88–92%)
+            </label>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className={`flex-1 px-4 py-2 ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'} rounded-md transition-colors`}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={loading}
+            >
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import DeviceManagement from "../components/DeviceManagement";
 import DeviceOfflineAlert from "../components/DeviceOfflineAlert";
 import DeviceSwitcher from "../components/DeviceSwitcher";
 import CareTeamAssignmentCard from "../components/CareTeamAssignmentCard";
+import SosButton from "../components/SosButton";
 import { useDevice } from "../hooks/useDevice";
 import type { AppUser, VitalData, Alert } from "../contexts/AuthTypes";
 
@@ -122,6 +123,17 @@ export default function PatientDashboard({ user }: PatientDashboardProps) {
               data.timestamp instanceof Timestamp
                 ? data.timestamp.toDate()
                 : data.timestamp,
+            status: data.status || "open",
+            occurrenceCount: data.occurrenceCount || 1,
+            lastOccurredAt:
+              data.lastOccurredAt instanceof Timestamp
+                ? data.lastOccurredAt.toDate()
+                : data.lastOccurredAt,
+            acknowledgedBy: data.acknowledgedBy,
+            resolvedAt:
+              data.resolvedAt instanceof Timestamp
+                ? data.resolvedAt.toDate()
+                : data.resolvedAt,
           } as Alert;
         });
         setAlerts(alertsList);
@@ -136,6 +148,8 @@ export default function PatientDashboard({ user }: PatientDashboardProps) {
 
   const hasDevice = devices.length > 0;
   const hasVitals = vitals && Object.keys(vitals).length > 1;
+  // HRV is only computed once a minute, so it is taken from the most recent reading that has it
+  const latestHrv = vitalHistory.find((vital) => vital.hrvRmssd !== undefined);
 
   return (
     <>
@@ -149,9 +163,12 @@ export default function PatientDashboard({ user }: PatientDashboardProps) {
       {/* Device Offline Alert */}
       <DeviceOfflineAlert />
 
+      {/* SOS */}
+      <SosButton />
+
       {/* Critical Alerts */}
       {alerts
-        .filter((a) => a.severity === "high")
+        .filter((a) => a.severity === "high" && a.status !== "resolved")
         .map((alert) => (
           <AlertBox
             key={alert.id}
@@ -263,7 +280,10 @@ export default function PatientDashboard({ user }: PatientDashboardProps) {
               />
             )}
             {vitals.glucose && (
-              <VitalStat label="Glucose" value={`${vitals.glucose} mg/dL`} />
+              <VitalStat
+                label={vitals.glucoseMeal ? `Glucose (${vitals.glucoseMeal})` : "Glucose"}
+                value={`${vitals.glucose} mg/dL`}
+              />
             )}
             {vitals.respiration && (
               <VitalStat
@@ -271,6 +291,18 @@ export default function PatientDashboard({ user }: PatientDashboardProps) {
                 value={`${vitals.respiration} bpm`}
               />
             )}
+            {vitals.weight && (
+              <VitalStat
+                label="Weight"
+                value={vitals.bmi ? `${vitals.weight} kg (BMI ${vitals.bmi})` : `${vitals.weight} kg`}
+              />
+            )}
+            {latestHrv && (
+              <VitalStat
+                label="HRV (RMSSD / SDNN)"
+                value={`${latestHrv.hrvRmssd} / ${latestHrv.hrvSdnn} ms`}
+              />
+            )}
           </div>
         ) : (
           <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600">
@@ -332,6 +364,18 @@ export default function PatientDashboard({ user }: PatientDashboardProps) {
               data={chartData}
               dataKey="respiration"
             />
+            <VitalChart
+              vital="Weight"
+              range={range}
+              data={chartData}
+              dataKey="weight"
+            />
+            <VitalChart
+              vital="Heart Rate Variability"
+              range={range}
+              data={chartData}
+              dataKey="hrv"
+            />
           </div>
         </section>
       )}
@@ -0,0 +1,90 @@
+/**
+ * SosButton Component
+ * Lets a patient call for help. Confirming notifies their consenting emergency
+ * contacts and raises a high severity alert for the care team.
+ */
+
+import { useState } from "react";
+import { FaExclamationTriangle } from "react-icons/fa";
+import { useTriggerSos } from "../hooks/useCloudFunctions";
+
+export default function SosButton() {
+  const { triggerSos, loading } = useTriggerSos();
+  const [confirming, setConfirming] = useState(false);
+  const [message, setMessage] = useState("");
+  const [result, setResult] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const handleConfirm = async () => {
+    setResult(null);
+
+    try {
+      const response = await triggerSos({ message: message.trim() || undefined });
+      setResult({
+        type: "success",
+        text:
+          response.contactsNotified > 0
+            ? `Help requested. Your care team and ${response.contactsNotified} emergency contact(s) have been notified.`
+            : "Help requested. Your care team has been notified.",
+      });
+      setConfirming(false);
+      setMessage("");
+    } catch (err) {
+      setResult({ type: "error", text: err instanceof Error ? err.message : "Failed to send SOS" });
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      {!confirming ? (
+        <button
+          onClick={() => setConfirming(true)}
+          className="bg-red-600 dark:bg-red-500 text-white px-5 py-3 rounded-lg font-bold hover:bg-red-700 dark:hover:bg-red-600 transition-colors flex items-center gap-2"
+        >
+          <FaExclamationTriangle /> SOS
+        </button>
+      ) : (
+        <div className="p-4 border-2 border-red-600 dark:border-red-500 rounded-lg bg-red-50 dark:bg-red-900/30">
+          <p className="font-semibold text-red-700 dark:text-red-300 mb-2">
+            Send an SOS to your care team and emergency contacts?
+          </p>
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+            If you are in immediate danger, call your local emergency number.
+          </p>
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="What's happening? (optional)"
+            maxLength={280}
+            className="w-full mb-3 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={handleConfirm}
+              disabled={loading}
+              className="bg-red-600 dark:bg-red-500 text-white px-4 py-2 rounded font-semibold hover:bg-red-700 dark:hover:bg-red-600 transition-colors disabled:opacity-50"
+            >
+              {loading ? "Sending..." : "Send SOS"}
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              disabled={loading}
+              className="bg-gray-200 dark:bg-gray-700 dark:text-white px-4 py-2 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <p
+          className={`mt-2 text-sm ${
+            result.type === "success" ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"
+          }`}
+        >
+          {result.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import type { Patient } from '../contexts/AuthTypes';
+import type { ThresholdOverrides, ThresholdRange, ThresholdRangeOverride, ThresholdVital } from '../services/types';
+import {
+  THRESHOLD_VITALS,
+  THRESHOLD_VITAL_LABELS,
+  getConditionThresholds,
+  isValidThresholdRange,
+  resolveThresholdProfile,
+} from '../services/alertThresholds';
+import { useUpdateAlertThresholds } from '../hooks/useCloudFunctions';
+import { useDarkMode } from '../contexts/useDarkMode';
+
+interface ThresholdProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patient: Patient;
+}
+
+type RangeKey = keyof ThresholdRange;
+type FormValues = Record<ThresholdVital, Record<RangeKey, string>>;
+
+const RANGE_KEYS: { key: RangeKey; label: string }[] = [
+  { key: 'criticalLow', label: 'Critical Low' },
+  { key: 'low', label: 'Low' },
+  { key: 'high', label: 'High' },
+  { key: 'criticalHigh', label: 'Critical High' },
+];
+
+const toFormValues = (overrides: ThresholdOverrides, chronicConditions: string[]): FormValues => {
+  const profile = resolveThresholdProfile(chronicConditions, overrides);
+
+  return THRESHOLD_VITALS.reduce((values, vital) => {
+    values[vital] = {
+      criticalLow: profile[vital].criticalLow?.toString() ?? '',
+      low: profile[vital].low?.toString() ?? '',
+      high: profile[vital].high?.toString() ?? '',
+      criticalHigh: profile[vital].criticalHigh?.toString() ?? '',
+    };
+    return values;
+  }, {} as FormValues);
+};
+
+export default function ThresholdProfileModal({ isOpen, onClose, patient }: ThresholdProfileModalProps) {
+  const { darkMode } = useDarkMode();
+  const { updateThresholds, loading } = useUpdateAlertThresholds();
+  const [overrides, setOverrides] = useState<ThresholdOverrides>({});
+  const [formValues, setFormValues] = useState<FormValues | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const chronicConditions = useMemo(() => patient.chronicConditions || [], [patient.chronicConditions]);
+  const conditionProfile = useMemo(() => getConditionThresholds(chronicConditions), [chronicConditions]);
+
+  // Load the patient's current overrides
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'patients', patient.id, 'settings', 'alertThresholds'),
+      (snapshot) => {
+        const savedOverrides: ThresholdOverrides = snapshot.data()?.overrides || {};
+        setOverrides(savedOverrides);
+        setFormValues(toFormValues(savedOverrides, chronicConditions));
+      },
+      (err) => {
+        console.error('Error loading alert thresholds:', err);
+        setError('Failed to load alert thresholds');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isOpen, patient.id, chronicConditions]);
+
+  if (!isOpen) return null;
+
+  const handleChange = (vital: ThresholdVital, key: RangeKey, value: string) => {
+    if (!formValues) return;
+    setFormValues({ ...formValues, [vital]: { ...formValues[vital], [key]: value } });
+  };
+
+  const saveOverrides = async (newOverrides: ThresholdOverrides) => {
+    setError(null);
+
+    try {
+      await updateThresholds({ patientId: patient.id, overrides: newOverrides });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save alert thresholds');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formValues) return;
+
+    // Only store values that differ from the condition-based defaults
+    const newOverrides: ThresholdOverrides = {};
+
+    for (const vital of THRESHOLD_VITALS) {
+      const range: ThresholdRangeOverride = {};
+      const merged: ThresholdRange = { ...conditionProfile[vital] };
+
+      for (const { key, label } of RANGE_KEYS) {
+        const input = formValues[vital][key].trim();
+
+        // A cleared field removes the limit
+        if (input === '') {
+          if (conditionProfile[vital][key] !== undefined) {
+            range[key] = null;
+            delete merged[key];
+          }
+          continue;
+        }
+
+        const value = Number(input);
+        if (!Number.isFinite(value)) {
+          setError(`${THRESHOLD_VITAL_LABELS[vital].label} ${label} must be a number`);
+          return;
+        }
+
+        merged[key] = value;
+        if (value !== conditionProfile[vital][key]) {
+          range[key] = value;
+        }
+      }
+
+      if (!isValidThresholdRange(merged)) {
+        setError(`${THRESHOLD_VITAL_LABELS[vital].label} limits must increase from Critical Low to Critical High`);
+        return;
+      }
+
+      if (Object.keys(range).length > 0) {
+        newOverrides[vital] = range;
+      }
+    }
+
+    await saveOverrides(newOverrides);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className={`${darkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto`}>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-2xl font-bold">Alert Thresholds</h2>
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              {patient.firstName} {patient.lastName}
+              {chronicConditions.length > 0 && ` · ${chronicConditions.join(', ')}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full p-2 transition-colors`}
+            disabled={loading}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {!formValues ? (
+          <p className="text-center py-8">Loading thresholds...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              Defaults are adjusted for the patient's chronic conditions. Highlighted values are custom overrides;
+              clear a field to remove that limit.
+            </p>
+
+            {THRESHOLD_VITALS.map((vital) => (
+              <div key={vital}>
+                <label className="block text-sm font-medium mb-1">
+                  {THRESHOLD_VITAL_LABELS[vital].label} ({THRESHOLD_VITAL_LABELS[vital].unit})
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {RANGE_KEYS.map(({ key, label }) => (
+                    <div key={key}>
+                      <span className={`block text-xs mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{label}</span>
+                      <input
+                        type="number"
+                        step="any"
+                        value={formValues[vital][key]}
+                        onChange={(e) => handleChange(vital, key, e.target.value)}
+                        placeholder="No limit"
+                        className={`w-full px-3 py-2 border ${
+                          overrides[vital]?.[key] !== undefined
+                            ? 'border-blue-500'
+                            : darkMode ? 'border-gray-600' : 'border-gray-300'
+                        } ${darkMode ? 'bg-gray-700' : 'bg-white'} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                        disabled={loading}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={() => saveOverrides({})}
+                className={`flex-1 px-4 py-2 ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'} rounded-md transition-colors`}
+                disabled={loading || Object.keys(overrides).length === 0}
+              >
+                Reset to Defaults
+              </button>
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={loading}
+              >
+                {loading ? 'Saving...' : 'Save Thresholds'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
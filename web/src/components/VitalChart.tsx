@@ -89,6 +89,10 @@ const extractValue = (item: VitalData, dataKey?: string): number | undefined =>
       return item.glucose;
     case "respiration":
       return item.respiration;
+    case "hrv":
+      return item.hrvRmssd;
+    case "weight":
+      return item.weight;
     default:
       return undefined;
   }
@@ -137,6 +141,8 @@ const getLineColor = (vital: string): string => {
     Temperature: "#f59e0b",
     Glucose: "#8b5cf6",
     Respiration: "#06b6d4",
+    "Heart Rate Variability": "#ec4899",
+    Weight: "#64748b",
   };
   return colors[vital] || "#10b981";
 };
@@ -11,6 +11,7 @@ import {
 } from "firebase/auth";
 import { doc, onSnapshot } from "firebase/firestore";
 import { auth, db } from "../services/firebase";
+import { pushNotificationService } from "../services/pushNotificationService";
 import type { AppUser, AuthContextValue } from "../contexts/AuthTypes";
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
@@ -64,8 +65,24 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
+  // Register this device for push notifications whatever the push preference is:
+  // high severity alerts always go out by push, and the server picks channels per severity
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    pushNotificationService.register(user.uid).catch((err) => {
+      console.error("Failed to register for push notifications", err);
+    });
+
+    return () => {
+      pushNotificationService.unregister();
+    };
+  }, [user?.uid]);
+
   const logout = async () => {
     try {
+      // Stop pushes to this device before the token can no longer be deleted
+      await pushNotificationService.unregister();
       await signOut(auth);
     } catch (err) {
       console.error("Error signing out", err);
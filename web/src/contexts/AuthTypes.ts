@@ -1,9 +1,10 @@
 import type { User as FirebaseAuthUser } from "firebase/auth";
 import { Timestamp } from "firebase/firestore";
+import type { SimulationScenario } from "../services/simulatedDeviceService";
 
 export type Role = "patient" | "caretaker" | "medical";
 
-export type DeviceType = "smartwatch" | "fitness_tracker" | "blood_pressure_monitor" | "glucose_monitor" | "pulse_oximeter" | "ecg_monitor" | "other";
+export type DeviceType = "smartwatch" | "fitness_tracker" | "blood_pressure_monitor" | "glucose_monitor" | "pulse_oximeter" | "ecg_monitor" | "weight_scale" | "other";
 
 export type DeviceStatus = "online" | "offline" | "syncing" | "error";
 
@@ -21,9 +22,43 @@ export interface Device {
   lastSyncTime: Timestamp | Date;
   manufacturer?: string;
   model?: string;
+  serialNumber?: string;
   firmwareVersion?: string;
+  hardwareVersion?: string;
   batteryLevel?: number;
   addedAt: Timestamp | Date;
+  // Set for Bluetooth devices so they can be reconnected without pairing again
+  bluetoothType?: "heart_rate" | "blood_pressure" | "glucose" | "temperature" | "pulse_oximeter" | "weight_scale";
+}
+
+export type NotificationChannel = "email" | "push" | "sms";
+export type NotificationSeverity = "low" | "medium" | "high";
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "22:00"
+  end: string; // "07:00"
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  sms: boolean;
+  // Per-severity channel choices that replace the flags above; high always includes push
+  severityOverrides?: Partial<Record<NotificationSeverity, Partial<Record<NotificationChannel, boolean>>>>;
+  // Low and medium notifications are held during quiet hours and sent as a digest
+  quietHours?: QuietHours;
+  timezone?: string;
+}
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone?: string;
+  email?: string;
+  // Contacts are only notified once they have agreed to it
+  consent: boolean;
 }
 
 export interface AppUser {
@@ -42,6 +77,10 @@ export interface AppUser {
   dateOfBirth?: string;
   knownAllergies?: string;
   emergencyAlerts?: Record<string, unknown>[];
+  notificationPreferences?: NotificationPreferences;
+  phoneNumber?: string;
+  onCall?: boolean;
+  emergencyContacts?: EmergencyContact[];
   [key: string]: unknown;
 }
 
@@ -60,8 +99,37 @@ export interface VitalData {
   oxygenLevel?: number;
   temperature?: number;
   glucose?: number;
+  glucoseMeal?: "preprandial" | "postprandial" | "fasting" | "casual" | "bedtime";
+  weight?: number;
+  bmi?: number;
+  bodyFatPercentage?: number;
   respiration?: number;
+  hrvSdnn?: number;
+  hrvRmssd?: number;
   timestamp?: Timestamp | Date;
+  // When the reading reached the app; earlier timestamps are readings stored on the device
+  receivedAt?: Timestamp | Date;
+}
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+export type EscalationTier = "caretaker" | "doctor" | "onCall" | "emergencyContact";
+
+export interface EscalationStep {
+  tier: EscalationTier;
+  recipientId: string | null;
+  recipientName: string;
+  notifiedAt: Timestamp | Date;
+  reason: string;
+}
+
+// A note left on an alert by the care team, when commenting or resolving
+export interface AlertNote {
+  userId: string;
+  userName: string;
+  action: "acknowledge" | "claim" | "resolve" | "comment";
+  note: string;
+  createdAt: Timestamp | Date;
 }
 
 export interface Alert {
@@ -72,6 +140,31 @@ export interface Alert {
   timestamp: Timestamp | Date;
   patientId?: string;
   patientName?: string;
+  status?: AlertStatus;
+  occurrenceCount?: number;
+  lastOccurredAt?: Timestamp | Date;
+  acknowledgedBy?: string;
+  acknowledgedByName?: string;
+  claimedBy?: string;
+  claimedByName?: string;
+  resolvedAt?: Timestamp | Date;
+  resolvedByName?: string;
+  resolutionNote?: string;
+  // The first step is the tier that owned the alert when it was raised
+  escalationSteps?: EscalationStep[];
+  notes?: AlertNote[];
+}
+
+export type News2Risk = "low" | "low-medium" | "medium" | "high";
+
+export type Consciousness = "alert" | "confusion" | "voice" | "pain" | "unresponsive";
+
+export interface News2Summary {
+  score: number;
+  risk: News2Risk;
+  complete: boolean;
+  missing?: string[];
+  updatedAt?: Timestamp | Date;
 }
 
 export interface Patient {
@@ -85,6 +178,7 @@ export interface Patient {
   assignmentReason?: AssignmentReason;
   assignedAt?: Timestamp | Date;
   chronicConditions?: string[];
+  news2?: News2Summary;
 }
 
 export interface DoctorProfile {
@@ -163,11 +257,16 @@ export interface DeviceContextValue {
   removeDevice: (deviceId: string) => Promise<void>;
   updateDeviceStatus: (deviceId: string, status: DeviceStatus) => Promise<void>;
   refreshDevices: () => Promise<void>;
-  connectBluetoothDevice: (deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter') => Promise<{ id: string; name: string; type: string }>;
+  connectBluetoothDevice: (deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter' | 'weight_scale') => Promise<Device>;
+  // Development builds only: a software device that follows a scripted scenario
+  connectSimulatedDevice: (deviceType: NonNullable<Device["bluetoothType"]>, scenario: SimulationScenario) => Promise<Device>;
   connectGoogleFit: () => Promise<boolean>;
   disconnectBluetoothDevice: (deviceId: string) => Promise<void>;
   disconnectGoogleFit: () => Promise<void>;
   connectAppleHealth: () => Promise<boolean>;
   disconnectAppleHealth: () => Promise<void>;
   manualSync: () => Promise<void>;
+  reconnectDevice: (deviceId: string) => Promise<boolean>;
+  // Readings saved on this device while offline, waiting to be uploaded
+  pendingReadings: number;
 }
@@ -1,16 +1,19 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 import { doc, updateDoc, arrayUnion, arrayRemove, onSnapshot, Timestamp } from 'firebase/firestore';
 import { db } from '../services/firebase';
 import { useAuth } from '../hooks/useAuth';
 import type { Device, DeviceContextValue, DeviceStatus } from './AuthTypes';
 import { vitalsSyncService } from '../services/vitalsSyncService';
+import { AuditActions, logAuditEvent } from '../services/auditLogService';
+import type { BluetoothDeviceInfo, BluetoothDeviceType, DeviceInformation } from '../services/types';
+import type { SimulationScenario } from '../services/simulatedDeviceService';
 
 const DeviceContext = createContext<DeviceContextValue | undefined>(undefined);
 
 // Helper function to map Bluetooth device types to our Device types
 function mapBluetoothTypeToDeviceType(
-  bluetoothType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter'
+  bluetoothType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter' | 'weight_scale'
 ): Device['type'] {
   const mapping: Record<typeof bluetoothType, Device['type']> = {
     heart_rate: 'smartwatch',
@@ -18,14 +21,36 @@ function mapBluetoothTypeToDeviceType(
     glucose: 'glucose_monitor',
     temperature: 'other',
     pulse_oximeter: 'pulse_oximeter',
+    weight_scale: 'weight_scale',
   };
   return mapping[bluetoothType];
 }
 
+// Update one device's entry in the user's connectedDevices list
+async function writeDeviceUpdate(userId: string, devices: Device[], deviceId: string, updates: Partial<Device>) {
+  const deviceIndex = devices.findIndex(d => d.id === deviceId);
+  if (deviceIndex === -1) return;
+
+  const updatedDevices = [...devices];
+  updatedDevices[deviceIndex] = {
+    ...updatedDevices[deviceIndex],
+    ...updates
+  };
+
+  const userDocRef = doc(db, 'users', userId);
+  await updateDoc(userDocRef, {
+    connectedDevices: updatedDevices
+  });
+}
+
 export function DeviceProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [devices, setDevices] = useState<Device[]>([]);
   const [activeDevice, setActiveDeviceState] = useState<Device | null>(null);
+  const [pendingReadings, setPendingReadings] = useState(0);
+  // Latest devices for callbacks registered once, such as Bluetooth connection changes
+  const devicesRef = useRef<Device[]>([]);
+  const restoredUserRef = useRef<string | null>(null);
 
   // Initialize vitals sync service when user is available
   useEffect(() => {
@@ -45,6 +70,16 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
     };
   }, [user?.uid]);
 
+  // Number of readings queued while offline
+  useEffect(() => {
+    if (!user?.uid) {
+      setPendingReadings(0);
+      return;
+    }
+
+    return vitalsSyncService.onPendingReadingsChange(setPendingReadings);
+  }, [user?.uid]);
+
   // Real-time listener for user's connected devices
   useEffect(() => {
     if (!user?.uid) {
@@ -58,6 +93,7 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
       if (docSnap.exists()) {
         const userData = docSnap.data();
         const connectedDevices = (userData.connectedDevices || []) as Device[];
+        devicesRef.current = connectedDevices;
         setDevices(connectedDevices);
 
         // Set active device based on activeDeviceId or first device
@@ -76,6 +112,69 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
     return () => unsubscribe();
   }, [user?.uid]);
 
+  // Real Bluetooth connects, disconnects, and reconnect attempts drive device status
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    const userId = user.uid;
+    return vitalsSyncService.onDeviceConnectionChange((deviceId, status) => {
+      writeDeviceUpdate(userId, devicesRef.current, deviceId, { status, lastSyncTime: Timestamp.now() })
+        .catch(console.error);
+    });
+  }, [user?.uid]);
+
+  // Keep Device Information current on each connection and audit firmware updates
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    const userId = user.uid;
+    return vitalsSyncService.onDeviceInformation((deviceId, information) => {
+      const device = devicesRef.current.find(d => d.id === deviceId);
+      if (!device) return;
+
+      const changedFields = (Object.keys(information) as (keyof DeviceInformation)[])
+        .filter(field => information[field] !== device[field]);
+      if (changedFields.length === 0) return;
+
+      if (device.firmwareVersion && changedFields.includes('firmwareVersion')) {
+        logAuditEvent(AuditActions.DEVICE_FIRMWARE_CHANGED, {
+          deviceId,
+          deviceType: device.type,
+          previousFirmwareVersion: device.firmwareVersion,
+          firmwareVersion: information.firmwareVersion,
+        });
+      }
+
+      writeDeviceUpdate(userId, devicesRef.current, deviceId, information).catch(console.error);
+    });
+  }, [user?.uid]);
+
+  // Save battery levels reported by Bluetooth devices; low levels notify the patient and caretaker
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    const userId = user.uid;
+    return vitalsSyncService.onDeviceBatteryLevel((deviceId, level) => {
+      const device = devicesRef.current.find(d => d.id === deviceId);
+      if (!device || device.batteryLevel === level) return;
+
+      writeDeviceUpdate(userId, devicesRef.current, deviceId, { batteryLevel: level }).catch(console.error);
+    });
+  }, [user?.uid]);
+
+  // Reconnect Bluetooth devices paired in an earlier session, once per sign-in
+  useEffect(() => {
+    if (!user?.uid || devices.length === 0 || restoredUserRef.current === user.uid) return;
+    if (!('bluetooth' in navigator) || typeof navigator.bluetooth.getDevices !== 'function') return;
+
+    restoredUserRef.current = user.uid;
+    devices
+      .filter((device) => device.bluetoothType && device.status !== 'offline')
+      .forEach((device) => {
+        vitalsSyncService.reconnectBluetoothDevice(device.id, device.bluetoothType!).catch(console.error);
+      });
+  }, [user?.uid, devices]);
+
   const setActiveDevice = async (device: Device | null) => {
     if (!user?.uid) return;
 
@@ -135,20 +234,7 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
   const updateDeviceStatus = async (deviceId: string, status: DeviceStatus) => {
     if (!user?.uid) return;
 
-    const deviceIndex = devices.findIndex(d => d.id === deviceId);
-    if (deviceIndex === -1) return;
-
-    const updatedDevices = [...devices];
-    updatedDevices[deviceIndex] = {
-      ...updatedDevices[deviceIndex],
-      status,
-      lastSyncTime: Timestamp.now()
-    };
-
-    const userDocRef = doc(db, 'users', user.uid);
-    await updateDoc(userDocRef, {
-      connectedDevices: updatedDevices
-    });
+    await writeDeviceUpdate(user.uid, devicesRef.current, deviceId, { status, lastSyncTime: Timestamp.now() });
   };
 
   const refreshDevices = async () => {
@@ -167,8 +253,44 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  // Add a newly connected Bluetooth device to the user's connectedDevices list
+  const saveBluetoothDevice = async (userId: string, deviceInfo: BluetoothDeviceInfo, deviceType: BluetoothDeviceType) => {
+    // Map device type to our Device type
+    const mappedType = mapBluetoothTypeToDeviceType(deviceType);
+
+    const newDevice: Device = {
+      id: deviceInfo.id,
+      name: deviceInfo.name,
+      type: mappedType,
+      status: 'online',
+      manufacturer: deviceInfo.manufacturer || 'Bluetooth Device',
+      ...(deviceInfo.model && { model: deviceInfo.model }),
+      ...(deviceInfo.serialNumber && { serialNumber: deviceInfo.serialNumber }),
+      ...(deviceInfo.firmwareVersion && { firmwareVersion: deviceInfo.firmwareVersion }),
+      ...(deviceInfo.hardwareVersion && { hardwareVersion: deviceInfo.hardwareVersion }),
+      lastSyncTime: Timestamp.now(),
+      addedAt: Timestamp.now(),
+      bluetoothType: deviceType,
+      ...(deviceInfo.batteryLevel !== undefined && { batteryLevel: deviceInfo.batteryLevel }),
+    };
+
+    const userDocRef = doc(db, 'users', userId);
+    await updateDoc(userDocRef, {
+      connectedDevices: arrayUnion(newDevice),
+    });
+
+    // If this is the first device, set it as active
+    if (devices.length === 0) {
+      await updateDoc(userDocRef, {
+        activeDeviceId: newDevice.id,
+      });
+    }
+
+    return newDevice;
+  };
+
   const connectBluetoothDevice = async (
-    deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter'
+    deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter' | 'weight_scale'
   ) => {
     if (!user?.uid) {
       throw new Error('User not authenticated');
@@ -177,36 +299,23 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
     try {
       // Connect via vitals sync service
       const deviceInfo = await vitalsSyncService.connectBluetoothDevice(deviceType);
+      return await saveBluetoothDevice(user.uid, deviceInfo, deviceType);
+    } catch (error) {
+      console.error('Error connecting Bluetooth device:', error);
+      throw error;
+    }
+  };
 
-      // Map device type to our Device type
-      const mappedType = mapBluetoothTypeToDeviceType(deviceType);
-
-      // Add device to Firebase
-      const newDevice: Device = {
-        id: deviceInfo.id,
-        name: deviceInfo.name,
-        type: mappedType,
-        status: 'online',
-        manufacturer: 'Bluetooth Device',
-        lastSyncTime: Timestamp.now(),
-        addedAt: Timestamp.now(),
-      };
-
-      const userDocRef = doc(db, 'users', user.uid);
-      await updateDoc(userDocRef, {
-        connectedDevices: arrayUnion(newDevice),
-      });
-
-      // If this is the first device, set it as active
-      if (devices.length === 0) {
-        await updateDoc(userDocRef, {
-          activeDeviceId: newDevice.id,
-        });
-      }
+  const connectSimulatedDevice = async (deviceType: BluetoothDeviceType, scenario: SimulationScenario) => {
+    if (!user?.uid) {
+      throw new Error('User not authenticated');
+    }
 
-      return deviceInfo;
+    try {
+      const deviceInfo = await vitalsSyncService.connectSimulatedDevice(deviceType, { scenario });
+      return await saveBluetoothDevice(user.uid, deviceInfo, deviceType);
     } catch (error) {
-      console.error('Error connecting Bluetooth device:', error);
+      console.error('Error connecting simulated device:', error);
       throw error;
     }
   };
@@ -357,6 +466,18 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const reconnectDevice = async (deviceId: string): Promise<boolean> => {
+    const device = devicesRef.current.find(d => d.id === deviceId);
+    if (!device) return false;
+
+    if (device.id === 'google-fit') return connectGoogleFit();
+    if (device.id === 'apple-health') return connectAppleHealth();
+
+    // Status updates arrive through the connection change callback
+    if (!device.bluetoothType) return false;
+    return vitalsSyncService.reconnectBluetoothDevice(device.id, device.bluetoothType);
+  };
+
   const value: DeviceContextValue = {
     activeDevice,
     setActiveDevice,
@@ -366,12 +487,15 @@ export function DeviceProvider({ children }: { children: ReactNode }) {
     updateDeviceStatus,
     refreshDevices,
     connectBluetoothDevice,
+    connectSimulatedDevice,
     connectGoogleFit,
     disconnectBluetoothDevice,
     disconnectGoogleFit,
     connectAppleHealth,
     disconnectAppleHealth,
     manualSync,
+    reconnectDevice,
+    pendingReadings,
   };
 
   return (
@@ -5,6 +5,8 @@
 import { useState } from "react";
 import { httpsCallable } from "firebase/functions";
 import { functions } from "../services/firebase";
+import type { ThresholdOverrides, ThresholdProfile } from "../services/types";
+import type { AlertStatus, Consciousness, News2Summary } from "../contexts/AuthTypes";
 
 // Type definitions for Cloud Function requests/responses
 interface SendInvitationRequest {
@@ -83,12 +85,14 @@ interface AssignCareTeamMemberResponse {
 }
 
 interface UpdateAvailabilityRequest {
-  availability: "available" | "busy" | "offline";
+  availability?: "available" | "busy" | "offline";
+  onCall?: boolean; // medical professionals only
 }
 
 interface UpdateAvailabilityResponse {
   success: boolean;
   availability: string;
+  onCall: boolean;
 }
 
 interface EscalateToDoctorRequest {
@@ -103,6 +107,51 @@ interface EscalateToDoctorResponse {
   message?: string;
 }
 
+interface UpdateAlertThresholdsRequest {
+  patientId: string;
+  overrides: ThresholdOverrides;
+}
+
+interface UpdateAlertThresholdsResponse {
+  success: boolean;
+  profile: ThresholdProfile;
+}
+
+interface UpdateAlertStatusRequest {
+  patientId: string;
+  alertId: string;
+  action: "acknowledge" | "claim" | "resolve" | "comment";
+  note?: string;
+}
+
+interface UpdateAlertStatusResponse {
+  success: boolean;
+  status: AlertStatus;
+  patientStatus: "stable" | "warning" | "critical";
+}
+
+interface UpdateNews2InputsRequest {
+  patientId: string;
+  consciousness?: Consciousness;
+  supplementalOxygen?: boolean;
+  useSpO2Scale2?: boolean;
+}
+
+interface UpdateNews2InputsResponse {
+  success: boolean;
+  news2: News2Summary & { components: Record<string, number> };
+}
+
+interface TriggerSosRequest {
+  message?: string;
+}
+
+interface TriggerSosResponse {
+  success: boolean;
+  alertId?: string;
+  contactsNotified: number;
+}
+
 /**
  * Hook for sending invitations to caretakers or doctors
  */
@@ -313,6 +362,126 @@ export function useEscalateToDoctor() {
   return { escalate, loading, error };
 }
 
+/**
+ * Hook for the assigned doctor to update a patient's alert thresholds
+ */
+export function useUpdateAlertThresholds() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const updateThresholds = async (data: UpdateAlertThresholdsRequest) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const callable = httpsCallable<UpdateAlertThresholdsRequest, UpdateAlertThresholdsResponse>(
+        functions,
+        "updateAlertThresholds"
+      );
+      const result = await callable(data);
+      return result.data;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to update alert thresholds");
+      setError(error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { updateThresholds, loading, error };
+}
+
+/**
+ * Hook for the care team to acknowledge, claim, resolve, or comment on an alert
+ */
+export function useUpdateAlertStatus() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const updateAlertStatus = async (data: UpdateAlertStatusRequest) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const callable = httpsCallable<UpdateAlertStatusRequest, UpdateAlertStatusResponse>(
+        functions,
+        "updateAlertStatus"
+      );
+      const result = await callable(data);
+      return result.data;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to update alert");
+      setError(error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { updateAlertStatus, loading, error };
+}
+
+/**
+ * Hook for the care team to record manual NEWS2 inputs (consciousness, supplemental oxygen)
+ */
+export function useUpdateNews2Inputs() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const updateNews2Inputs = async (data: UpdateNews2InputsRequest) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const callable = httpsCallable<UpdateNews2InputsRequest, UpdateNews2InputsResponse>(
+        functions,
+        "updateNews2Inputs"
+      );
+      const result = await callable(data);
+      return result.data;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to update NEWS2 inputs");
+      setError(error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { updateNews2Inputs, loading, error };
+}
+
+/**
+ * Hook for a patient to trigger an SOS (notifies emergency contacts and the care team)
+ */
+export function useTriggerSos() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const triggerSos = async (data: TriggerSosRequest = {}) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const callable = httpsCallable<TriggerSosRequest, TriggerSosResponse>(
+        functions,
+        "triggerSos"
+      );
+      const result = await callable(data);
+      return result.data;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to trigger SOS");
+      setError(error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { triggerSos, loading, error };
+}
+
 /**
  * Generic hook for calling any Cloud Function
  */
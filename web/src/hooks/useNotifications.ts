@@ -19,7 +19,7 @@ import { useAuth } from "./useAuth";
 export interface Notification {
   id: string;
   userId: string;
-  type: "alert" | "invitation" | "system" | "reminder";
+  type: "alert" | "invitation" | "system" | "reminder" | "device";
   severity?: "low" | "medium" | "high";
   title: string;
   message: string;
@@ -27,6 +27,7 @@ export interface Notification {
   patientName?: string;
   alertId?: string;
   invitationId?: string;
+  deviceId?: string;
   createdAt: Timestamp;
   read: boolean;
   sent: boolean;
@@ -8,12 +8,57 @@ import DashboardHeader from "../../components/DashboardHeader";
 import InputField from "../../components/InputField";
 import SelectField from "../../components/SelectField";
 import MultiSelectField from "../../components/MultiSelectField";
+import EmergencyContactsEditor from "../../components/EmergencyContactsEditor";
 import DeviceManagement from "../../components/DeviceManagement";
 import { useDarkMode } from "../../contexts/useDarkMode";
 import { FaSave, FaUserCog, FaBell, FaMoon, FaLaptopMedical, FaUserMd, FaUsers, FaChartLine } from "react-icons/fa";
-import type { AppUser } from "../../contexts/AuthTypes";
+import type {
+  AppUser,
+  EmergencyContact,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationSeverity,
+} from "../../contexts/AuthTypes";
 import { useUpdateAvailability } from "../../hooks/useCloudFunctions";
 
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: true,
+  sms: false,
+  severityOverrides: {},
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+};
+
+const NOTIFICATION_CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: "email", label: "Email" },
+  { key: "push", label: "Push" },
+  { key: "sms", label: "SMS" },
+];
+
+const NOTIFICATION_SEVERITIES: { key: NotificationSeverity; label: string }[] = [
+  { key: "low", label: "Low" },
+  { key: "medium", label: "Medium" },
+  { key: "high", label: "High" },
+];
+
+// Earlier profiles stored one free-text contact; offer it as an entry still needing consent
+function toEmergencyContacts(appUser: AppUser | null): EmergencyContact[] {
+  if (appUser?.emergencyContacts) return appUser.emergencyContacts;
+
+  const legacy = typeof appUser?.emergencyContact === "string" ? appUser.emergencyContact.trim() : "";
+  if (!legacy) return [];
+
+  return [
+    {
+      id: crypto.randomUUID(),
+      name: "",
+      relationship: "",
+      ...(legacy.includes("@") ? { email: legacy } : { phone: legacy }),
+      consent: false,
+    },
+  ];
+}
+
 export default function Settings() {
   const { user, loading } = useAuth();
   const { darkMode, toggleDarkMode } = useDarkMode();
@@ -31,7 +76,7 @@ export default function Settings() {
     dateOfBirth: user?.dateOfBirth || "",
     bloodType: user?.bloodType || "",
     knownAllergies: user?.knownAllergies || "",
-    emergencyContact: (user as any)?.emergencyContact || "",
+    emergencyContacts: toEmergencyContacts(user),
 
     // Patient-specific
     chronicConditions: (user as any)?.chronicConditions || [],
@@ -56,11 +101,8 @@ export default function Settings() {
   });
 
   // Notification preferences
-  const [notifications, setNotifications] = useState({
-    email: true,
-    push: true,
-    sms: false,
-  });
+  const [notifications, setNotifications] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [phoneNumber, setPhoneNumber] = useState(user?.phoneNumber || "");
 
   // Update form when user data changes
   useEffect(() => {
@@ -72,7 +114,7 @@ export default function Settings() {
         dateOfBirth: user.dateOfBirth || "",
         bloodType: user.bloodType || "",
         knownAllergies: user.knownAllergies || "",
-        emergencyContact: (user as any).emergencyContact || "",
+        emergencyContacts: toEmergencyContacts(user),
         chronicConditions: (user as any).chronicConditions || [],
         relationshipToPatient: (user as any).relationshipToPatient || "",
         experienceYears: (user as any).experienceYears || "",
@@ -84,9 +126,10 @@ export default function Settings() {
       });
 
       // Load notification preferences if they exist
-      if ((user as any).notificationPreferences) {
-        setNotifications((user as any).notificationPreferences);
+      if (user.notificationPreferences) {
+        setNotifications({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...user.notificationPreferences });
       }
+      setPhoneNumber(user.phoneNumber || "");
     }
   }, [user]);
 
@@ -114,12 +157,54 @@ export default function Settings() {
     });
   };
 
+  // A severity override wins over the channel flag; high always goes out by push
+  const isChannelEnabled = (severity: NotificationSeverity, channel: NotificationChannel) => {
+    if (severity === "high" && channel === "push") return true;
+    return notifications.severityOverrides?.[severity]?.[channel] ?? notifications[channel];
+  };
+
+  const handleSeverityChannelChange = (severity: NotificationSeverity, channel: NotificationChannel, checked: boolean) => {
+    setNotifications({
+      ...notifications,
+      severityOverrides: {
+        ...notifications.severityOverrides,
+        [severity]: { ...notifications.severityOverrides?.[severity], [channel]: checked },
+      },
+    });
+  };
+
+  const handleQuietHoursChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, type, value, checked } = e.target;
+    setNotifications({
+      ...notifications,
+      quietHours: {
+        ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours!,
+        ...notifications.quietHours,
+        [name]: type === "checkbox" ? checked : value,
+      },
+    });
+  };
+
   const saveProfile = async () => {
     if (!user) return;
 
     setSaving(true);
     setMessage(null);
 
+    const emergencyContacts = profileData.emergencyContacts.map((contact) => ({
+      ...contact,
+      name: contact.name.trim(),
+      relationship: contact.relationship.trim(),
+      phone: contact.phone?.trim() || "",
+      email: contact.email?.trim() || "",
+    }));
+
+    if (emergencyContacts.some((contact) => !contact.name || (!contact.phone && !contact.email))) {
+      setMessage({ type: "error", text: "Each emergency contact needs a name and a phone number or email" });
+      setSaving(false);
+      return;
+    }
+
     try {
       const userDocRef = doc(db, "users", user.uid);
 
@@ -130,8 +215,8 @@ export default function Settings() {
         dateOfBirth: profileData.dateOfBirth,
         bloodType: profileData.bloodType,
         knownAllergies: profileData.knownAllergies,
-        emergencyContact: profileData.emergencyContact,
         ...(user.role === "patient" && {
+          emergencyContacts: emergencyContacts,
           chronicConditions: profileData.chronicConditions,
         }),
         ...(user.role === "caretaker" && {
@@ -207,7 +292,12 @@ export default function Settings() {
     try {
       const userDocRef = doc(db, "users", user.uid);
       await updateDoc(userDocRef, {
-        notificationPreferences: notifications,
+        // Quiet hours are evaluated in the timezone of the device that saved them
+        notificationPreferences: {
+          ...notifications,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+        phoneNumber: phoneNumber.trim(),
       });
 
       setMessage({ type: "success", text: "Notification preferences saved!" });
@@ -396,13 +486,9 @@ export default function Settings() {
 
               {user.role === "patient" && (
                 <>
-                  <InputField
-                    label="Emergency Contact"
-                    name="emergencyContact"
-                    value={profileData.emergencyContact}
-                    onChange={handleProfileChange}
-                    placeholder="Phone number or email"
-                    required={false}
+                  <EmergencyContactsEditor
+                    contacts={profileData.emergencyContacts}
+                    onChange={(contacts) => setProfileData({ ...profileData, emergencyContacts: contacts })}
                   />
                   <MultiSelectField
                     label="Chronic Conditions"
@@ -606,6 +692,96 @@ export default function Settings() {
                     <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-green-300 dark:peer-focus:ring-green-800 rounded-full peer dark:bg-gray-600 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-green-600"></div>
                   </label>
                 </div>
+
+                <InputField
+                  label="Mobile Number for SMS"
+                  name="phoneNumber"
+                  type="tel"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  placeholder="e.g., +15551234567"
+                  required={false}
+                />
+              </div>
+
+              <div className="pt-6 border-t dark:border-gray-700">
+                <h4 className="font-semibold mb-1 dark:text-white">Channels by Alert Severity</h4>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                  Choose which channels are used for each severity. High severity alerts are always sent as push notifications.
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400">
+                      <th className="py-2">Severity</th>
+                      {NOTIFICATION_CHANNELS.map((channel) => (
+                        <th key={channel.key} className="py-2 text-center">{channel.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {NOTIFICATION_SEVERITIES.map((severity) => (
+                      <tr key={severity.key} className="border-t dark:border-gray-700">
+                        <td className="py-2 dark:text-white">{severity.label}</td>
+                        {NOTIFICATION_CHANNELS.map((channel) => (
+                          <td key={channel.key} className="py-2 text-center">
+                            <input
+                              type="checkbox"
+                              checked={isChannelEnabled(severity.key, channel.key)}
+                              disabled={severity.key === "high" && channel.key === "push"}
+                              onChange={(e) => handleSeverityChannelChange(severity.key, channel.key, e.target.checked)}
+                              className="h-4 w-4 accent-green-600"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="pt-6 border-t dark:border-gray-700">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h4 className="font-semibold dark:text-white">Quiet Hours</h4>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Low and medium notifications are held and sent as a digest when quiet hours end. High severity alerts are always delivered.
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      name="enabled"
+                      checked={notifications.quietHours?.enabled ?? false}
+                      onChange={handleQuietHoursChange}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-green-300 dark:peer-focus:ring-green-800 rounded-full peer dark:bg-gray-600 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-green-600"></div>
+                  </label>
+                </div>
+
+                {notifications.quietHours?.enabled && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <InputField
+                        label="From"
+                        name="start"
+                        type="time"
+                        value={notifications.quietHours.start}
+                        onChange={handleQuietHoursChange}
+                      />
+                      <InputField
+                        label="Until"
+                        name="end"
+                        type="time"
+                        value={notifications.quietHours.end}
+                        onChange={handleQuietHoursChange}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                      Times are in {Intl.DateTimeFormat().resolvedOptions().timeZone}.
+                    </p>
+                  </>
+                )}
               </div>
 
               <button
@@ -877,6 +1053,7 @@ function MedicalRoleSettings(): JSX.Element {
   const [currentAvailability, setCurrentAvailability] = useState<"available" | "busy" | "offline">(
     (user as any)?.availability || "available"
   );
+  const [onCall, setOnCall] = useState<boolean>(user?.onCall === true);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
   const handleAvailabilityChange = async (newAvailability: "available" | "busy" | "offline") => {
@@ -891,6 +1068,19 @@ function MedicalRoleSettings(): JSX.Element {
     }
   };
 
+  const handleOnCallChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newOnCall = e.target.checked;
+    try {
+      await updateAvailability({ onCall: newOnCall });
+      setOnCall(newOnCall);
+      setMessage({ type: "success", text: newOnCall ? "You are now on call" : "You are no longer on call" });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error) {
+      setMessage({ type: "error", text: "Failed to update on-call status" });
+      console.error("Error updating on-call status:", error);
+    }
+  };
+
   // Helper function for availability styles
   // const getAvailabilityStyles = (status: string) => {
   //   switch (status) {
@@ -985,6 +1175,25 @@ function MedicalRoleSettings(): JSX.Element {
             Your specialization, experience, and current patient load are also considered.
           </p>
         </div>
+
+        <div className="mt-4 flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div>
+            <h4 className="font-semibold dark:text-white">On Call</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              While on call and available, you receive urgent alerts that a patient's caretaker and doctor have not acknowledged in time.
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onCall}
+              onChange={handleOnCallChange}
+              disabled={loading}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-green-300 dark:peer-focus:ring-green-800 rounded-full peer dark:bg-gray-600 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-green-600"></div>
+          </label>
+        </div>
       </div>
 
       {/* Patient Overview */}
@@ -0,0 +1,264 @@
+/**
+ * Alert Threshold Profiles
+ * Resolves the per-patient vital sign limits used to decide when a reading
+ * should raise an alert. Defaults are adjusted for the patient's chronic
+ * conditions and can be overridden by the assigned doctor.
+ *
+ * Kept in sync with bridge/functions/src/alertThresholds.ts
+ */
+
+import type {
+  ThresholdOverrides,
+  ThresholdProfile,
+  ThresholdRange,
+  ThresholdVital,
+  VitalsAlert,
+  VitalsReading,
+} from './types';
+
+export const THRESHOLD_VITALS: ThresholdVital[] = [
+  'heartRate',
+  'bloodPressureSystolic',
+  'bloodPressureDiastolic',
+  'oxygenLevel',
+  'temperature',
+  'glucose',
+];
+
+export const THRESHOLD_VITAL_LABELS: Record<ThresholdVital, { label: string; unit: string }> = {
+  heartRate: { label: 'Heart Rate', unit: 'bpm' },
+  bloodPressureSystolic: { label: 'Systolic BP', unit: 'mmHg' },
+  bloodPressureDiastolic: { label: 'Diastolic BP', unit: 'mmHg' },
+  oxygenLevel: { label: 'Oxygen Saturation', unit: '%' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  glucose: { label: 'Blood Glucose', unit: 'mg/dL' },
+};
+
+/**
+ * Limits applied to every patient unless a condition or doctor override applies
+ */
+export const DEFAULT_THRESHOLDS: ThresholdProfile = {
+  heartRate: { criticalLow: 50, low: 60, high: 100, criticalHigh: 120 },
+  bloodPressureSystolic: { low: 90, high: 140, criticalHigh: 160 },
+  bloodPressureDiastolic: { low: 60, high: 90 },
+  oxygenLevel: { criticalLow: 90, low: 95 },
+  temperature: { low: 36, high: 37.5, criticalHigh: 38.5 },
+  glucose: { criticalLow: 54, low: 70, high: 180, criticalHigh: 250 },
+};
+
+/**
+ * Adjustments applied when a patient's chronicConditions match one of the keywords
+ */
+export const CONDITION_THRESHOLDS: { keywords: string[]; thresholds: ThresholdOverrides }[] = [
+  {
+    keywords: ['copd', 'chronic obstructive'],
+    thresholds: { oxygenLevel: { criticalLow: 85, low: 88 } },
+  },
+  {
+    keywords: ['heart disease', 'cardiovascular'],
+    thresholds: { heartRate: { criticalLow: 40, low: 50 } },
+  },
+  {
+    keywords: ['hypertension', 'high blood pressure'],
+    thresholds: {
+      bloodPressureSystolic: { high: 150, criticalHigh: 180 },
+      bloodPressureDiastolic: { high: 95 },
+    },
+  },
+  {
+    keywords: ['diabetes'],
+    thresholds: { glucose: { high: 200, criticalHigh: 300 } },
+  },
+];
+
+/**
+ * Merge a set of overrides on top of a profile, range by range
+ */
+function applyOverrides(profile: ThresholdProfile, overrides: ThresholdOverrides): ThresholdProfile {
+  const merged = { ...profile };
+
+  for (const vital of THRESHOLD_VITALS) {
+    const override = overrides[vital];
+    if (!override) continue;
+
+    const range: ThresholdRange = { ...merged[vital] };
+    for (const [key, value] of Object.entries(override) as [keyof ThresholdRange, number | null | undefined][]) {
+      if (value === null) {
+        delete range[key]; // the doctor removed this limit
+      } else if (value !== undefined) {
+        range[key] = value;
+      }
+    }
+    merged[vital] = range;
+  }
+
+  return merged;
+}
+
+/**
+ * Build the condition-adjusted profile for a patient, before any doctor overrides
+ */
+export function getConditionThresholds(chronicConditions: string[] = []): ThresholdProfile {
+  const conditions = chronicConditions.map((condition) => condition.toLowerCase());
+
+  return CONDITION_THRESHOLDS.reduce(
+    (profile, { keywords, thresholds }) =>
+      conditions.some((condition) => keywords.some((keyword) => condition.includes(keyword)))
+        ? applyOverrides(profile, thresholds)
+        : profile,
+    DEFAULT_THRESHOLDS
+  );
+}
+
+/**
+ * Resolve the effective profile: defaults, then condition adjustments, then doctor overrides
+ */
+export function resolveThresholdProfile(
+  chronicConditions: string[] = [],
+  overrides: ThresholdOverrides = {}
+): ThresholdProfile {
+  return applyOverrides(getConditionThresholds(chronicConditions), overrides);
+}
+
+/**
+ * Check that a range is ordered criticalLow <= low < high <= criticalHigh
+ */
+export function isValidThresholdRange(range: ThresholdRange): boolean {
+  const values = [range.criticalLow, range.low, range.high, range.criticalHigh].filter(
+    (value): value is number => value !== undefined
+  );
+
+  if (values.some((value) => !Number.isFinite(value))) return false;
+  if (range.low !== undefined && range.high !== undefined && range.low >= range.high) return false;
+
+  return values.every((value, index) => index === 0 || values[index - 1] <= value);
+}
+
+function isAbove(value: number, limit?: number): boolean {
+  return limit !== undefined && value > limit;
+}
+
+function isBelow(value: number, limit?: number): boolean {
+  return limit !== undefined && value < limit;
+}
+
+/**
+ * Evaluate a reading against a threshold profile and return the alerts it should raise
+ */
+export function evaluateThresholds(reading: VitalsReading, profile: ThresholdProfile): VitalsAlert[] {
+  const alerts: VitalsAlert[] = [];
+
+  // Heart rate checks
+  if (reading.heartRate !== undefined) {
+    const range = profile.heartRate;
+    if (isAbove(reading.heartRate, range.high)) {
+      alerts.push({
+        title: 'High Heart Rate',
+        conditionKey: 'heartRate:high',
+        vitals: ['heartRate'],
+        message: `Heart rate is ${reading.heartRate} bpm (elevated)`,
+        severity: isAbove(reading.heartRate, range.criticalHigh) ? 'high' : 'medium',
+      });
+    } else if (isBelow(reading.heartRate, range.low)) {
+      alerts.push({
+        title: 'Low Heart Rate',
+        conditionKey: 'heartRate:low',
+        vitals: ['heartRate'],
+        message: `Heart rate is ${reading.heartRate} bpm (below normal)`,
+        severity: isBelow(reading.heartRate, range.criticalLow) ? 'high' : 'medium',
+      });
+    }
+  }
+
+  // Blood pressure checks
+  if (reading.bloodPressureSystolic !== undefined && reading.bloodPressureDiastolic !== undefined) {
+    const systolic = reading.bloodPressureSystolic;
+    const diastolic = reading.bloodPressureDiastolic;
+    const systolicRange = profile.bloodPressureSystolic;
+    const diastolicRange = profile.bloodPressureDiastolic;
+
+    if (isAbove(systolic, systolicRange.high) || isAbove(diastolic, diastolicRange.high)) {
+      alerts.push({
+        title: 'High Blood Pressure',
+        conditionKey: 'bloodPressure:high',
+        vitals: ['bloodPressureSystolic', 'bloodPressureDiastolic'],
+        message: `BP is ${systolic}/${diastolic} mmHg (elevated)`,
+        severity:
+          isAbove(systolic, systolicRange.criticalHigh) || isAbove(diastolic, diastolicRange.criticalHigh)
+            ? 'high'
+            : 'medium',
+      });
+    } else if (isBelow(systolic, systolicRange.low) || isBelow(diastolic, diastolicRange.low)) {
+      alerts.push({
+        title: 'Low Blood Pressure',
+        conditionKey: 'bloodPressure:low',
+        vitals: ['bloodPressureSystolic', 'bloodPressureDiastolic'],
+        message: `BP is ${systolic}/${diastolic} mmHg (low)`,
+        severity:
+          isBelow(systolic, systolicRange.criticalLow) || isBelow(diastolic, diastolicRange.criticalLow)
+            ? 'high'
+            : 'medium',
+      });
+    }
+  }
+
+  // Oxygen level checks
+  if (reading.oxygenLevel !== undefined) {
+    const range = profile.oxygenLevel;
+    if (isBelow(reading.oxygenLevel, range.low)) {
+      alerts.push({
+        title: 'Low Oxygen Saturation',
+        conditionKey: 'oxygenLevel:low',
+        vitals: ['oxygenLevel'],
+        message: `Oxygen level is ${reading.oxygenLevel}% (below normal)`,
+        severity: isBelow(reading.oxygenLevel, range.criticalLow) ? 'high' : 'medium',
+      });
+    }
+  }
+
+  // Temperature checks
+  if (reading.temperature !== undefined) {
+    const range = profile.temperature;
+    if (isAbove(reading.temperature, range.high)) {
+      alerts.push({
+        title: 'Elevated Temperature',
+        conditionKey: 'temperature:high',
+        vitals: ['temperature'],
+        message: `Temperature is ${reading.temperature}°C (elevated)`,
+        severity: isAbove(reading.temperature, range.criticalHigh) ? 'high' : 'medium',
+      });
+    } else if (isBelow(reading.temperature, range.low)) {
+      alerts.push({
+        title: 'Low Temperature',
+        conditionKey: 'temperature:low',
+        vitals: ['temperature'],
+        message: `Temperature is ${reading.temperature}°C (below normal)`,
+        severity: isBelow(reading.temperature, range.criticalLow) ? 'high' : 'medium',
+      });
+    }
+  }
+
+  // Glucose checks
+  if (reading.glucose !== undefined) {
+    const range = profile.glucose;
+    if (isAbove(reading.glucose, range.high)) {
+      alerts.push({
+        title: 'High Blood Glucose',
+        conditionKey: 'glucose:high',
+        vitals: ['glucose'],
+        message: `Glucose is ${reading.glucose} mg/dL (elevated)`,
+        severity: isAbove(reading.glucose, range.criticalHigh) ? 'high' : 'medium',
+      });
+    } else if (isBelow(reading.glucose, range.low)) {
+      alerts.push({
+        title: 'Low Blood Glucose',
+        conditionKey: 'glucose:low',
+        vitals: ['glucose'],
+        message: `Glucose is ${reading.glucose} mg/dL (low)`,
+        severity: isBelow(reading.glucose, range.criticalLow) ? 'high' : 'medium',
+      });
+    }
+  }
+
+  return alerts;
+}
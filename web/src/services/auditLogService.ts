@@ -86,6 +86,7 @@ export const AuditActions = {
   DEVICE_SYNC_STARTED: "device_sync_started",
   DEVICE_SYNC_COMPLETED: "device_sync_completed",
   DEVICE_SYNC_FAILED: "device_sync_failed",
+  DEVICE_FIRMWARE_CHANGED: "device_firmware_changed",
 
   // Data access actions
   VITALS_VIEWED: "vitals_viewed",
@@ -97,6 +98,14 @@ export const AuditActions = {
   ALERT_CREATED: "alert_created",
   ALERT_VIEWED: "alert_viewed",
   ALERT_DISMISSED: "alert_dismissed",
+  ALERT_ACKNOWLEDGED: "alert_acknowledged",
+  ALERT_CLAIMED: "alert_claimed",
+  ALERT_RESOLVED: "alert_resolved",
+  ALERT_COMMENTED: "alert_commented",
+
+  // Emergency actions
+  SOS_TRIGGERED: "sos_triggered",
+  EMERGENCY_CONTACTS_NOTIFIED: "emergency_contacts_notified",
 
   // Invitation actions
   INVITATION_SENT: "invitation_sent",
@@ -3,7 +3,39 @@
  * Supports standard Bluetooth GATT services for health monitoring devices
  */
 
-import type { BluetoothDeviceInfo, VitalsReading } from './types';
+import type {
+  BluetoothDeviceInfo,
+  BluetoothDeviceProvider,
+  BluetoothDeviceType,
+  DeviceConnectionStatus,
+  DeviceEvents,
+  DeviceInformation,
+  DeviceMetadata,
+  VitalsReading,
+} from './types';
+import { TypedEventEmitter, type Unsubscribe } from './eventEmitter';
+import {
+  decodeUtf8String,
+  encodeRacpReportRecords,
+  parseBloodPressureMeasurement,
+  parseBodyCompositionMeasurement,
+  parseCurrentTime,
+  parseGlucoseMeasurement,
+  parseGlucoseMeasurementContext,
+  parseHeartRateMeasurement,
+  parsePlxContinuousMeasurement,
+  parsePlxSpotCheckMeasurement,
+  parseRacpResponse,
+  parseTemperatureMeasurement,
+  parseWeightMeasurement,
+  RACP_OP_CODES,
+  RACP_RESPONSE_CODES,
+  toCelsius,
+  toKilograms,
+  toMgPerDl,
+  toMmHg,
+  type PulseOximeterMeasurement,
+} from './gattParsers';
 
 // Standard Bluetooth GATT Service UUIDs
 const SERVICES = {
@@ -12,7 +44,11 @@ const SERVICES = {
   GLUCOSE: 0x1808,
   HEALTH_THERMOMETER: 0x1809,
   PULSE_OXIMETER: 0x1822,
+  WEIGHT_SCALE: 0x181d,
+  BODY_COMPOSITION: 0x181b,
   BATTERY: 0x180f,
+  DEVICE_INFORMATION: 0x180a,
+  CURRENT_TIME: 0x1805,
 } as const;
 
 // Standard Bluetooth GATT Characteristic UUIDs
@@ -20,16 +56,74 @@ const CHARACTERISTICS = {
   HEART_RATE_MEASUREMENT: 0x2a37,
   BLOOD_PRESSURE_MEASUREMENT: 0x2a35,
   GLUCOSE_MEASUREMENT: 0x2a18,
+  GLUCOSE_MEASUREMENT_CONTEXT: 0x2a34,
+  RECORD_ACCESS_CONTROL_POINT: 0x2a52,
   TEMPERATURE_MEASUREMENT: 0x2a1c,
   PLX_CONTINUOUS_MEASUREMENT: 0x2a5f, // Pulse Oximeter
   PLX_SPOT_CHECK: 0x2a5e,
+  WEIGHT_MEASUREMENT: 0x2a9d,
+  BODY_COMPOSITION_MEASUREMENT: 0x2a9c,
   BATTERY_LEVEL: 0x2a19,
+  CURRENT_TIME: 0x2a2b,
+  MODEL_NUMBER: 0x2a24,
+  SERIAL_NUMBER: 0x2a25,
+  FIRMWARE_REVISION: 0x2a26,
+  HARDWARE_REVISION: 0x2a27,
+  MANUFACTURER_NAME: 0x2a29,
 } as const;
 
-class BluetoothService {
+// Device Information Service characteristics and the fields they fill
+const DEVICE_INFORMATION_FIELDS: [keyof DeviceInformation, number][] = [
+  ['manufacturer', CHARACTERISTICS.MANUFACTURER_NAME],
+  ['model', CHARACTERISTICS.MODEL_NUMBER],
+  ['serialNumber', CHARACTERISTICS.SERIAL_NUMBER],
+  ['firmwareVersion', CHARACTERISTICS.FIRMWARE_REVISION],
+  ['hardwareVersion', CHARACTERISTICS.HARDWARE_REVISION],
+];
+
+// Reconnection backoff: 1s, 2s, 4s, ... capped at one minute
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Reconnects the user asked for give up sooner so they get feedback
+const REQUESTED_RECONNECT_ATTEMPTS = 3;
+
+function reconnectDelayMs(attempt: number): number {
+  return Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+}
+
+// Device clocks this close to ours are left alone; Date Time only has one-second resolution
+const CLOCK_SKEW_TOLERANCE_MS = 2000;
+// A measurement time this far in the future comes from a clock that was never set
+const MAX_FUTURE_TIMESTAMP_MS = 5 * 60 * 1000;
+
+// A stored record transfer fails if the meter sends nothing for this long
+const RACP_TIMEOUT_MS = 30 * 1000;
+
+interface GlucoseRecordTransfer {
+  received: number;
+  timeout?: ReturnType<typeof setTimeout>;
+  resolve: (received: number) => void;
+  reject: (error: Error) => void;
+}
+
+class BluetoothService extends TypedEventEmitter<DeviceEvents> implements BluetoothDeviceProvider {
   private connectedDevices: Map<string, BluetoothDevice> = new Map();
   private deviceCharacteristics: Map<string, BluetoothRemoteGATTCharacteristic[]> = new Map();
-  private onDataCallback?: (reading: VitalsReading) => void;
+  // Devices seen this session, kept after disconnecting so they can be reconnected
+  private knownDevices: Map<string, BluetoothDevice> = new Map();
+  private deviceTypes: Map<string, BluetoothDeviceType> = new Map();
+  private reconnectTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private manualDisconnects: Set<string> = new Set();
+  // Connections closed after a failed reconnect set-up, whose disconnect event is expected
+  private abandonedConnections: Set<string> = new Set();
+  private connectionStatuses: Map<string, DeviceConnectionStatus> = new Map();
+  // Device clock minus our clock (ms), for devices whose clock is off
+  private clockOffsets: Map<string, number> = new Map();
+  private recordAccessControlPoints: Map<string, BluetoothRemoteGATTCharacteristic> = new Map();
+  private glucoseTransfers: Map<string, GlucoseRecordTransfer> = new Map();
+  // Glucose readings waiting for their Glucose Measurement Context
+  private pendingGlucoseReadings: Map<string, VitalsReading> = new Map();
 
   /**
    * Check if Web Bluetooth is supported
@@ -41,7 +135,7 @@ class BluetoothService {
   /**
    * Request and connect to a Bluetooth device
    */
-  async connectDevice(deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter'): Promise<BluetoothDeviceInfo> {
+  async connectDevice(deviceType: BluetoothDeviceType): Promise<BluetoothDeviceInfo> {
     if (!this.isSupported()) {
       throw new Error('Web Bluetooth is not supported in this browser');
     }
@@ -50,59 +144,209 @@ class BluetoothService {
       // Determine which services to request based on device type
       const services = this.getServicesForDeviceType(deviceType);
 
-      // Request device
+      // Request a device advertising any of the services
       const device = await navigator.bluetooth.requestDevice({
-        filters: [{ services }],
-        optionalServices: [SERVICES.BATTERY],
+        filters: services.map((service) => ({ services: [service] })),
+        optionalServices: [...services, SERVICES.BATTERY, SERVICES.DEVICE_INFORMATION, SERVICES.CURRENT_TIME],
       });
 
-      if (!device.gatt) {
-        throw new Error('GATT not available on this device');
+      return await this.setUpDevice(device, deviceType);
+    } catch (error) {
+      console.error('Error connecting to device:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reconnect to a device the user already granted access to, without showing the picker.
+   * Uses navigator.bluetooth.getDevices() after a page reload, where the browser supports it.
+   * Retries with exponential backoff; resolves false if the device could not be reached.
+   */
+  async reconnectDevice(deviceId: string, deviceType: BluetoothDeviceType): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    if (this.isDeviceConnected(deviceId)) return true;
+
+    let device = this.knownDevices.get(deviceId);
+    if (!device && typeof navigator.bluetooth.getDevices === 'function') {
+      const permittedDevices = await navigator.bluetooth.getDevices();
+      device = permittedDevices.find((permitted) => permitted.id === deviceId);
+    }
+
+    if (!device) {
+      console.log(`Device ${deviceId} is not available to reconnect; it must be paired again`);
+      this.emitConnectionChange(deviceId, 'offline');
+      return false;
+    }
+
+    this.cancelReconnect(deviceId);
+    this.deviceTypes.set(deviceId, deviceType);
+
+    for (let attempt = 0; attempt < REQUESTED_RECONNECT_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, reconnectDelayMs(attempt - 1)));
       }
 
-      // Connect to GATT server
-      const server = await device.gatt.connect();
+      if (await this.tryReconnect(device, deviceType)) return true;
+    }
+
+    this.emitConnectionChange(deviceId, 'offline');
+    this.emitError(deviceId, new Error(`Could not reconnect after ${REQUESTED_RECONNECT_ATTEMPTS} attempts`));
+    return false;
+  }
 
-      // Store device
-      this.connectedDevices.set(device.id, device);
+  /**
+   * Connect to the GATT server, read the battery level, and subscribe to measurements
+   */
+  private async setUpDevice(device: BluetoothDevice, deviceType: BluetoothDeviceType): Promise<BluetoothDeviceInfo> {
+    if (!device.gatt) {
+      throw new Error('GATT not available on this device');
+    }
 
-      // Set up disconnect handler
-      device.addEventListener('gattserverdisconnected', () => {
-        console.log(`Device ${device.name} disconnected`);
-        this.connectedDevices.delete(device.id);
-      });
+    // Connect to GATT server
+    const server = await device.gatt.connect();
+    this.abandonedConnections.delete(device.id);
 
-      // Get device info
-      const deviceInfo: BluetoothDeviceInfo = {
-        id: device.id,
-        name: device.name || 'Unknown Device',
-        type: deviceType,
-      };
+    // Store device
+    this.connectedDevices.set(device.id, device);
+    this.deviceTypes.set(device.id, deviceType);
+    this.manualDisconnects.delete(device.id);
 
-      // Try to get battery level
-      try {
-        const batteryService = await server.getPrimaryService(SERVICES.BATTERY);
-        const batteryChar = await batteryService.getCharacteristic(CHARACTERISTICS.BATTERY_LEVEL);
-        const batteryValue = await batteryChar.readValue();
-        deviceInfo.batteryLevel = batteryValue.getUint8(0);
-      } catch (e) {
-        console.log('Battery level not available');
+    // Set up disconnect handler once per device, since reconnects reuse the same object
+    if (!this.knownDevices.has(device.id)) {
+      device.addEventListener('gattserverdisconnected', () => this.handleDisconnect(device));
+    }
+    this.knownDevices.set(device.id, device);
+
+    // Get device info, read again on every connection so firmware updates are noticed
+    const information = await this.readDeviceInformation(server);
+    this.emit('information', { device: this.getDeviceMetadata(device.id), information });
+
+    const deviceInfo: BluetoothDeviceInfo = {
+      id: device.id,
+      name: device.name || 'Unknown Device',
+      type: deviceType,
+      ...information,
+    };
+
+    // Measure clock skew before subscribing, so stored records sent on connect are corrected
+    await this.readClockOffset(server, device.id);
+
+    // Read the battery level and keep it up to date while connected
+    deviceInfo.batteryLevel = await this.subscribeToBattery(server, device.id);
+
+    // Subscribe to characteristics for real-time data
+    await this.subscribeToCharacteristics(server, device.id, deviceType);
+
+    this.emitConnectionChange(device.id, 'online');
+    return deviceInfo;
+  }
+
+  /**
+   * Mark the device offline and, unless the user disconnected it, start reconnecting
+   */
+  private handleDisconnect(device: BluetoothDevice): void {
+    // Closed by tryReconnect, which has already scheduled the next attempt
+    if (this.abandonedConnections.delete(device.id)) return;
+
+    console.log(`Device ${device.name} disconnected`);
+    this.connectedDevices.delete(device.id);
+    this.deviceCharacteristics.delete(device.id);
+    this.clearGlucoseState(device.id);
+    this.emitConnectionChange(device.id, 'offline');
+
+    if (this.manualDisconnects.has(device.id)) return;
+
+    const deviceType = this.deviceTypes.get(device.id);
+    if (deviceType) {
+      this.scheduleReconnect(device, deviceType, 0);
+    }
+  }
+
+  /**
+   * Retry the connection after an exponential backoff delay
+   */
+  private scheduleReconnect(device: BluetoothDevice, deviceType: BluetoothDeviceType, attempt: number): void {
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.log(`Giving up reconnecting to ${device.name} after ${attempt} attempts`);
+      this.emitConnectionChange(device.id, 'offline');
+      this.emitError(device.id, new Error(`Could not reconnect after ${attempt} attempts`));
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(device.id);
+      if (this.manualDisconnects.has(device.id) || this.isDeviceConnected(device.id)) return;
+
+      if (!(await this.tryReconnect(device, deviceType))) {
+        this.scheduleReconnect(device, deviceType, attempt + 1);
       }
+    }, reconnectDelayMs(attempt));
 
-      // Subscribe to characteristics for real-time data
-      await this.subscribeToCharacteristics(server, device.id, deviceType);
+    this.reconnectTimers.set(device.id, timer);
+  }
+
+  private async tryReconnect(device: BluetoothDevice, deviceType: BluetoothDeviceType): Promise<boolean> {
+    this.emitConnectionChange(device.id, 'syncing');
 
-      return deviceInfo;
+    try {
+      await this.setUpDevice(device, deviceType);
+      console.log(`Reconnected to ${device.name}`);
+      return true;
     } catch (error) {
-      console.error('Error connecting to device:', error);
-      throw error;
+      console.log(`Reconnect to ${device.name} failed:`, error);
+      this.abandonConnection(device);
+      return false;
+    }
+  }
+
+  /**
+   * Close a connection whose set-up failed after the GATT server connected. Otherwise
+   * the next attempt would find the device connected and leave it without subscriptions.
+   */
+  private abandonConnection(device: BluetoothDevice): void {
+    this.connectedDevices.delete(device.id);
+    this.deviceCharacteristics.delete(device.id);
+    this.clearGlucoseState(device.id);
+
+    if (device.gatt?.connected) {
+      this.abandonedConnections.add(device.id);
+      device.gatt.disconnect();
     }
   }
 
+  private cancelReconnect(deviceId: string): void {
+    clearTimeout(this.reconnectTimers.get(deviceId));
+    this.reconnectTimers.delete(deviceId);
+  }
+
+  private emitConnectionChange(deviceId: string, status: DeviceConnectionStatus): void {
+    // Retries report 'syncing' on every attempt; only changes are passed on
+    if (this.connectionStatuses.get(deviceId) === status) return;
+    this.connectionStatuses.set(deviceId, status);
+
+    this.emit('connection', { device: this.getDeviceMetadata(deviceId), status });
+  }
+
+  private emitError(deviceId: string, error: Error): void {
+    this.emit('error', { device: this.getDeviceMetadata(deviceId), error });
+  }
+
+  /**
+   * Describe a device for event listeners
+   */
+  private getDeviceMetadata(deviceId: string): DeviceMetadata {
+    return {
+      id: deviceId,
+      name: this.knownDevices.get(deviceId)?.name,
+      type: this.deviceTypes.get(deviceId),
+      source: 'bluetooth',
+    };
+  }
+
   /**
    * Get appropriate services for device type
    */
-  private getServicesForDeviceType(deviceType: string): number[] {
+  private getServicesForDeviceType(deviceType: BluetoothDeviceType): number[] {
     switch (deviceType) {
       case 'heart_rate':
         return [SERVICES.HEART_RATE];
@@ -114,6 +358,9 @@ class BluetoothService {
         return [SERVICES.HEALTH_THERMOMETER];
       case 'pulse_oximeter':
         return [SERVICES.PULSE_OXIMETER];
+      case 'weight_scale':
+        // Body composition scales usually also expose the Weight Scale service, but not always
+        return [SERVICES.WEIGHT_SCALE, SERVICES.BODY_COMPOSITION];
       default:
         return [SERVICES.HEART_RATE]; // Default to heart rate
     }
@@ -125,7 +372,7 @@ class BluetoothService {
   private async subscribeToCharacteristics(
     server: BluetoothRemoteGATTServer,
     deviceId: string,
-    deviceType: string
+    deviceType: BluetoothDeviceType
   ): Promise<void> {
     try {
       switch (deviceType) {
@@ -144,6 +391,9 @@ class BluetoothService {
         case 'pulse_oximeter':
           await this.subscribeToPulseOximeter(server, deviceId);
           break;
+        case 'weight_scale':
+          await this.subscribeToWeightScale(server, deviceId);
+          break;
       }
     } catch (error) {
       console.error('Error subscribing to characteristics:', error);
@@ -151,6 +401,109 @@ class BluetoothService {
     }
   }
 
+  /**
+   * Read the manufacturer, model, serial number, and firmware and hardware revisions.
+   * Fields the device does not provide are left out.
+   */
+  private async readDeviceInformation(server: BluetoothRemoteGATTServer): Promise<DeviceInformation> {
+    const information: DeviceInformation = {};
+
+    let service: BluetoothRemoteGATTService;
+    try {
+      service = await server.getPrimaryService(SERVICES.DEVICE_INFORMATION);
+    } catch {
+      console.log('Device information not available');
+      return information;
+    }
+
+    for (const [field, characteristicUuid] of DEVICE_INFORMATION_FIELDS) {
+      try {
+        const characteristic = await service.getCharacteristic(characteristicUuid);
+        const value = decodeUtf8String(await characteristic.readValue());
+        if (value) {
+          information[field] = value;
+        }
+      } catch {
+        // Every Device Information characteristic is optional
+      }
+    }
+
+    return information;
+  }
+
+  /**
+   * Compare the device clock with ours through the Current Time Service, where the device has one,
+   * so measurement time stamps can be corrected for clock skew
+   */
+  private async readClockOffset(server: BluetoothRemoteGATTServer, deviceId: string): Promise<void> {
+    this.clockOffsets.delete(deviceId);
+
+    try {
+      const service = await server.getPrimaryService(SERVICES.CURRENT_TIME);
+      const characteristic = await service.getCharacteristic(CHARACTERISTICS.CURRENT_TIME);
+      const requestedAt = Date.now();
+      const value = await characteristic.readValue();
+      const deviceTime = this.parseSafely(deviceId, () => parseCurrentTime(value));
+      if (!deviceTime) return;
+
+      // Assume the device read its clock halfway through the round trip
+      const offset = deviceTime.getTime() - (requestedAt + Date.now()) / 2;
+      if (Math.abs(offset) > CLOCK_SKEW_TOLERANCE_MS) {
+        this.clockOffsets.set(deviceId, offset);
+        console.log(`Device ${deviceId} clock is off by ${Math.round(offset / 1000)}s; correcting its time stamps`);
+      }
+    } catch {
+      console.log('Current time not available');
+    }
+  }
+
+  /**
+   * When a measurement was taken: its own time stamp corrected for the device's clock skew,
+   * or now for measurements that carry no time stamp
+   */
+  private measurementTime(deviceId: string, timestamp: Date | undefined): Date {
+    const now = new Date();
+    if (!timestamp) return now;
+
+    const corrected = new Date(timestamp.getTime() - (this.clockOffsets.get(deviceId) ?? 0));
+    return corrected.getTime() - now.getTime() > MAX_FUTURE_TIMESTAMP_MS ? now : corrected;
+  }
+
+  /**
+   * Read the battery level, then subscribe to level changes where the device notifies them.
+   * Resolves undefined if the device has no Battery Service.
+   */
+  private async subscribeToBattery(server: BluetoothRemoteGATTServer, deviceId: string): Promise<number | undefined> {
+    try {
+      const service = await server.getPrimaryService(SERVICES.BATTERY);
+      const characteristic = await service.getCharacteristic(CHARACTERISTICS.BATTERY_LEVEL);
+      const value = await characteristic.readValue();
+      const level = value.getUint8(0);
+      this.emitBatteryLevel(deviceId, level);
+
+      if (characteristic.properties.notify) {
+        await characteristic.startNotifications();
+        characteristic.addEventListener('characteristicvaluechanged', (event: Event) => {
+          const target = event.target as BluetoothRemoteGATTCharacteristic;
+          if (target.value && target.value.byteLength > 0) {
+            this.emitBatteryLevel(deviceId, target.value.getUint8(0));
+          }
+        });
+      }
+
+      return level;
+    } catch {
+      console.log('Battery level not available');
+      return undefined;
+    }
+  }
+
+  private emitBatteryLevel(deviceId: string, level: number): void {
+    // Battery Level is a percentage; larger values are reserved
+    if (level > 100) return;
+    this.emit('battery', { device: this.getDeviceMetadata(deviceId), level });
+  }
+
   /**
    * Subscribe to heart rate measurements
    */
@@ -163,9 +516,15 @@ class BluetoothService {
       const target = event.target as BluetoothRemoteGATTCharacteristic;
       const value = target.value;
       if (value) {
-        const heartRate = value.getUint8(1);
+        const measurement = this.parseSafely(deviceId, () => parseHeartRateMeasurement(value));
+        if (!measurement) return;
+
+        // Sensors that detect skin contact report 0 bpm when not worn
+        if (measurement.sensorContactDetected === false) return;
+
         this.emitReading({
-          heartRate,
+          heartRate: measurement.heartRate,
+          ...(measurement.rrIntervals.length > 0 && { rrIntervals: measurement.rrIntervals }),
           timestamp: new Date(),
           deviceId,
         });
@@ -185,14 +544,16 @@ class BluetoothService {
       const target = event.target as BluetoothRemoteGATTCharacteristic;
       const value = target.value;
       if (value) {
-        // Blood pressure format: flags(1) + systolic(2) + diastolic(2) + MAP(2)
-        const systolic = value.getUint16(1, true);
-        const diastolic = value.getUint16(3, true);
+        const measurement = this.parseSafely(deviceId, () => parseBloodPressureMeasurement(value));
+        if (!measurement || isNaN(measurement.systolic) || isNaN(measurement.diastolic)) return;
 
         this.emitReading({
-          bloodPressureSystolic: systolic,
-          bloodPressureDiastolic: diastolic,
-          timestamp: new Date(),
+          bloodPressureSystolic: toMmHg(measurement.systolic, measurement.unit),
+          bloodPressureDiastolic: toMmHg(measurement.diastolic, measurement.unit),
+          ...(measurement.pulseRate !== undefined && !isNaN(measurement.pulseRate) && {
+            heartRate: measurement.pulseRate,
+          }),
+          timestamp: this.measurementTime(deviceId, measurement.timestamp),
           deviceId,
         });
       }
@@ -200,7 +561,7 @@ class BluetoothService {
   }
 
   /**
-   * Subscribe to glucose measurements
+   * Subscribe to glucose measurements, their context, and the Record Access Control Point
    */
   private async subscribeToGlucose(server: BluetoothRemoteGATTServer, deviceId: string): Promise<void> {
     const service = await server.getPrimaryService(SERVICES.GLUCOSE);
@@ -211,17 +572,155 @@ class BluetoothService {
       const target = event.target as BluetoothRemoteGATTCharacteristic;
       const value = target.value;
       if (value) {
-        // Glucose concentration is in mg/dL (or mmol/L depending on flags)
-        // const flags = value.getUint8(0); // Flags not currently used
-        const glucose = value.getUint16(3, true);
+        const measurement = this.parseSafely(deviceId, () => parseGlucoseMeasurement(value));
+        if (!measurement) return;
 
-        this.emitReading({
-          glucose,
-          timestamp: new Date(),
+        // A context only follows its own measurement, so an earlier pending reading has none
+        this.flushPendingGlucoseReading(deviceId);
+
+        const transfer = this.glucoseTransfers.get(deviceId);
+        if (transfer) {
+          transfer.received++;
+          this.resetGlucoseTransferTimeout(deviceId, transfer);
+        }
+
+        if (measurement.concentration === undefined || !measurement.unit) return;
+        if (isNaN(measurement.concentration)) return;
+
+        const reading: VitalsReading = {
+          glucose: toMgPerDl(measurement.concentration, measurement.unit),
+          sequenceNumber: measurement.sequenceNumber,
+          timestamp: this.measurementTime(deviceId, measurement.timestamp),
+          receivedAt: new Date(),
           deviceId,
-        });
+        };
+
+        if (measurement.contextInformationFollows) {
+          this.pendingGlucoseReadings.set(deviceId, reading);
+        } else {
+          this.emitReading(reading);
+        }
       }
     });
+
+    // Measurement context (meal, exercise, medication) is optional
+    try {
+      const contextCharacteristic = await service.getCharacteristic(CHARACTERISTICS.GLUCOSE_MEASUREMENT_CONTEXT);
+      await contextCharacteristic.startNotifications();
+      contextCharacteristic.addEventListener('characteristicvaluechanged', (event: Event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        const value = target.value;
+        if (value) {
+          const context = this.parseSafely(deviceId, () => parseGlucoseMeasurementContext(value));
+          const pending = this.pendingGlucoseReadings.get(deviceId);
+          if (!context || !pending || pending.sequenceNumber !== context.sequenceNumber) return;
+
+          this.pendingGlucoseReadings.delete(deviceId);
+          this.emitReading({ ...pending, ...(context.meal && { glucoseMeal: context.meal }) });
+        }
+      });
+    } catch {
+      console.log('Glucose measurement context not available');
+    }
+
+    // Stored records are downloaded through the Record Access Control Point
+    try {
+      const racp = await service.getCharacteristic(CHARACTERISTICS.RECORD_ACCESS_CONTROL_POINT);
+      await racp.startNotifications();
+      racp.addEventListener('characteristicvaluechanged', (event: Event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        if (target.value) {
+          this.handleRacpResponse(deviceId, target.value);
+        }
+      });
+      this.recordAccessControlPoints.set(deviceId, racp);
+    } catch {
+      console.log('Record Access Control Point not available');
+    }
+  }
+
+  /**
+   * Download the records a glucose meter stored while it was disconnected.
+   * Requests every record, or only records after `afterSequenceNumber`. Records
+   * are delivered through onData like live readings; resolves with how many arrived.
+   */
+  async requestGlucoseRecords(deviceId: string, afterSequenceNumber?: number): Promise<number> {
+    const racp = this.recordAccessControlPoints.get(deviceId);
+    if (!racp) {
+      throw new Error('This glucose meter does not support downloading stored records');
+    }
+    if (this.glucoseTransfers.has(deviceId)) {
+      throw new Error('Stored records are already being downloaded from this meter');
+    }
+
+    return new Promise<number>((resolve, reject) => {
+      const transfer: GlucoseRecordTransfer = { received: 0, resolve, reject };
+      this.glucoseTransfers.set(deviceId, transfer);
+      this.resetGlucoseTransferTimeout(deviceId, transfer);
+
+      racp.writeValueWithResponse(encodeRacpReportRecords(afterSequenceNumber)).catch((error: Error) => {
+        this.finishGlucoseTransfer(deviceId, error);
+      });
+    });
+  }
+
+  /**
+   * Complete or fail a record transfer when the meter answers the request
+   */
+  private handleRacpResponse(deviceId: string, value: DataView): void {
+    const response = this.parseSafely(deviceId, () => parseRacpResponse(value));
+    if (response?.type !== 'responseCode' || response.requestOpCode !== RACP_OP_CODES.REPORT_STORED_RECORDS) return;
+
+    if (
+      response.responseCode === RACP_RESPONSE_CODES.SUCCESS ||
+      response.responseCode === RACP_RESPONSE_CODES.NO_RECORDS_FOUND
+    ) {
+      this.finishGlucoseTransfer(deviceId);
+    } else {
+      this.finishGlucoseTransfer(
+        deviceId,
+        new Error(`Glucose meter could not report stored records (response code ${response.responseCode})`)
+      );
+    }
+  }
+
+  private resetGlucoseTransferTimeout(deviceId: string, transfer: GlucoseRecordTransfer): void {
+    clearTimeout(transfer.timeout);
+    transfer.timeout = setTimeout(() => {
+      this.finishGlucoseTransfer(deviceId, new Error('Timed out downloading stored glucose records'));
+    }, RACP_TIMEOUT_MS);
+  }
+
+  private finishGlucoseTransfer(deviceId: string, error?: Error): void {
+    const transfer = this.glucoseTransfers.get(deviceId);
+    if (!transfer) return;
+
+    clearTimeout(transfer.timeout);
+    this.glucoseTransfers.delete(deviceId);
+    this.flushPendingGlucoseReading(deviceId);
+
+    if (error) {
+      transfer.reject(error);
+    } else {
+      transfer.resolve(transfer.received);
+    }
+  }
+
+  /**
+   * Emit a glucose reading whose context never arrived
+   */
+  private flushPendingGlucoseReading(deviceId: string): void {
+    const pending = this.pendingGlucoseReadings.get(deviceId);
+    if (!pending) return;
+
+    this.pendingGlucoseReadings.delete(deviceId);
+    this.emitReading(pending);
+  }
+
+  private clearGlucoseState(deviceId: string): void {
+    this.finishGlucoseTransfer(deviceId, new Error('Glucose meter disconnected'));
+    this.flushPendingGlucoseReading(deviceId);
+    this.recordAccessControlPoints.delete(deviceId);
   }
 
   /**
@@ -236,12 +735,12 @@ class BluetoothService {
       const target = event.target as BluetoothRemoteGATTCharacteristic;
       const value = target.value;
       if (value) {
-        // Temperature measurement format: flags(1) + temperature(4 bytes, IEEE-11073 FLOAT)
-        const temperatureValue = value.getFloat32(1, true);
+        const measurement = this.parseSafely(deviceId, () => parseTemperatureMeasurement(value));
+        if (!measurement || isNaN(measurement.temperature)) return;
 
         this.emitReading({
-          temperature: temperatureValue,
-          timestamp: new Date(),
+          temperature: toCelsius(measurement.temperature, measurement.unit),
+          timestamp: this.measurementTime(deviceId, measurement.timestamp),
           deviceId,
         });
       }
@@ -262,65 +761,149 @@ class BluetoothService {
         const target = event.target as BluetoothRemoteGATTCharacteristic;
         const value = target.value;
         if (value) {
-          // Format: flags(1) + SpO2(2) + PR(2)
-          const spo2 = value.getUint16(1, true);
-          const pulseRate = value.getUint16(3, true);
+          this.emitPulseOximeterReading(this.parseSafely(deviceId, () => parsePlxContinuousMeasurement(value)), deviceId);
+        }
+      });
+    } catch {
+      // Fall back to spot check
+      const characteristic = await service.getCharacteristic(CHARACTERISTICS.PLX_SPOT_CHECK);
+      await characteristic.startNotifications();
+      characteristic.addEventListener('characteristicvaluechanged', (event: Event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        const value = target.value;
+        if (value) {
+          this.emitPulseOximeterReading(this.parseSafely(deviceId, () => parsePlxSpotCheckMeasurement(value)), deviceId);
+        }
+      });
+    }
+  }
+
+  /**
+   * Subscribe to weight and body composition measurements
+   * Weight is taken from the Weight Scale service when present, so scales exposing both do not report it twice
+   */
+  private async subscribeToWeightScale(server: BluetoothRemoteGATTServer, deviceId: string): Promise<void> {
+    let hasWeightScale = false;
+
+    try {
+      const service = await server.getPrimaryService(SERVICES.WEIGHT_SCALE);
+      const characteristic = await service.getCharacteristic(CHARACTERISTICS.WEIGHT_MEASUREMENT);
+      await characteristic.startNotifications();
+      characteristic.addEventListener('characteristicvaluechanged', (event: Event) => {
+        const target = event.target as BluetoothRemoteGATTCharacteristic;
+        const value = target.value;
+        if (value) {
+          const measurement = this.parseSafely(deviceId, () => parseWeightMeasurement(value));
+          if (!measurement || isNaN(measurement.weight)) return;
 
           this.emitReading({
-            oxygenLevel: spo2,
-            heartRate: pulseRate,
-            timestamp: new Date(),
+            weight: toKilograms(measurement.weight, measurement.unit),
+            ...(measurement.bmi !== undefined && { bmi: measurement.bmi }),
+            timestamp: this.measurementTime(deviceId, measurement.timestamp),
             deviceId,
           });
         }
       });
+      hasWeightScale = true;
     } catch {
-      // Fall back to spot check
-      const characteristic = await service.getCharacteristic(CHARACTERISTICS.PLX_SPOT_CHECK);
+      console.log('Weight Scale service not available');
+    }
+
+    try {
+      const service = await server.getPrimaryService(SERVICES.BODY_COMPOSITION);
+      const characteristic = await service.getCharacteristic(CHARACTERISTICS.BODY_COMPOSITION_MEASUREMENT);
       await characteristic.startNotifications();
       characteristic.addEventListener('characteristicvaluechanged', (event: Event) => {
         const target = event.target as BluetoothRemoteGATTCharacteristic;
         const value = target.value;
         if (value) {
-          const spo2 = value.getUint16(1, true);
-          const pulseRate = value.getUint16(3, true);
+          const measurement = this.parseSafely(deviceId, () => parseBodyCompositionMeasurement(value));
+          if (!measurement) return;
+
+          const bodyFatPercentage = isNaN(measurement.bodyFatPercentage) ? undefined : measurement.bodyFatPercentage;
+          const weight =
+            !hasWeightScale && measurement.weight !== undefined
+              ? toKilograms(measurement.weight, measurement.unit)
+              : undefined;
+          if (bodyFatPercentage === undefined && weight === undefined) return;
 
           this.emitReading({
-            oxygenLevel: spo2,
-            heartRate: pulseRate,
-            timestamp: new Date(),
+            ...(bodyFatPercentage !== undefined && { bodyFatPercentage }),
+            ...(weight !== undefined && { weight }),
+            timestamp: this.measurementTime(deviceId, measurement.timestamp),
             deviceId,
           });
         }
       });
+    } catch {
+      if (!hasWeightScale) {
+        throw new Error('Device does not expose weight or body composition measurements');
+      }
+      console.log('Body Composition service not available');
     }
   }
 
   /**
-   * Emit vitals reading to callback
+   * Emit a pulse oximeter measurement, skipping values the device marks as unavailable
    */
-  private emitReading(reading: VitalsReading): void {
-    if (this.onDataCallback) {
-      this.onDataCallback(reading);
+  private emitPulseOximeterReading(measurement: PulseOximeterMeasurement | null, deviceId: string): void {
+    if (!measurement || (isNaN(measurement.spo2) && isNaN(measurement.pulseRate))) return;
+
+    this.emitReading({
+      ...(!isNaN(measurement.spo2) && { oxygenLevel: measurement.spo2 }),
+      ...(!isNaN(measurement.pulseRate) && { heartRate: measurement.pulseRate }),
+      // Spot-check timestamps are only trusted when the device reports its clock as set
+      timestamp: this.measurementTime(
+        deviceId,
+        measurement.deviceClockSet !== false ? measurement.timestamp : undefined
+      ),
+      deviceId,
+    });
+  }
+
+  /**
+   * Run a parser, logging and dropping malformed packets instead of throwing from the event handler
+   */
+  private parseSafely<T>(deviceId: string, parse: () => T): T | null {
+    try {
+      return parse();
+    } catch (error) {
+      console.error('Error parsing measurement:', error);
+      this.emitError(deviceId, error instanceof Error ? error : new Error(String(error)));
+      return null;
     }
   }
 
   /**
-   * Set callback for vitals data
+   * Emit vitals reading to listeners
+   */
+  private emitReading(reading: VitalsReading): void {
+    this.emit('reading', {
+      device: this.getDeviceMetadata(reading.deviceId),
+      reading: { ...reading, receivedAt: reading.receivedAt ?? new Date() },
+    });
+  }
+
+  /**
+   * Subscribe to vitals readings
    */
-  onData(callback: (reading: VitalsReading) => void): void {
-    this.onDataCallback = callback;
+  onData(callback: (reading: VitalsReading) => void): Unsubscribe {
+    return this.on('reading', ({ reading }) => callback(reading));
   }
 
   /**
    * Disconnect a device
    */
   async disconnectDevice(deviceId: string): Promise<void> {
+    this.manualDisconnects.add(deviceId);
+    this.cancelReconnect(deviceId);
+
     const device = this.connectedDevices.get(deviceId);
     if (device && device.gatt) {
       device.gatt.disconnect();
       this.connectedDevices.delete(deviceId);
       this.deviceCharacteristics.delete(deviceId);
+      this.clearGlucoseState(deviceId);
     }
   }
 
@@ -331,6 +914,13 @@ class BluetoothService {
     return Array.from(this.connectedDevices.keys());
   }
 
+  /**
+   * Get the type a device was connected as
+   */
+  getDeviceType(deviceId: string): BluetoothDeviceType | undefined {
+    return this.deviceTypes.get(deviceId);
+  }
+
   /**
    * Check if a device is connected
    */
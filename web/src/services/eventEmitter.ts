@@ -0,0 +1,72 @@
+/**
+ * Typed Event Emitter
+ * Lets any number of listeners subscribe to a service's events. Each
+ * subscription returns its own unsubscribe handle, so one listener never
+ * replaces or removes another.
+ */
+
+export type Unsubscribe = () => void;
+
+// A listener may return a promise, which emitAndWait() waits for
+type Listener<T> = (payload: T) => void | Promise<void>;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event; call the returned function to unsubscribe
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    const listeners = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Number of listeners subscribed to an event
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners[event]?.size ?? 0;
+  }
+
+  /**
+   * Deliver an event to every listener. A listener that throws or rejects is
+   * logged and does not stop the others from receiving the event.
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        const result = listener(payload);
+        if (result instanceof Promise) {
+          result.catch((error) => console.error(`Error in ${String(event)} listener:`, error));
+        }
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Deliver an event and wait until every listener has handled it. Rejects if a
+   * listener fails or nothing is listening, so the caller can deliver it again later.
+   */
+  protected async emitAndWait<K extends keyof Events>(event: K, payload: Events[K]): Promise<void> {
+    const listeners = [...(this.listeners[event] ?? [])];
+    if (listeners.length === 0) {
+      throw new Error(`No ${String(event)} listeners`);
+    }
+
+    const results = await Promise.allSettled(listeners.map(async (listener) => listener(payload)));
+    const failure = results.find((result) => result.status === 'rejected');
+    if (failure) throw failure.reason;
+  }
+}
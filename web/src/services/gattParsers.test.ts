@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeDateTime,
+  decodeFloat,
+  decodeSfloat,
+  encodeRacpReportRecords,
+  parseBloodPressureMeasurement,
+  parseBodyCompositionMeasurement,
+  parseGlucoseMeasurement,
+  parseGlucoseMeasurementContext,
+  parseHeartRateMeasurement,
+  parsePlxContinuousMeasurement,
+  parsePlxSpotCheckMeasurement,
+  parseRacpResponse,
+  parseTemperatureMeasurement,
+  parseWeightMeasurement,
+  toKilograms,
+  toMgPerDl,
+  toMmHg,
+} from './gattParsers';
+
+const bytes = (...values: number[]) => new DataView(new Uint8Array(values).buffer);
+
+// 2024-03-15 08:30:00 as a Date Time field
+const DATE_TIME = [0xe8, 0x07, 0x03, 0x0f, 0x08, 0x1e, 0x00];
+const DATE = new Date(2024, 2, 15, 8, 30, 0);
+
+describe('decodeSfloat', () => {
+  it('decodes exponent and mantissa', () => {
+    expect(decodeSfloat(0x0072)).toBe(114);
+    expect(decodeSfloat(0xf16e)).toBe(36.6);
+    expect(decodeSfloat(0xffff)).toBe(-0.1);
+  });
+
+  it('decodes special values to NaN', () => {
+    [0x07ff, 0x0800, 0x07fe, 0x0802, 0x0801].forEach((raw) => {
+      expect(decodeSfloat(raw)).toBeNaN();
+    });
+  });
+
+  it('only treats special mantissas as special with exponent 0', () => {
+    expect(decodeSfloat(0xf7ff)).toBe(204.7);
+    expect(decodeSfloat(0xf800)).toBe(-204.8);
+  });
+});
+
+describe('decodeFloat', () => {
+  it('decodes exponent and mantissa', () => {
+    expect(decodeFloat(0xff00016e)).toBe(36.6);
+    expect(decodeFloat(0x00000064)).toBe(100);
+  });
+
+  it('decodes special values to NaN', () => {
+    [0x007fffff, 0x00800000, 0x007ffffe, 0x00800002, 0x00800001].forEach((raw) => {
+      expect(decodeFloat(raw)).toBeNaN();
+    });
+  });
+
+  it('only treats special mantissas as special with exponent 0', () => {
+    expect(decodeFloat(0xff7fffff)).toBe(838860.7);
+  });
+});
+
+describe('decodeDateTime', () => {
+  it('reads the date as local time', () => {
+    expect(decodeDateTime(bytes(...DATE_TIME), 0)).toEqual(DATE);
+  });
+
+  it('returns undefined for an unknown date', () => {
+    expect(decodeDateTime(bytes(0x00, 0x00, 0x03, 0x0f, 0x08, 0x1e, 0x00), 0)).toBeUndefined();
+  });
+});
+
+describe('parseHeartRateMeasurement', () => {
+  it('reads sensor contact and RR intervals', () => {
+    const measurement = parseHeartRateMeasurement(bytes(0x16, 0x48, 0x00, 0x04, 0x00, 0x02));
+
+    expect(measurement).toEqual({
+      heartRate: 72,
+      sensorContactSupported: true,
+      sensorContactDetected: true,
+      rrIntervals: [1000, 500],
+    });
+  });
+});
+
+describe('parseBloodPressureMeasurement', () => {
+  it('reads the mandatory fields in mmHg', () => {
+    const measurement = parseBloodPressureMeasurement(bytes(0x00, 0x78, 0x00, 0x50, 0x00, 0x5d, 0x00));
+
+    expect(measurement).toEqual({ systolic: 120, diastolic: 80, meanArterialPressure: 93, unit: 'mmHg' });
+  });
+
+  it('reads every optional field in kPa', () => {
+    const measurement = parseBloodPressureMeasurement(
+      bytes(0x1f, 0xa0, 0xf0, 0x6b, 0xf0, 0x7d, 0xf0, ...DATE_TIME, 0x48, 0x00, 0x01, 0x00, 0x00)
+    );
+
+    expect(measurement).toEqual({
+      systolic: 16,
+      diastolic: 10.7,
+      meanArterialPressure: 12.5,
+      unit: 'kPa',
+      timestamp: DATE,
+      pulseRate: 72,
+      userId: 1,
+      measurementStatus: 0,
+    });
+    expect(toMmHg(measurement.systolic, measurement.unit)).toBe(120);
+  });
+
+  it('rejects a packet missing a flagged field', () => {
+    expect(() => parseBloodPressureMeasurement(bytes(0x04, 0x78, 0x00, 0x50, 0x00, 0x5d, 0x00))).toThrow(
+      /too short/
+    );
+  });
+});
+
+describe('parseTemperatureMeasurement', () => {
+  it('reads a FLOAT temperature with timestamp and type', () => {
+    const measurement = parseTemperatureMeasurement(bytes(0x06, 0x6e, 0x01, 0x00, 0xff, ...DATE_TIME, 0x02));
+
+    expect(measurement).toEqual({ temperature: 36.6, unit: 'celsius', timestamp: DATE, temperatureType: 2 });
+  });
+});
+
+describe('parseGlucoseMeasurement', () => {
+  it('reads a kg/L concentration with a time offset', () => {
+    const measurement = parseGlucoseMeasurement(
+      bytes(0x13, 0x05, 0x00, ...DATE_TIME, 0x0f, 0x00, 0x5f, 0xb0, 0x11)
+    );
+
+    expect(measurement).toEqual({
+      sequenceNumber: 5,
+      baseTime: DATE,
+      timeOffset: 15,
+      timestamp: new Date(2024, 2, 15, 8, 45, 0),
+      concentration: 0.00095,
+      unit: 'kg/L',
+      type: 1,
+      sampleLocation: 1,
+      contextInformationFollows: true,
+    });
+    expect(toMgPerDl(0.00095, 'kg/L')).toBe(95);
+  });
+
+  it('reads a mol/L concentration', () => {
+    const measurement = parseGlucoseMeasurement(bytes(0x06, 0x06, 0x00, ...DATE_TIME, 0x35, 0xc0, 0x11));
+
+    expect(measurement.concentration).toBe(0.0053);
+    expect(measurement.unit).toBe('mol/L');
+    expect(measurement.timestamp).toEqual(DATE);
+    expect(toMgPerDl(0.0053, 'mol/L')).toBe(95);
+  });
+});
+
+describe('parseGlucoseMeasurementContext', () => {
+  it('reads carbohydrate, meal and HbA1c', () => {
+    const context = parseGlucoseMeasurementContext(bytes(0x43, 0x05, 0x00, 0x01, 0x32, 0xd0, 0x01, 0x41, 0xf0));
+
+    expect(context).toEqual({
+      sequenceNumber: 5,
+      carbohydrateId: 1,
+      carbohydrate: 50,
+      meal: 'preprandial',
+      hba1c: 6.5,
+    });
+  });
+
+  it('reads medication in milligrams', () => {
+    const context = parseGlucoseMeasurementContext(bytes(0x10, 0x05, 0x00, 0x01, 0x05, 0xc0));
+
+    expect(context).toEqual({ sequenceNumber: 5, medicationId: 1, medication: 500, medicationUnit: 'mg' });
+  });
+});
+
+describe('parseWeightMeasurement', () => {
+  it('reads weight in kg with BMI and height', () => {
+    const measurement = parseWeightMeasurement(bytes(0x08, 0xb0, 0x36, 0xe5, 0x00, 0xd6, 0x06));
+
+    expect(measurement).toEqual({ weight: 70, unit: 'kg', bmi: 22.9, height: 1.75 });
+  });
+
+  it('reads weight in lb', () => {
+    const measurement = parseWeightMeasurement(bytes(0x01, 0x46, 0x3c));
+
+    expect(measurement).toEqual({ weight: 154.3, unit: 'lb' });
+    expect(toKilograms(measurement.weight, measurement.unit)).toBe(70);
+  });
+
+  it('decodes an unsuccessful measurement to NaN', () => {
+    expect(parseWeightMeasurement(bytes(0x00, 0xff, 0xff)).weight).toBeNaN();
+  });
+});
+
+describe('parseBodyCompositionMeasurement', () => {
+  it('reads body fat with user and weight', () => {
+    const measurement = parseBodyCompositionMeasurement(bytes(0x04, 0x04, 0xfd, 0x00, 0x02, 0xb0, 0x36));
+
+    expect(measurement).toEqual({
+      bodyFatPercentage: 25.3,
+      unit: 'kg',
+      multiplePacket: false,
+      userId: 2,
+      weight: 70,
+    });
+  });
+});
+
+describe('parsePlxSpotCheckMeasurement', () => {
+  it('reads SpO2 and pulse rate', () => {
+    expect(parsePlxSpotCheckMeasurement(bytes(0x00, 0x61, 0x00, 0x48, 0x00))).toEqual({
+      spo2: 97,
+      pulseRate: 72,
+      deviceClockSet: true,
+    });
+  });
+
+  it('reads the pulse amplitude index and an unset device clock', () => {
+    expect(parsePlxSpotCheckMeasurement(bytes(0x18, 0x61, 0x00, 0x48, 0x00, 0x19, 0xf0))).toEqual({
+      spo2: 97,
+      pulseRate: 72,
+      deviceClockSet: false,
+      pulseAmplitudeIndex: 2.5,
+    });
+  });
+});
+
+describe('parsePlxContinuousMeasurement', () => {
+  it('skips the fast and slow averages', () => {
+    const measurement = parsePlxContinuousMeasurement(
+      bytes(0x07, 0x5f, 0x00, 0x50, 0x00, 0x60, 0x00, 0x51, 0x00, 0x5e, 0x00, 0x4f, 0x00, 0x20, 0x00)
+    );
+
+    expect(measurement).toEqual({ spo2: 95, pulseRate: 80, measurementStatus: 0x20 });
+  });
+});
+
+describe('RACP', () => {
+  it('encodes a request for all records', () => {
+    expect([...encodeRacpReportRecords()]).toEqual([0x01, 0x01]);
+  });
+
+  it('encodes a request for records after a sequence number', () => {
+    expect([...encodeRacpReportRecords(41)]).toEqual([0x01, 0x03, 0x01, 0x2a, 0x00]);
+    expect([...encodeRacpReportRecords(0xffff)]).toEqual([0x01, 0x03, 0x01, 0x00, 0x00]);
+  });
+
+  it('parses response codes and record counts', () => {
+    expect(parseRacpResponse(bytes(0x06, 0x00, 0x01, 0x01))).toEqual({
+      type: 'responseCode',
+      requestOpCode: 0x01,
+      responseCode: 0x01,
+    });
+    expect(parseRacpResponse(bytes(0x05, 0x00, 0x0a, 0x00))).toEqual({ type: 'numberOfRecords', count: 10 });
+  });
+
+  it('rejects unexpected op codes', () => {
+    expect(() => parseRacpResponse(bytes(0x09, 0x00))).toThrow(/Unexpected RACP op code/);
+  });
+});
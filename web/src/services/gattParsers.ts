@@ -0,0 +1,796 @@
+/**
+ * Bluetooth GATT Measurement Parsers
+ * Decodes the measurement characteristics of the standard health profiles
+ * (Heart Rate, Blood Pressure, Health Thermometer, Glucose, Pulse Oximeter,
+ * Weight Scale, Body Composition)
+ * following the Bluetooth SIG GATT Specification Supplement. Each parser reads
+ * the flags byte to find which optional fields are present, decodes IEEE-11073
+ * SFLOAT/FLOAT values, and reports the unit the device used so callers can
+ * convert to the units stored with vitals (mmHg, °C, mg/dL, kg).
+ *
+ * Also encodes Record Access Control Point (RACP) requests and decodes their
+ * responses, used to download the records a glucose meter stored while it
+ * was disconnected.
+ */
+
+export type PressureUnit = 'mmHg' | 'kPa';
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type GlucoseConcentrationUnit = 'kg/L' | 'mol/L';
+export type MassUnit = 'kg' | 'lb';
+export type GlucoseMeal = 'preprandial' | 'postprandial' | 'fasting' | 'casual' | 'bedtime';
+
+export interface HeartRateMeasurement {
+  heartRate: number;
+  sensorContactSupported: boolean;
+  sensorContactDetected?: boolean; // undefined when the sensor does not support contact detection
+  energyExpended?: number; // kJ
+  rrIntervals: number[]; // milliseconds
+}
+
+export interface BloodPressureMeasurement {
+  systolic: number;
+  diastolic: number;
+  meanArterialPressure: number;
+  unit: PressureUnit;
+  timestamp?: Date;
+  pulseRate?: number;
+  userId?: number;
+  measurementStatus?: number;
+}
+
+export interface TemperatureMeasurement {
+  temperature: number;
+  unit: TemperatureUnit;
+  timestamp?: Date;
+  temperatureType?: number;
+}
+
+export interface GlucoseMeasurement {
+  sequenceNumber: number;
+  baseTime?: Date;
+  timeOffset?: number; // minutes
+  timestamp?: Date; // base time plus time offset
+  concentration?: number;
+  unit?: GlucoseConcentrationUnit;
+  type?: number;
+  sampleLocation?: number;
+  sensorStatus?: number;
+  contextInformationFollows: boolean;
+}
+
+export interface GlucoseMeasurementContext {
+  sequenceNumber: number; // matches the Glucose Measurement it describes
+  extendedFlags?: number;
+  carbohydrateId?: number;
+  carbohydrate?: number; // grams
+  meal?: GlucoseMeal;
+  tester?: number;
+  health?: number;
+  exerciseDuration?: number; // seconds
+  exerciseIntensity?: number; // percent
+  medicationId?: number;
+  medication?: number; // milligrams or millilitres, see medicationUnit
+  medicationUnit?: 'mg' | 'mL';
+  hba1c?: number; // percent
+}
+
+export interface PulseOximeterMeasurement {
+  spo2: number;
+  pulseRate: number;
+  timestamp?: Date;
+  measurementStatus?: number;
+  deviceAndSensorStatus?: number;
+  pulseAmplitudeIndex?: number;
+  deviceClockSet?: boolean;
+}
+
+export interface WeightMeasurement {
+  weight: number;
+  unit: MassUnit;
+  timestamp?: Date;
+  userId?: number;
+  bmi?: number;
+  height?: number; // metres, or inches when unit is 'lb'
+}
+
+export interface BodyCompositionMeasurement {
+  bodyFatPercentage: number;
+  unit: MassUnit;
+  timestamp?: Date;
+  userId?: number;
+  basalMetabolism?: number; // kJ
+  musclePercentage?: number;
+  muscleMass?: number;
+  fatFreeMass?: number;
+  softLeanMass?: number;
+  bodyWaterMass?: number;
+  impedance?: number; // ohms
+  weight?: number;
+  height?: number; // metres, or inches when unit is 'lb'
+  multiplePacket: boolean; // the measurement continues in another packet
+}
+
+// Heart Rate Measurement (0x2A37) flags
+const HR_FLAGS = {
+  VALUE_FORMAT_UINT16: 0x01,
+  SENSOR_CONTACT_DETECTED: 0x02,
+  SENSOR_CONTACT_SUPPORTED: 0x04,
+  ENERGY_EXPENDED_PRESENT: 0x08,
+  RR_INTERVAL_PRESENT: 0x10,
+} as const;
+
+// Blood Pressure Measurement (0x2A35) flags
+const BP_FLAGS = {
+  UNITS_KPA: 0x01,
+  TIMESTAMP_PRESENT: 0x02,
+  PULSE_RATE_PRESENT: 0x04,
+  USER_ID_PRESENT: 0x08,
+  MEASUREMENT_STATUS_PRESENT: 0x10,
+} as const;
+
+// Temperature Measurement (0x2A1C) flags
+const TEMPERATURE_FLAGS = {
+  UNITS_FAHRENHEIT: 0x01,
+  TIMESTAMP_PRESENT: 0x02,
+  TEMPERATURE_TYPE_PRESENT: 0x04,
+} as const;
+
+// Glucose Measurement (0x2A18) flags
+const GLUCOSE_FLAGS = {
+  TIME_OFFSET_PRESENT: 0x01,
+  CONCENTRATION_PRESENT: 0x02,
+  UNITS_MOL_PER_L: 0x04,
+  SENSOR_STATUS_PRESENT: 0x08,
+  CONTEXT_INFORMATION_FOLLOWS: 0x10,
+} as const;
+
+// Glucose Measurement Context (0x2A34) flags
+const GLUCOSE_CONTEXT_FLAGS = {
+  CARBOHYDRATE_PRESENT: 0x01,
+  MEAL_PRESENT: 0x02,
+  TESTER_HEALTH_PRESENT: 0x04,
+  EXERCISE_PRESENT: 0x08,
+  MEDICATION_PRESENT: 0x10,
+  MEDICATION_UNITS_LITERS: 0x20,
+  HBA1C_PRESENT: 0x40,
+  EXTENDED_FLAGS_PRESENT: 0x80,
+} as const;
+
+const GLUCOSE_MEALS: Record<number, GlucoseMeal> = {
+  1: 'preprandial',
+  2: 'postprandial',
+  3: 'fasting',
+  4: 'casual',
+  5: 'bedtime',
+};
+
+// PLX Spot-check Measurement (0x2A5E) flags
+const PLX_SPOT_CHECK_FLAGS = {
+  TIMESTAMP_PRESENT: 0x01,
+  MEASUREMENT_STATUS_PRESENT: 0x02,
+  DEVICE_SENSOR_STATUS_PRESENT: 0x04,
+  PULSE_AMPLITUDE_INDEX_PRESENT: 0x08,
+  DEVICE_CLOCK_NOT_SET: 0x10,
+} as const;
+
+// PLX Continuous Measurement (0x2A5F) flags
+const PLX_CONTINUOUS_FLAGS = {
+  SPO2PR_FAST_PRESENT: 0x01,
+  SPO2PR_SLOW_PRESENT: 0x02,
+  MEASUREMENT_STATUS_PRESENT: 0x04,
+  DEVICE_SENSOR_STATUS_PRESENT: 0x08,
+  PULSE_AMPLITUDE_INDEX_PRESENT: 0x10,
+} as const;
+
+// Weight Measurement (0x2A9D) flags
+const WEIGHT_FLAGS = {
+  UNITS_IMPERIAL: 0x01,
+  TIMESTAMP_PRESENT: 0x02,
+  USER_ID_PRESENT: 0x04,
+  BMI_HEIGHT_PRESENT: 0x08,
+} as const;
+
+// Body Composition Measurement (0x2A9C) flags (16-bit)
+const BODY_COMPOSITION_FLAGS = {
+  UNITS_IMPERIAL: 0x0001,
+  TIMESTAMP_PRESENT: 0x0002,
+  USER_ID_PRESENT: 0x0004,
+  BASAL_METABOLISM_PRESENT: 0x0008,
+  MUSCLE_PERCENTAGE_PRESENT: 0x0010,
+  MUSCLE_MASS_PRESENT: 0x0020,
+  FAT_FREE_MASS_PRESENT: 0x0040,
+  SOFT_LEAN_MASS_PRESENT: 0x0080,
+  BODY_WATER_MASS_PRESENT: 0x0100,
+  IMPEDANCE_PRESENT: 0x0200,
+  WEIGHT_PRESENT: 0x0400,
+  HEIGHT_PRESENT: 0x0800,
+  MULTIPLE_PACKET: 0x1000,
+} as const;
+
+// Resolution of mass and height fields in the weight scale profiles
+const MASS_RESOLUTION = { kg: 0.005, lb: 0.01 } as const;
+const HEIGHT_RESOLUTION = { kg: 0.001, lb: 0.1 } as const;
+
+// IEEE-11073 special values (NaN, NRes, +INFINITY, -INFINITY, reserved), which all have exponent 0
+const SFLOAT_RESERVED = [0x07ff, 0x0800, 0x07fe, 0x0802, 0x0801];
+const FLOAT_RESERVED = [0x7fffff, 0x800000, 0x7ffffe, 0x800002, 0x800001];
+
+const DATE_TIME_LENGTH = 7;
+
+/**
+ * Read-position tracker over a characteristic value
+ * Throws when a field runs past the end, so truncated packets are rejected
+ */
+class GattReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(view: DataView) {
+    this.view = view;
+  }
+
+  private take(length: number): number {
+    if (this.offset + length > this.view.byteLength) {
+      throw new Error(`GATT value too short: needed ${this.offset + length} bytes, got ${this.view.byteLength}`);
+    }
+    const start = this.offset;
+    this.offset += length;
+    return start;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  uint16(): number {
+    return this.view.getUint16(this.take(2), true);
+  }
+
+  sint16(): number {
+    return this.view.getInt16(this.take(2), true);
+  }
+
+  uint24(): number {
+    const start = this.take(3);
+    return this.view.getUint16(start, true) | (this.view.getUint8(start + 2) << 16);
+  }
+
+  sfloat(): number {
+    return decodeSfloat(this.uint16());
+  }
+
+  float(): number {
+    return decodeFloat(this.view.getUint32(this.take(4), true));
+  }
+
+  dateTime(): Date | undefined {
+    const start = this.take(DATE_TIME_LENGTH);
+    return decodeDateTime(this.view, start);
+  }
+
+  remaining(): number {
+    return this.view.byteLength - this.offset;
+  }
+}
+
+/**
+ * Scale a mantissa by a power of ten without binary floating point noise (e.g. 36.6 rather than 36.599999)
+ */
+function scale(mantissa: number, exponent: number): number {
+  const value = mantissa * Math.pow(10, exponent);
+  return exponent < 0 ? Number(value.toFixed(-exponent)) : value;
+}
+
+/**
+ * Multiply a decoded value by a power of ten, e.g. kilograms to grams, without floating point noise
+ */
+function convertUnit(value: number, exponent: number): number {
+  return Number((value * Math.pow(10, exponent)).toPrecision(12));
+}
+
+/**
+ * Decode a 16-bit IEEE-11073 SFLOAT: 4-bit signed exponent, 12-bit signed mantissa
+ * Special values (NaN, NRes, ±INFINITY) decode to NaN
+ */
+export function decodeSfloat(raw: number): number {
+  if (SFLOAT_RESERVED.includes(raw & 0xffff)) return NaN;
+
+  const mantissaBits = raw & 0x0fff;
+  const mantissa = mantissaBits >= 0x0800 ? mantissaBits - 0x1000 : mantissaBits;
+  const exponentBits = (raw >> 12) & 0x0f;
+  const exponent = exponentBits >= 0x08 ? exponentBits - 0x10 : exponentBits;
+
+  return scale(mantissa, exponent);
+}
+
+/**
+ * Decode a 32-bit IEEE-11073 FLOAT: 8-bit signed exponent, 24-bit signed mantissa
+ * Special values (NaN, NRes, ±INFINITY) decode to NaN
+ */
+export function decodeFloat(raw: number): number {
+  if (FLOAT_RESERVED.includes(raw >>> 0)) return NaN;
+
+  const mantissaBits = raw & 0xffffff;
+  const mantissa = mantissaBits >= 0x800000 ? mantissaBits - 0x1000000 : mantissaBits;
+  const exponentBits = (raw >>> 24) & 0xff;
+  const exponent = exponentBits >= 0x80 ? exponentBits - 0x100 : exponentBits;
+
+  return scale(mantissa, exponent);
+}
+
+/**
+ * Decode a 7-byte Date Time field (year, month, day, hours, minutes, seconds)
+ * The device clock has no time zone, so the value is read as local time.
+ * Returns undefined when the year, month, or day is 0 ("not known").
+ */
+export function decodeDateTime(view: DataView, offset: number): Date | undefined {
+  const year = view.getUint16(offset, true);
+  const month = view.getUint8(offset + 2);
+  const day = view.getUint8(offset + 3);
+  if (year === 0 || month === 0 || day === 0) return undefined;
+
+  return new Date(
+    year,
+    month - 1,
+    day,
+    view.getUint8(offset + 4),
+    view.getUint8(offset + 5),
+    view.getUint8(offset + 6)
+  );
+}
+
+/**
+ * Parse a Current Time (0x2A2B) value: Date Time, day of week, 1/256 second fractions,
+ * and the adjust reason. Returns undefined when the device does not know the date.
+ */
+export function parseCurrentTime(view: DataView): Date | undefined {
+  const reader = new GattReader(view);
+  const time = reader.dateTime();
+  reader.uint8(); // Day of week
+  const fractions256 = reader.uint8();
+  if (!time) return undefined;
+
+  return new Date(time.getTime() + Math.round((fractions256 * 1000) / 256));
+}
+
+/**
+ * Decode a UTF-8 string characteristic, such as those of the Device Information Service.
+ * Some devices pad the value with NUL bytes or spaces, which are removed.
+ */
+export function decodeUtf8String(view: DataView): string {
+  return new TextDecoder('utf-8')
+    .decode(new Uint8Array(view.buffer, view.byteOffset, view.byteLength))
+    .replace(/\0+$/, '')
+    .trim();
+}
+
+/**
+ * Parse a Heart Rate Measurement (0x2A37)
+ */
+export function parseHeartRateMeasurement(view: DataView): HeartRateMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const heartRate = flags & HR_FLAGS.VALUE_FORMAT_UINT16 ? reader.uint16() : reader.uint8();
+  const sensorContactSupported = (flags & HR_FLAGS.SENSOR_CONTACT_SUPPORTED) !== 0;
+
+  const measurement: HeartRateMeasurement = {
+    heartRate,
+    sensorContactSupported,
+    sensorContactDetected: sensorContactSupported ? (flags & HR_FLAGS.SENSOR_CONTACT_DETECTED) !== 0 : undefined,
+    rrIntervals: [],
+  };
+
+  if (flags & HR_FLAGS.ENERGY_EXPENDED_PRESENT) {
+    measurement.energyExpended = reader.uint16();
+  }
+
+  if (flags & HR_FLAGS.RR_INTERVAL_PRESENT) {
+    // RR intervals are in units of 1/1024 second and fill the rest of the packet
+    while (reader.remaining() >= 2) {
+      measurement.rrIntervals.push(Math.round((reader.uint16() / 1024) * 1000));
+    }
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a Blood Pressure Measurement (0x2A35)
+ */
+export function parseBloodPressureMeasurement(view: DataView): BloodPressureMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const measurement: BloodPressureMeasurement = {
+    systolic: reader.sfloat(),
+    diastolic: reader.sfloat(),
+    meanArterialPressure: reader.sfloat(),
+    unit: flags & BP_FLAGS.UNITS_KPA ? 'kPa' : 'mmHg',
+  };
+
+  if (flags & BP_FLAGS.TIMESTAMP_PRESENT) {
+    measurement.timestamp = reader.dateTime();
+  }
+  if (flags & BP_FLAGS.PULSE_RATE_PRESENT) {
+    measurement.pulseRate = reader.sfloat();
+  }
+  if (flags & BP_FLAGS.USER_ID_PRESENT) {
+    measurement.userId = reader.uint8();
+  }
+  if (flags & BP_FLAGS.MEASUREMENT_STATUS_PRESENT) {
+    measurement.measurementStatus = reader.uint16();
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a Temperature Measurement (0x2A1C)
+ */
+export function parseTemperatureMeasurement(view: DataView): TemperatureMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const measurement: TemperatureMeasurement = {
+    temperature: reader.float(),
+    unit: flags & TEMPERATURE_FLAGS.UNITS_FAHRENHEIT ? 'fahrenheit' : 'celsius',
+  };
+
+  if (flags & TEMPERATURE_FLAGS.TIMESTAMP_PRESENT) {
+    measurement.timestamp = reader.dateTime();
+  }
+  if (flags & TEMPERATURE_FLAGS.TEMPERATURE_TYPE_PRESENT) {
+    measurement.temperatureType = reader.uint8();
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a Glucose Measurement (0x2A18)
+ */
+export function parseGlucoseMeasurement(view: DataView): GlucoseMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const measurement: GlucoseMeasurement = {
+    sequenceNumber: reader.uint16(),
+    baseTime: reader.dateTime(),
+    contextInformationFollows: (flags & GLUCOSE_FLAGS.CONTEXT_INFORMATION_FOLLOWS) !== 0,
+  };
+
+  if (flags & GLUCOSE_FLAGS.TIME_OFFSET_PRESENT) {
+    measurement.timeOffset = reader.sint16();
+  }
+
+  if (measurement.baseTime) {
+    measurement.timestamp = new Date(measurement.baseTime.getTime() + (measurement.timeOffset ?? 0) * 60 * 1000);
+  }
+
+  if (flags & GLUCOSE_FLAGS.CONCENTRATION_PRESENT) {
+    measurement.concentration = reader.sfloat();
+    measurement.unit = flags & GLUCOSE_FLAGS.UNITS_MOL_PER_L ? 'mol/L' : 'kg/L';
+
+    // Type is the low nibble and sample location the high nibble
+    const typeAndLocation = reader.uint8();
+    measurement.type = typeAndLocation & 0x0f;
+    measurement.sampleLocation = typeAndLocation >> 4;
+  }
+
+  if (flags & GLUCOSE_FLAGS.SENSOR_STATUS_PRESENT) {
+    measurement.sensorStatus = reader.uint16();
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a Glucose Measurement Context (0x2A34)
+ * Sent after a Glucose Measurement whose contextInformationFollows flag is set
+ */
+export function parseGlucoseMeasurementContext(view: DataView): GlucoseMeasurementContext {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const context: GlucoseMeasurementContext = {
+    sequenceNumber: reader.uint16(),
+  };
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.EXTENDED_FLAGS_PRESENT) {
+    context.extendedFlags = reader.uint8();
+  }
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.CARBOHYDRATE_PRESENT) {
+    context.carbohydrateId = reader.uint8();
+    // Carbohydrate is reported in kilograms
+    context.carbohydrate = convertUnit(reader.sfloat(), 3);
+  }
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.MEAL_PRESENT) {
+    context.meal = GLUCOSE_MEALS[reader.uint8()];
+  }
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.TESTER_HEALTH_PRESENT) {
+    // Tester is the low nibble and health the high nibble
+    const testerAndHealth = reader.uint8();
+    context.tester = testerAndHealth & 0x0f;
+    context.health = testerAndHealth >> 4;
+  }
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.EXERCISE_PRESENT) {
+    context.exerciseDuration = reader.uint16();
+    context.exerciseIntensity = reader.uint8();
+  }
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.MEDICATION_PRESENT) {
+    context.medicationId = reader.uint8();
+    // Medication is reported in kilograms or liters
+    const liters = (flags & GLUCOSE_CONTEXT_FLAGS.MEDICATION_UNITS_LITERS) !== 0;
+    context.medication = convertUnit(reader.sfloat(), liters ? 3 : 6);
+    context.medicationUnit = liters ? 'mL' : 'mg';
+  }
+
+  if (flags & GLUCOSE_CONTEXT_FLAGS.HBA1C_PRESENT) {
+    context.hba1c = reader.sfloat();
+  }
+
+  return context;
+}
+
+/**
+ * Multiply a raw unsigned field by its resolution
+ */
+function applyResolution(raw: number, resolution: number): number {
+  return Number((raw * resolution).toPrecision(12));
+}
+
+/**
+ * Parse a Weight Measurement (0x2A9D)
+ * A weight of 0xFFFF means the measurement was unsuccessful and decodes to NaN.
+ */
+export function parseWeightMeasurement(view: DataView): WeightMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+  const unit: MassUnit = flags & WEIGHT_FLAGS.UNITS_IMPERIAL ? 'lb' : 'kg';
+
+  const rawWeight = reader.uint16();
+  const measurement: WeightMeasurement = {
+    weight: rawWeight === 0xffff ? NaN : applyResolution(rawWeight, MASS_RESOLUTION[unit]),
+    unit,
+  };
+
+  if (flags & WEIGHT_FLAGS.TIMESTAMP_PRESENT) {
+    measurement.timestamp = reader.dateTime();
+  }
+  if (flags & WEIGHT_FLAGS.USER_ID_PRESENT) {
+    measurement.userId = reader.uint8();
+  }
+  if (flags & WEIGHT_FLAGS.BMI_HEIGHT_PRESENT) {
+    measurement.bmi = applyResolution(reader.uint16(), 0.1);
+    measurement.height = applyResolution(reader.uint16(), HEIGHT_RESOLUTION[unit]);
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a Body Composition Measurement (0x2A9C)
+ * Scales may split one measurement across packets; each packet is parsed on its own.
+ */
+export function parseBodyCompositionMeasurement(view: DataView): BodyCompositionMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint16();
+  const unit: MassUnit = flags & BODY_COMPOSITION_FLAGS.UNITS_IMPERIAL ? 'lb' : 'kg';
+  const readMass = () => applyResolution(reader.uint16(), MASS_RESOLUTION[unit]);
+
+  const rawBodyFat = reader.uint16();
+  const measurement: BodyCompositionMeasurement = {
+    bodyFatPercentage: rawBodyFat === 0xffff ? NaN : applyResolution(rawBodyFat, 0.1),
+    unit,
+    multiplePacket: (flags & BODY_COMPOSITION_FLAGS.MULTIPLE_PACKET) !== 0,
+  };
+
+  if (flags & BODY_COMPOSITION_FLAGS.TIMESTAMP_PRESENT) {
+    measurement.timestamp = reader.dateTime();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.USER_ID_PRESENT) {
+    measurement.userId = reader.uint8();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.BASAL_METABOLISM_PRESENT) {
+    measurement.basalMetabolism = reader.uint16();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.MUSCLE_PERCENTAGE_PRESENT) {
+    measurement.musclePercentage = applyResolution(reader.uint16(), 0.1);
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.MUSCLE_MASS_PRESENT) {
+    measurement.muscleMass = readMass();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.FAT_FREE_MASS_PRESENT) {
+    measurement.fatFreeMass = readMass();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.SOFT_LEAN_MASS_PRESENT) {
+    measurement.softLeanMass = readMass();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.BODY_WATER_MASS_PRESENT) {
+    measurement.bodyWaterMass = readMass();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.IMPEDANCE_PRESENT) {
+    measurement.impedance = applyResolution(reader.uint16(), 0.1);
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.WEIGHT_PRESENT) {
+    measurement.weight = readMass();
+  }
+  if (flags & BODY_COMPOSITION_FLAGS.HEIGHT_PRESENT) {
+    measurement.height = applyResolution(reader.uint16(), HEIGHT_RESOLUTION[unit]);
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a PLX Spot-check Measurement (0x2A5E)
+ */
+export function parsePlxSpotCheckMeasurement(view: DataView): PulseOximeterMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const measurement: PulseOximeterMeasurement = {
+    spo2: reader.sfloat(),
+    pulseRate: reader.sfloat(),
+    deviceClockSet: (flags & PLX_SPOT_CHECK_FLAGS.DEVICE_CLOCK_NOT_SET) === 0,
+  };
+
+  if (flags & PLX_SPOT_CHECK_FLAGS.TIMESTAMP_PRESENT) {
+    measurement.timestamp = reader.dateTime();
+  }
+  if (flags & PLX_SPOT_CHECK_FLAGS.MEASUREMENT_STATUS_PRESENT) {
+    measurement.measurementStatus = reader.uint16();
+  }
+  if (flags & PLX_SPOT_CHECK_FLAGS.DEVICE_SENSOR_STATUS_PRESENT) {
+    measurement.deviceAndSensorStatus = reader.uint24();
+  }
+  if (flags & PLX_SPOT_CHECK_FLAGS.PULSE_AMPLITUDE_INDEX_PRESENT) {
+    measurement.pulseAmplitudeIndex = reader.sfloat();
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse a PLX Continuous Measurement (0x2A5F)
+ * Only the SpO2PR-Normal values are reported; the fast and slow averages are skipped.
+ */
+export function parsePlxContinuousMeasurement(view: DataView): PulseOximeterMeasurement {
+  const reader = new GattReader(view);
+  const flags = reader.uint8();
+
+  const measurement: PulseOximeterMeasurement = {
+    spo2: reader.sfloat(),
+    pulseRate: reader.sfloat(),
+  };
+
+  if (flags & PLX_CONTINUOUS_FLAGS.SPO2PR_FAST_PRESENT) {
+    reader.sfloat();
+    reader.sfloat();
+  }
+  if (flags & PLX_CONTINUOUS_FLAGS.SPO2PR_SLOW_PRESENT) {
+    reader.sfloat();
+    reader.sfloat();
+  }
+  if (flags & PLX_CONTINUOUS_FLAGS.MEASUREMENT_STATUS_PRESENT) {
+    measurement.measurementStatus = reader.uint16();
+  }
+  if (flags & PLX_CONTINUOUS_FLAGS.DEVICE_SENSOR_STATUS_PRESENT) {
+    measurement.deviceAndSensorStatus = reader.uint24();
+  }
+  if (flags & PLX_CONTINUOUS_FLAGS.PULSE_AMPLITUDE_INDEX_PRESENT) {
+    measurement.pulseAmplitudeIndex = reader.sfloat();
+  }
+
+  return measurement;
+}
+
+/**
+ * Convert a pressure to mmHg
+ */
+export function toMmHg(value: number, unit: PressureUnit): number {
+  return unit === 'kPa' ? Math.round(value * 7.50062) : value;
+}
+
+/**
+ * Convert a temperature to °C, rounded to one decimal place
+ */
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  return unit === 'fahrenheit' ? Math.round(((value - 32) * 5) / 9 * 10) / 10 : value;
+}
+
+/**
+ * Convert a mass to kg, rounded to one decimal place
+ */
+export function toKilograms(value: number, unit: MassUnit): number {
+  return Math.round((unit === 'lb' ? value * 0.45359237 : value) * 10) / 10;
+}
+
+/**
+ * Convert a glucose concentration to mg/dL
+ * kg/L × 100,000 = mg/dL; mol/L × 1000 = mmol/L, and 1 mmol/L of glucose ≈ 18.016 mg/dL
+ */
+export function toMgPerDl(value: number, unit: GlucoseConcentrationUnit): number {
+  return unit === 'mol/L' ? Math.round(value * 1000 * 18.016) : Math.round(value * 100000);
+}
+
+// ============================================
+// RECORD ACCESS CONTROL POINT (0x2A52)
+// ============================================
+
+export const RACP_OP_CODES = {
+  REPORT_STORED_RECORDS: 0x01,
+  DELETE_STORED_RECORDS: 0x02,
+  ABORT_OPERATION: 0x03,
+  REPORT_NUMBER_OF_RECORDS: 0x04,
+  NUMBER_OF_RECORDS_RESPONSE: 0x05,
+  RESPONSE_CODE: 0x06,
+} as const;
+
+const RACP_OPERATORS = {
+  NULL: 0x00,
+  ALL_RECORDS: 0x01,
+  GREATER_THAN_OR_EQUAL: 0x03,
+} as const;
+
+// Records are filtered by sequence number
+const RACP_FILTER_SEQUENCE_NUMBER = 0x01;
+
+export const RACP_RESPONSE_CODES = {
+  SUCCESS: 0x01,
+  OP_CODE_NOT_SUPPORTED: 0x02,
+  INVALID_OPERATOR: 0x03,
+  OPERATOR_NOT_SUPPORTED: 0x04,
+  INVALID_OPERAND: 0x05,
+  NO_RECORDS_FOUND: 0x06,
+  ABORT_UNSUCCESSFUL: 0x07,
+  PROCEDURE_NOT_COMPLETED: 0x08,
+  OPERAND_NOT_SUPPORTED: 0x09,
+} as const;
+
+export type RacpResponse =
+  | { type: 'responseCode'; requestOpCode: number; responseCode: number }
+  | { type: 'numberOfRecords'; count: number };
+
+/**
+ * Build a "report stored records" request for every record, or only records
+ * with a sequence number greater than `afterSequenceNumber`
+ */
+export function encodeRacpReportRecords(afterSequenceNumber?: number): Uint8Array<ArrayBuffer> {
+  if (afterSequenceNumber === undefined) {
+    return new Uint8Array([RACP_OP_CODES.REPORT_STORED_RECORDS, RACP_OPERATORS.ALL_RECORDS]);
+  }
+
+  const from = (afterSequenceNumber + 1) & 0xffff;
+  return new Uint8Array([
+    RACP_OP_CODES.REPORT_STORED_RECORDS,
+    RACP_OPERATORS.GREATER_THAN_OR_EQUAL,
+    RACP_FILTER_SEQUENCE_NUMBER,
+    from & 0xff,
+    from >> 8,
+  ]);
+}
+
+/**
+ * Parse an RACP indication
+ */
+export function parseRacpResponse(view: DataView): RacpResponse {
+  const reader = new GattReader(view);
+  const opCode = reader.uint8();
+  reader.uint8(); // operator, always null in responses
+
+  switch (opCode) {
+    case RACP_OP_CODES.RESPONSE_CODE:
+      return { type: 'responseCode', requestOpCode: reader.uint8(), responseCode: reader.uint8() };
+    case RACP_OP_CODES.NUMBER_OF_RECORDS_RESPONSE:
+      return { type: 'numberOfRecords', count: reader.uint16() };
+    default:
+      throw new Error(`Unexpected RACP op code ${opCode}`);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * HealthKit Vitals Plugin
+ * Bridge to the app's native plugin (ios/App/App/HealthKitVitalsPlugin.swift),
+ * which reads the HealthKit types capacitor-health does not support.
+ */
+
+import { registerPlugin, type PluginListenerHandle } from '@capacitor/core';
+
+export type HealthKitQuantityType =
+  | 'heartRate' // count/min
+  | 'oxygenSaturation' // fraction, 0-1
+  | 'bodyTemperature' // degC
+  | 'bloodGlucose' // mg/dL
+  | 'respiratoryRate' // count/min
+  | 'heartRateVariabilitySDNN'; // ms
+
+export type HealthKitReadType = HealthKitQuantityType | 'bloodPressure';
+
+interface HealthKitSample {
+  uuid: string;
+  startDate: string; // ISO 8601
+  endDate: string; // ISO 8601
+  sourceName?: string;
+}
+
+export interface HealthKitQuantitySample extends HealthKitSample {
+  value: number; // in the type's unit
+}
+
+/**
+ * One HealthKit blood pressure correlation. Systolic and diastolic come from the
+ * same correlation; either may be missing if the source saved only one.
+ */
+export interface HealthKitBloodPressureSample extends HealthKitSample {
+  systolic?: number; // mmHg
+  diastolic?: number; // mmHg
+}
+
+export interface HealthKitDateRange {
+  startDate: string; // ISO 8601
+  endDate: string; // ISO 8601
+}
+
+/**
+ * Samples added to HealthKit since the type's saved anchor, delivered by an
+ * observer query. Save `anchor` once the samples are handled; until then they
+ * are delivered again.
+ */
+export type HealthKitSamplesEvent =
+  | { type: HealthKitQuantityType; samples: HealthKitQuantitySample[]; anchor: string }
+  | { type: 'bloodPressure'; samples: HealthKitBloodPressureSample[]; anchor: string };
+
+export interface HealthKitVitalsPlugin {
+  isAvailable(): Promise<{ available: boolean }>;
+  requestAuthorization(options: { read: HealthKitReadType[] }): Promise<void>;
+  queryQuantitySamples(
+    options: HealthKitDateRange & { type: HealthKitQuantityType }
+  ): Promise<{ samples: HealthKitQuantitySample[] }>;
+  queryBloodPressure(options: HealthKitDateRange): Promise<{ samples: HealthKitBloodPressureSample[] }>;
+  startBackgroundDelivery(options: { types: HealthKitReadType[]; since: string }): Promise<void>;
+  stopBackgroundDelivery(): Promise<void>;
+  getBackgroundDeliveryStatus(): Promise<{ active: boolean; types: HealthKitReadType[] }>;
+  saveAnchor(options: { type: HealthKitReadType; anchor: string }): Promise<void>;
+  addListener(
+    eventName: 'samplesAdded',
+    listener: (event: HealthKitSamplesEvent) => void
+  ): Promise<PluginListenerHandle>;
+}
+
+export const HealthKitVitals = registerPlugin<HealthKitVitalsPlugin>('HealthKitVitals');
@@ -1,38 +1,66 @@
 /**
  * Apple HealthKit Service for iOS devices
  * This service provides access to health data from Apple Health app on iOS devices
- * Requires Capacitor and capacitor-health plugin
+ * Requires Capacitor and the app's HealthKitVitals plugin (ios/App/App/HealthKitVitalsPlugin.swift)
  *
- * NOTE: Current implementation uses capacitor-health plugin which has limited support
- * for medical vitals. Currently only supports heart rate from the required vitals.
- * Full support requires a custom plugin or different solution for:
- * - Blood Pressure (Systolic/Diastolic)
- * - Blood Glucose
- * - Body Temperature
- * - Oxygen Saturation
- * - Respiratory Rate
+ * Reads heart rate, blood pressure, blood glucose, body temperature, oxygen
+ * saturation, respiratory rate and HRV (SDNN). Mapping from HealthKit samples
+ * lives in healthKitVitalsReader.
+ *
+ * New samples are delivered by HealthKit observer queries, which also run while
+ * the app is in the background. Where background delivery cannot be set up,
+ * recent vitals are polled while the app is open instead.
  */
 
-import { Capacitor } from '@capacitor/core';
-import { Health } from 'capacitor-health';
-import type { VitalsReading, DataPoint } from './types';
-
-// HealthKit data types that we need (note: not all are currently supported by capacitor-health)
-// Kept for reference and future custom plugin implementation
-// const HEALTH_KIT_TYPES = {
-//   HEART_RATE: 'HKQuantityTypeIdentifierHeartRate',
-//   BLOOD_PRESSURE_SYSTOLIC: 'HKQuantityTypeIdentifierBloodPressureSystolic',
-//   BLOOD_PRESSURE_DIASTOLIC: 'HKQuantityTypeIdentifierBloodPressureDiastolic',
-//   BLOOD_GLUCOSE: 'HKQuantityTypeIdentifierBloodGlucose',
-//   BODY_TEMPERATURE: 'HKQuantityTypeIdentifierBodyTemperature',
-//   OXYGEN_SATURATION: 'HKQuantityTypeIdentifierOxygenSaturation',
-//   RESPIRATORY_RATE: 'HKQuantityTypeIdentifierRespiratoryRate',
-// };
-
-class HealthKitService {
+import { Capacitor, type PluginListenerHandle } from '@capacitor/core';
+import type { VitalsReading, DataPoint, DeviceEvents, DeviceMetadata } from './types';
+import { TypedEventEmitter, type Unsubscribe } from './eventEmitter';
+import { HealthKitVitals, type HealthKitSamplesEvent } from './healthKitPlugin';
+import { HealthKitVitalsReader, toDeliveredDataPoints } from './healthKitVitalsReader';
+import {
+  INITIAL_SYNC_LOOKBACK_MS,
+  advanceCursor,
+  fetchStart,
+  isAfterCursor,
+  type HealthDataType,
+  type SyncCursor,
+} from './syncCursor';
+
+const APPLE_HEALTH_DEVICE: DeviceMetadata = {
+  id: 'apple-health',
+  name: 'Apple Health',
+  source: 'apple_health',
+};
+
+type DeliveredVital =
+  | 'heartRate'
+  | 'bloodPressureSystolic'
+  | 'bloodPressureDiastolic'
+  | 'glucose'
+  | 'temperature'
+  | 'oxygenLevel'
+  | 'respiration'
+  | 'hrvSdnn';
+
+// Reading field for each data point type produced by the reader
+const DATA_POINT_FIELDS: Record<string, DeliveredVital> = {
+  heartRate: 'heartRate',
+  systolic: 'bloodPressureSystolic',
+  diastolic: 'bloodPressureDiastolic',
+  glucose: 'glucose',
+  temperature: 'temperature',
+  oxygenLevel: 'oxygenLevel',
+  respiration: 'respiration',
+  hrvSdnn: 'hrvSdnn',
+};
+
+class HealthKitService extends TypedEventEmitter<DeviceEvents> {
   private isAuthorized = false;
-  private onDataCallback?: (reading: VitalsReading) => void;
   private syncInterval?: NodeJS.Timeout;
+  // Newest point synced per data type
+  private syncCursor: SyncCursor = {};
+  private reader = new HealthKitVitalsReader(HealthKitVitals);
+  private deliveryListener?: PluginListenerHandle;
 
   /**
    * Check if HealthKit is available on this device
@@ -50,10 +78,10 @@ class HealthKitService {
         return false;
       }
 
-      // Use the Health plugin to check availability
-      const result = await Health.isHealthAvailable();
-      console.log('HealthKit availability check result:', result);
-      return result.available;
+      // Use the HealthKit vitals plugin to check availability
+      const available = await this.reader.isAvailable();
+      console.log('HealthKit availability check result:', available);
+      return available;
     } catch (error) {
       console.error('Error checking HealthKit availability:', error);
       return false;
@@ -69,19 +97,8 @@ class HealthKitService {
     }
 
     try {
-      // Request permissions using capacitor-health API
-      // Note: Currently only heart rate is fully supported by capacitor-health
-      await Health.requestHealthPermissions({
-        permissions: [
-          'READ_HEART_RATE',
-          // TODO: Add other permissions when custom plugin is available
-          // 'READ_BLOOD_PRESSURE',
-          // 'READ_BLOOD_GLUCOSE',
-          // 'READ_BODY_TEMPERATURE',
-          // 'READ_OXYGEN_SATURATION',
-          // 'READ_RESPIRATORY_RATE',
-        ],
-      });
+      // HealthKit does not report which read permissions were denied; denied types return no samples
+      await this.reader.requestAuthorization();
 
       this.isAuthorized = true;
       console.log('HealthKit authorization granted');
@@ -103,99 +120,92 @@ class HealthKitService {
    * Fetch heart rate data from HealthKit
    */
   async fetchHeartRate(startTime: Date, endTime: Date): Promise<DataPoint[]> {
-    if (!this.isAuthorized) {
-      throw new Error('HealthKit not authorized');
-    }
-
-    try {
-      // Query workouts with heart rate data
-      const result = await Health.queryWorkouts({
-        startDate: startTime.toISOString(),
-        endDate: endTime.toISOString(),
-        includeHeartRate: true,
-        includeRoute: false,
-        includeSteps: false,
-      });
-
-      // Extract heart rate samples from workouts
-      const heartRateData: DataPoint[] = [];
-      result.workouts.forEach(workout => {
-        if (workout.heartRate) {
-          workout.heartRate.forEach(sample => {
-            heartRateData.push({
-              value: sample.bpm,
-              timestamp: new Date(sample.timestamp),
-              dataType: 'heartRate',
-            });
-          });
-        }
-      });
-
-      return heartRateData;
-    } catch (error) {
-      console.error('Error fetching heart rate from HealthKit:', error);
-      return [];
-    }
+    return this.fetchDataPoints('heart rate', () => this.reader.fetchHeartRate(startTime, endTime));
   }
 
   /**
    * Fetch blood pressure data from HealthKit
-   * TODO: Not yet implemented - requires custom plugin or different library
    */
-  async fetchBloodPressure(_startTime: Date, _endTime: Date): Promise<DataPoint[]> {
-    console.warn('Blood pressure fetching not yet implemented - requires custom HealthKit plugin');
-    return [];
+  async fetchBloodPressure(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchDataPoints('blood pressure', () => this.reader.fetchBloodPressure(startTime, endTime));
   }
 
   /**
    * Fetch blood glucose data from HealthKit
-   * TODO: Not yet implemented - requires custom plugin or different library
    */
-  async fetchBloodGlucose(_startTime: Date, _endTime: Date): Promise<DataPoint[]> {
-    console.warn('Blood glucose fetching not yet implemented - requires custom HealthKit plugin');
-    return [];
+  async fetchBloodGlucose(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchDataPoints('blood glucose', () => this.reader.fetchBloodGlucose(startTime, endTime));
   }
 
   /**
    * Fetch body temperature data from HealthKit
-   * TODO: Not yet implemented - requires custom plugin or different library
    */
-  async fetchBodyTemperature(_startTime: Date, _endTime: Date): Promise<DataPoint[]> {
-    console.warn('Body temperature fetching not yet implemented - requires custom HealthKit plugin');
-    return [];
+  async fetchBodyTemperature(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchDataPoints('body temperature', () => this.reader.fetchBodyTemperature(startTime, endTime));
   }
 
   /**
    * Fetch oxygen saturation data from HealthKit
-   * TODO: Not yet implemented - requires custom plugin or different library
    */
-  async fetchOxygenSaturation(_startTime: Date, _endTime: Date): Promise<DataPoint[]> {
-    console.warn('Oxygen saturation fetching not yet implemented - requires custom HealthKit plugin');
-    return [];
+  async fetchOxygenSaturation(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchDataPoints('oxygen saturation', () => this.reader.fetchOxygenSaturation(startTime, endTime));
+  }
+
+  /**
+   * Fetch respiratory rate data from HealthKit
+   */
+  async fetchRespiratoryRate(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchDataPoints('respiratory rate', () => this.reader.fetchRespiratoryRate(startTime, endTime));
   }
 
   /**
-   * Fetch all vitals data for a time range
+   * Fetch heart rate variability (SDNN) data from HealthKit
    */
-  async fetchAllVitals(startTime: Date, endTime: Date): Promise<VitalsReading[]> {
+  async fetchHeartRateVariability(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchDataPoints('heart rate variability', () => this.reader.fetchHeartRateVariability(startTime, endTime));
+  }
+
+  private async fetchDataPoints(label: string, fetch: () => Promise<DataPoint[]>): Promise<DataPoint[]> {
     if (!this.isAuthorized) {
       throw new Error('HealthKit not authorized');
     }
 
     try {
-      const [heartRate, bloodPressure, glucose, temperature, oxygen] = await Promise.all([
-        this.fetchHeartRate(startTime, endTime),
-        this.fetchBloodPressure(startTime, endTime),
-        this.fetchBloodGlucose(startTime, endTime),
-        this.fetchBodyTemperature(startTime, endTime),
-        this.fetchOxygenSaturation(startTime, endTime),
+      return await fetch();
+    } catch (error) {
+      console.error(`Error fetching ${label} from HealthKit:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch all vitals data for a time range.
+   * Data types with a sync cursor are only fetched from just after it.
+   */
+  async fetchAllVitals(startTime: Date, endTime: Date, cursor: SyncCursor = {}): Promise<VitalsReading[]> {
+    if (!this.isAuthorized) {
+      throw new Error('HealthKit not authorized');
+    }
+
+    try {
+      const [heartRate, bloodPressure, glucose, temperature, oxygen, respiration, hrv] = await Promise.all([
+        this.fetchHeartRate(fetchStart(cursor, 'heartRate', startTime), endTime),
+        this.fetchBloodPressure(fetchStart(cursor, 'bloodPressure', startTime), endTime),
+        this.fetchBloodGlucose(fetchStart(cursor, 'glucose', startTime), endTime),
+        this.fetchBodyTemperature(fetchStart(cursor, 'temperature', startTime), endTime),
+        this.fetchOxygenSaturation(fetchStart(cursor, 'oxygenLevel', startTime), endTime),
+        this.fetchRespiratoryRate(fetchStart(cursor, 'respiration', startTime), endTime),
+        this.fetchHeartRateVariability(fetchStart(cursor, 'hrv', startTime), endTime),
       ]);
 
+      // Fetch ranges are inclusive, so drop points at the cursor itself
+      const isNew = (type: HealthDataType) => (point: DataPoint) => isAfterCursor(cursor, type, point.timestamp);
+
       // Combine all data points by timestamp
       const vitalsMap = new Map<number, VitalsReading>();
 
       // Process heart rate
-      heartRate.forEach(point => {
+      heartRate.filter(isNew('heartRate')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -207,7 +217,7 @@ class HealthKitService {
       });
 
       // Process blood pressure
-      bloodPressure.forEach(point => {
+      bloodPressure.filter(isNew('bloodPressure')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -224,7 +234,7 @@ class HealthKitService {
       });
 
       // Process glucose
-      glucose.forEach(point => {
+      glucose.filter(isNew('glucose')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -236,7 +246,7 @@ class HealthKitService {
       });
 
       // Process temperature
-      temperature.forEach(point => {
+      temperature.filter(isNew('temperature')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -248,7 +258,7 @@ class HealthKitService {
       });
 
       // Process oxygen
-      oxygen.forEach(point => {
+      oxygen.filter(isNew('oxygenLevel')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -259,6 +269,30 @@ class HealthKitService {
         vitalsMap.get(timestamp)!.oxygenLevel = point.value;
       });
 
+      // Process respiratory rate
+      respiration.filter(isNew('respiration')).forEach(point => {
+        const timestamp = point.timestamp.getTime();
+        if (!vitalsMap.has(timestamp)) {
+          vitalsMap.set(timestamp, {
+            timestamp: point.timestamp,
+            deviceId: 'apple-health',
+          });
+        }
+        vitalsMap.get(timestamp)!.respiration = point.value;
+      });
+
+      // Process HRV
+      hrv.filter(isNew('hrv')).forEach(point => {
+        const timestamp = point.timestamp.getTime();
+        if (!vitalsMap.has(timestamp)) {
+          vitalsMap.set(timestamp, {
+            timestamp: point.timestamp,
+            deviceId: 'apple-health',
+          });
+        }
+        vitalsMap.get(timestamp)!.hrvSdnn = point.value;
+      });
+
       return Array.from(vitalsMap.values()).sort((a, b) =>
         a.timestamp.getTime() - b.timestamp.getTime()
       );
@@ -270,13 +304,17 @@ class HealthKitService {
 
 
   /**
-   * Start automatic sync of vitals data
+   * Start automatic sync of vitals data, through background delivery where possible
    */
-  startAutoSync(intervalMinutes: number = 5): void {
+  async startAutoSync(intervalMinutes: number = 5): Promise<void> {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
     }
 
+    if (await this.startBackgroundDelivery()) {
+      return;
+    }
+
     // Initial sync
     this.syncRecentVitals();
 
@@ -297,35 +335,125 @@ class HealthKitService {
   }
 
   /**
-   * Sync recent vitals (last hour)
+   * Register HealthKit observer queries and listen for the samples they deliver
+   */
+  private async startBackgroundDelivery(): Promise<boolean> {
+    try {
+      await this.listenForDeliveredSamples();
+      await this.reader.startBackgroundDelivery(new Date(Date.now() - INITIAL_SYNC_LOOKBACK_MS));
+      return true;
+    } catch (error) {
+      console.error('HealthKit background delivery unavailable, polling instead:', error);
+      await this.stopListeningForDeliveredSamples();
+      return false;
+    }
+  }
+
+  /**
+   * Pick up background delivery registered in an earlier session. HealthKit
+   * relaunches the app to deliver samples, and they wait until a listener is attached.
+   * Returns whether delivery was active.
+   */
+  async resumeBackgroundDelivery(): Promise<boolean> {
+    if (!Capacitor.isNativePlatform() || Capacitor.getPlatform() !== 'ios') {
+      return false;
+    }
+
+    try {
+      if (!(await this.reader.isBackgroundDeliveryActive())) {
+        return false;
+      }
+
+      // Authorization was granted when delivery was started
+      this.isAuthorized = true;
+      await this.listenForDeliveredSamples();
+      return true;
+    } catch (error) {
+      console.error('Error resuming HealthKit background delivery:', error);
+      return false;
+    }
+  }
+
+  private async listenForDeliveredSamples(): Promise<void> {
+    if (this.deliveryListener) return;
+
+    this.deliveryListener = await this.reader.onSamplesDelivered((event) => {
+      this.handleDeliveredSamples(event).catch((error) => {
+        console.error('Error handling delivered HealthKit samples:', error);
+      });
+    });
+  }
+
+  private async stopListeningForDeliveredSamples(): Promise<void> {
+    await this.deliveryListener?.remove();
+    this.deliveryListener = undefined;
+  }
+
+  /**
+   * Emit delivered samples as readings, then save the anchor so they are not delivered again.
+   * The anchor is only saved once every reading has been queued for upload; otherwise
+   * HealthKit delivers the samples again. Each sample is delivered once, so readings are
+   * flagged to skip sync cursor checks.
+   */
+  private async handleDeliveredSamples(event: HealthKitSamplesEvent): Promise<void> {
+    const readings = this.toReadings(toDeliveredDataPoints(event));
+
+    for (const reading of readings) {
+      this.syncCursor = advanceCursor(this.syncCursor, reading);
+      await this.emitAndWait('reading', { device: APPLE_HEALTH_DEVICE, reading, incremental: true });
+    }
+
+    await this.reader.saveAnchor(event);
+  }
+
+  /**
+   * Combine data points recorded at the same time into readings
+   */
+  private toReadings(points: DataPoint[]): VitalsReading[] {
+    const vitalsMap = new Map<number, VitalsReading>();
+
+    points.forEach((point) => {
+      const field = DATA_POINT_FIELDS[point.dataType];
+      if (!field) return;
+
+      const timestamp = point.timestamp.getTime();
+      const reading = vitalsMap.get(timestamp) ?? { timestamp: point.timestamp, deviceId: APPLE_HEALTH_DEVICE.id };
+      reading[field] = point.value;
+      vitalsMap.set(timestamp, reading);
+    });
+
+    return Array.from(vitalsMap.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Sync vitals recorded since the last sync
    */
   private async syncRecentVitals(): Promise<void> {
     if (!this.isAuthorized) {
       return;
     }
 
-    const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - 60 * 60 * 1000); // Last hour
-
     try {
-      const vitals = await this.fetchAllVitals(startTime, endTime);
+      const vitals = await this.fetchNewVitals();
 
       // Emit each reading
       vitals.forEach(reading => {
-        if (this.onDataCallback) {
-          this.onDataCallback(reading);
-        }
+        this.emit('reading', { device: APPLE_HEALTH_DEVICE, reading });
       });
     } catch (error) {
       console.error('Error syncing recent vitals from HealthKit:', error);
+      this.emit('error', {
+        device: APPLE_HEALTH_DEVICE,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
     }
   }
 
   /**
-   * Set callback for vitals data
+   * Subscribe to vitals readings
    */
-  onData(callback: (reading: VitalsReading) => void): void {
-    this.onDataCallback = callback;
+  onData(callback: (reading: VitalsReading) => void): Unsubscribe {
+    return this.on('reading', ({ reading }) => callback(reading));
   }
 
   /**
@@ -334,20 +462,46 @@ class HealthKitService {
   async disconnect(): Promise<void> {
     this.isAuthorized = false;
     this.stopAutoSync();
+
+    if (this.deliveryListener) {
+      await this.stopListeningForDeliveredSamples();
+      await this.reader.stopBackgroundDelivery().catch((error) => {
+        console.error('Error stopping HealthKit background delivery:', error);
+      });
+    }
   }
 
   /**
-   * Manual sync - fetch vitals for the last 24 hours
+   * Manual sync - fetch vitals recorded since the last sync
    */
   async manualSync(): Promise<VitalsReading[]> {
     if (!this.isAuthorized) {
       throw new Error('HealthKit not authorized');
     }
 
+    return this.fetchNewVitals();
+  }
+
+  /**
+   * Fetch points newer than the sync cursor, up to 24 hours back on the first sync, and advance the cursor
+   */
+  private async fetchNewVitals(): Promise<VitalsReading[]> {
     const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - 24 * 60 * 60 * 1000); // Last 24 hours
+    const startTime = new Date(endTime.getTime() - INITIAL_SYNC_LOOKBACK_MS);
 
-    return this.fetchAllVitals(startTime, endTime);
+    const vitals = await this.fetchAllVitals(startTime, endTime, this.syncCursor);
+    vitals.forEach((reading) => {
+      this.syncCursor = advanceCursor(this.syncCursor, reading);
+    });
+
+    return vitals;
+  }
+
+  /**
+   * Resume from the cursor saved by the signed-in user's earlier sessions
+   */
+  restoreSyncCursor(cursor: SyncCursor): void {
+    this.syncCursor = cursor;
   }
 }
 
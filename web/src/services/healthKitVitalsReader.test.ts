@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import type { PluginListenerHandle } from '@capacitor/core';
+import { HEALTH_KIT_READ_TYPES, HealthKitVitalsReader } from './healthKitVitalsReader';
+import type {
+  HealthKitBloodPressureSample,
+  HealthKitDateRange,
+  HealthKitQuantitySample,
+  HealthKitQuantityType,
+  HealthKitReadType,
+  HealthKitSamplesEvent,
+  HealthKitVitalsPlugin,
+} from './healthKitPlugin';
+
+/**
+ * Stands in for the native plugin, serving canned samples and recording what the reader asks for
+ */
+class FakeHealthKitVitalsPlugin implements HealthKitVitalsPlugin {
+  quantitySamples: Partial<Record<HealthKitQuantityType, HealthKitQuantitySample[]>> = {};
+  bloodPressureSamples: HealthKitBloodPressureSample[] = [];
+  authorized: HealthKitReadType[] = [];
+  deliveryTypes: HealthKitReadType[] = [];
+  savedAnchors: { type: HealthKitReadType; anchor: string }[] = [];
+  queries: (HealthKitDateRange & { type: HealthKitReadType })[] = [];
+  private listeners: ((event: HealthKitSamplesEvent) => void)[] = [];
+
+  async isAvailable() {
+    return { available: true };
+  }
+
+  async requestAuthorization({ read }: { read: HealthKitReadType[] }) {
+    this.authorized = read;
+  }
+
+  async queryQuantitySamples(options: HealthKitDateRange & { type: HealthKitQuantityType }) {
+    this.queries.push(options);
+    return { samples: this.quantitySamples[options.type] ?? [] };
+  }
+
+  async queryBloodPressure(options: HealthKitDateRange) {
+    this.queries.push({ ...options, type: 'bloodPressure' });
+    return { samples: this.bloodPressureSamples };
+  }
+
+  async startBackgroundDelivery({ types }: { types: HealthKitReadType[]; since: string }) {
+    this.deliveryTypes = types;
+  }
+
+  async stopBackgroundDelivery() {
+    this.deliveryTypes = [];
+  }
+
+  async getBackgroundDeliveryStatus() {
+    return { active: this.deliveryTypes.length > 0, types: this.deliveryTypes };
+  }
+
+  async saveAnchor(options: { type: HealthKitReadType; anchor: string }) {
+    this.savedAnchors.push(options);
+  }
+
+  async addListener(
+    _eventName: 'samplesAdded',
+    listener: (event: HealthKitSamplesEvent) => void
+  ): Promise<PluginListenerHandle> {
+    this.listeners.push(listener);
+    return {
+      remove: async () => {
+        this.listeners = this.listeners.filter((registered) => registered !== listener);
+      },
+    };
+  }
+
+  deliver(event: HealthKitSamplesEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+const START = new Date('2024-03-15T08:00:00Z');
+const END = new Date('2024-03-15T09:00:00Z');
+
+function quantitySample(value: number, startDate: string): HealthKitQuantitySample {
+  return { uuid: `sample-${startDate}`, startDate, endDate: startDate, value };
+}
+
+function bloodPressureSample(
+  startDate: string,
+  values: Pick<HealthKitBloodPressureSample, 'systolic' | 'diastolic'>
+): HealthKitBloodPressureSample {
+  return { uuid: `bp-${startDate}`, startDate, endDate: startDate, ...values };
+}
+
+describe('HealthKitVitalsReader', () => {
+  it('queries the requested range', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    const reader = new HealthKitVitalsReader(plugin);
+
+    await reader.fetchHeartRate(START, END);
+
+    expect(plugin.queries).toEqual([
+      { type: 'heartRate', startDate: '2024-03-15T08:00:00.000Z', endDate: '2024-03-15T09:00:00.000Z' },
+    ]);
+  });
+
+  it('scales oxygen saturation from a fraction to a percentage', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    plugin.quantitySamples.oxygenSaturation = [
+      quantitySample(0.97, '2024-03-15T08:10:00Z'),
+      quantitySample(0.925, '2024-03-15T08:20:00Z'),
+    ];
+    const reader = new HealthKitVitalsReader(plugin);
+
+    expect(await reader.fetchOxygenSaturation(START, END)).toEqual([
+      { value: 97, timestamp: new Date('2024-03-15T08:10:00Z'), dataType: 'oxygenLevel' },
+      { value: 92.5, timestamp: new Date('2024-03-15T08:20:00Z'), dataType: 'oxygenLevel' },
+    ]);
+  });
+
+  it('leaves other quantities in their HealthKit unit', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    plugin.quantitySamples.bodyTemperature = [quantitySample(36.84, '2024-03-15T08:10:00Z')];
+    const reader = new HealthKitVitalsReader(plugin);
+
+    expect(await reader.fetchBodyTemperature(START, END)).toEqual([
+      { value: 36.8, timestamp: new Date('2024-03-15T08:10:00Z'), dataType: 'temperature' },
+    ]);
+  });
+
+  it('filters out non-finite values', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    plugin.quantitySamples.heartRate = [
+      quantitySample(NaN, '2024-03-15T08:10:00Z'),
+      quantitySample(Infinity, '2024-03-15T08:20:00Z'),
+      quantitySample(72, '2024-03-15T08:30:00Z'),
+    ];
+    const reader = new HealthKitVitalsReader(plugin);
+
+    expect(await reader.fetchHeartRate(START, END)).toEqual([
+      { value: 72, timestamp: new Date('2024-03-15T08:30:00Z'), dataType: 'heartRate' },
+    ]);
+  });
+
+  it('pairs systolic and diastolic from the same correlation', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    plugin.bloodPressureSamples = [
+      bloodPressureSample('2024-03-15T08:10:00Z', { systolic: 121.4, diastolic: 79.6 }),
+      bloodPressureSample('2024-03-15T08:20:00Z', { systolic: 135 }),
+      bloodPressureSample('2024-03-15T08:30:00Z', { diastolic: 88 }),
+      bloodPressureSample('2024-03-15T08:40:00Z', { systolic: 118, diastolic: 76 }),
+    ];
+    const reader = new HealthKitVitalsReader(plugin);
+
+    const first = new Date('2024-03-15T08:10:00Z');
+    const last = new Date('2024-03-15T08:40:00Z');
+    expect(await reader.fetchBloodPressure(START, END)).toEqual([
+      { value: 121, timestamp: first, dataType: 'systolic' },
+      { value: 80, timestamp: first, dataType: 'diastolic' },
+      { value: 118, timestamp: last, dataType: 'systolic' },
+      { value: 76, timestamp: last, dataType: 'diastolic' },
+    ]);
+  });
+
+  it('requests authorization and background delivery for every read type', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    const reader = new HealthKitVitalsReader(plugin);
+
+    await reader.requestAuthorization();
+    await reader.startBackgroundDelivery(START);
+
+    expect(plugin.authorized).toEqual(HEALTH_KIT_READ_TYPES);
+    expect(await reader.isBackgroundDeliveryActive()).toBe(true);
+  });
+
+  it('passes delivered samples on and saves their anchor when asked', async () => {
+    const plugin = new FakeHealthKitVitalsPlugin();
+    const reader = new HealthKitVitalsReader(plugin);
+    const events: HealthKitSamplesEvent[] = [];
+
+    await reader.onSamplesDelivered((event) => events.push(event));
+    const event: HealthKitSamplesEvent = {
+      type: 'oxygenSaturation',
+      samples: [quantitySample(0.95, '2024-03-15T08:10:00Z')],
+      anchor: 'anchor-1',
+    };
+    plugin.deliver(event);
+    await reader.saveAnchor(event);
+
+    expect(events).toEqual([event]);
+    expect(plugin.savedAnchors).toEqual([{ type: 'oxygenSaturation', anchor: 'anchor-1' }]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * HealthKit Vitals Reader
+ * Maps samples from the HealthKit vitals plugin to data points, whether queried
+ * for a time range or delivered in the background. The plugin is passed in, so
+ * the mapping can be exercised with a fake plugin.
+ */
+
+import type { PluginListenerHandle } from '@capacitor/core';
+import type {
+  HealthKitBloodPressureSample,
+  HealthKitQuantitySample,
+  HealthKitQuantityType,
+  HealthKitReadType,
+  HealthKitSamplesEvent,
+  HealthKitVitalsPlugin,
+} from './healthKitPlugin';
+import type { DataPoint } from './types';
+
+// Every type the app reads from HealthKit
+export const HEALTH_KIT_READ_TYPES: HealthKitReadType[] = [
+  'heartRate',
+  'bloodPressure',
+  'oxygenSaturation',
+  'bodyTemperature',
+  'bloodGlucose',
+  'respiratoryRate',
+  'heartRateVariabilitySDNN',
+];
+
+// Data type each quantity type is stored as, and the factor to the unit the app stores
+const QUANTITY_DATA_TYPES: Record<HealthKitQuantityType, { dataType: string; scale: number }> = {
+  heartRate: { dataType: 'heartRate', scale: 1 },
+  oxygenSaturation: { dataType: 'oxygenLevel', scale: 100 }, // HealthKit reports SpO2 as a fraction
+  bodyTemperature: { dataType: 'temperature', scale: 1 },
+  bloodGlucose: { dataType: 'glucose', scale: 1 },
+  respiratoryRate: { dataType: 'respiration', scale: 1 },
+  heartRateVariabilitySDNN: { dataType: 'hrvSdnn', scale: 1 },
+};
+
+/**
+ * Quantity samples as data points, scaled to the unit the app stores
+ */
+export function toDataPoints(samples: HealthKitQuantitySample[], dataType: string, scale: number = 1): DataPoint[] {
+  return samples
+    .filter((sample) => Number.isFinite(sample.value))
+    .map((sample) => ({
+      value: Math.round(sample.value * scale * 10) / 10,
+      timestamp: new Date(sample.startDate),
+      dataType,
+    }));
+}
+
+/**
+ * Systolic and diastolic data points from blood pressure correlations. A
+ * correlation missing either value is skipped, so a systolic value is never
+ * paired with another measurement's diastolic.
+ */
+export function toBloodPressurePoints(samples: HealthKitBloodPressureSample[]): DataPoint[] {
+  const dataPoints: DataPoint[] = [];
+
+  samples.forEach((sample) => {
+    if (sample.systolic === undefined || sample.diastolic === undefined) return;
+
+    const timestamp = new Date(sample.startDate);
+    dataPoints.push(
+      { value: Math.round(sample.systolic), timestamp, dataType: 'systolic' },
+      { value: Math.round(sample.diastolic), timestamp, dataType: 'diastolic' }
+    );
+  });
+
+  return dataPoints;
+}
+
+/**
+ * Data points from samples delivered by a background observer query
+ */
+export function toDeliveredDataPoints(event: HealthKitSamplesEvent): DataPoint[] {
+  if (event.type === 'bloodPressure') {
+    return toBloodPressurePoints(event.samples);
+  }
+
+  const { dataType, scale } = QUANTITY_DATA_TYPES[event.type];
+  return toDataPoints(event.samples, dataType, scale);
+}
+
+export class HealthKitVitalsReader {
+  private readonly plugin: HealthKitVitalsPlugin;
+
+  constructor(plugin: HealthKitVitalsPlugin) {
+    this.plugin = plugin;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const { available } = await this.plugin.isAvailable();
+    return available;
+  }
+
+  requestAuthorization(): Promise<void> {
+    return this.plugin.requestAuthorization({ read: HEALTH_KIT_READ_TYPES });
+  }
+
+  fetchHeartRate(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchQuantity('heartRate', startTime, endTime);
+  }
+
+  async fetchBloodPressure(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    const { samples } = await this.plugin.queryBloodPressure({
+      startDate: startTime.toISOString(),
+      endDate: endTime.toISOString(),
+    });
+    return toBloodPressurePoints(samples);
+  }
+
+  fetchOxygenSaturation(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchQuantity('oxygenSaturation', startTime, endTime);
+  }
+
+  fetchBodyTemperature(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchQuantity('bodyTemperature', startTime, endTime);
+  }
+
+  fetchBloodGlucose(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchQuantity('bloodGlucose', startTime, endTime);
+  }
+
+  fetchRespiratoryRate(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchQuantity('respiratoryRate', startTime, endTime);
+  }
+
+  fetchHeartRateVariability(startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    return this.fetchQuantity('heartRateVariabilitySDNN', startTime, endTime);
+  }
+
+  /**
+   * Register observer queries for every read type. Until a type's first anchor
+   * is saved, only samples recorded after `since` are delivered.
+   */
+  startBackgroundDelivery(since: Date): Promise<void> {
+    return this.plugin.startBackgroundDelivery({ types: HEALTH_KIT_READ_TYPES, since: since.toISOString() });
+  }
+
+  /**
+   * Stop observing and forget the saved anchors
+   */
+  stopBackgroundDelivery(): Promise<void> {
+    return this.plugin.stopBackgroundDelivery();
+  }
+
+  /**
+   * Whether observer queries were registered, possibly in an earlier app session
+   */
+  async isBackgroundDeliveryActive(): Promise<boolean> {
+    const { active } = await this.plugin.getBackgroundDeliveryStatus();
+    return active;
+  }
+
+  /**
+   * Receive delivered samples. Call `saveAnchor` with the event once its samples are stored.
+   */
+  onSamplesDelivered(callback: (event: HealthKitSamplesEvent) => void): Promise<PluginListenerHandle> {
+    return this.plugin.addListener('samplesAdded', callback);
+  }
+
+  saveAnchor(event: HealthKitSamplesEvent): Promise<void> {
+    return this.plugin.saveAnchor({ type: event.type, anchor: event.anchor });
+  }
+
+  private async fetchQuantity(type: HealthKitQuantityType, startTime: Date, endTime: Date): Promise<DataPoint[]> {
+    const { samples } = await this.plugin.queryQuantitySamples({
+      type,
+      startDate: startTime.toISOString(),
+      endDate: endTime.toISOString(),
+    });
+
+    const { dataType, scale } = QUANTITY_DATA_TYPES[type];
+    return toDataPoints(samples, dataType, scale);
+  }
+}
@@ -3,8 +3,24 @@
  * This service provides a unified interface for accessing health data from various platforms
  */
 
-import type { VitalsReading, HealthPlatformConfig, DataPoint } from './types';
+import type {
+  VitalsReading,
+  HealthPlatformConfig,
+  DataPoint,
+  DeviceConnectionStatus,
+  DeviceEvents,
+  DeviceMetadata,
+} from './types';
+import { TypedEventEmitter, type Unsubscribe } from './eventEmitter';
 import { healthKitService } from './healthKitService';
+import {
+  INITIAL_SYNC_LOOKBACK_MS,
+  advanceCursor,
+  fetchStart,
+  isAfterCursor,
+  type HealthDataType,
+  type SyncCursor,
+} from './syncCursor';
 
 // Google Fit API configuration
 const GOOGLE_FIT_SCOPES = [
@@ -25,12 +41,27 @@ const DATA_TYPES = {
   HEART_RATE_VARIABILITY: 'com.google.heart_rate.variability',
 };
 
-class HealthPlatformService {
+const GOOGLE_FIT_DEVICE: DeviceMetadata = {
+  id: 'google-fit',
+  name: 'Google Fit',
+  source: 'google_fit',
+};
+
+const APPLE_HEALTH_DEVICE: DeviceMetadata = {
+  id: 'apple-health',
+  name: 'Apple Health',
+  source: 'apple_health',
+};
+
+class HealthPlatformService extends TypedEventEmitter<DeviceEvents> {
   private googleAuth: any = null;
   private isGoogleFitAuthorized = false;
-  private onDataCallback?: (reading: VitalsReading) => void;
+  // Forwarding subscriptions to healthKitService, replaced on each authorization
+  private healthKitSubscriptions: Unsubscribe[] = [];
   private syncInterval?: NodeJS.Timeout;
   private config: HealthPlatformConfig = {};
+  // Newest Google Fit point synced per data type
+  private googleFitCursor: SyncCursor = {};
 
   /**
    * Initialize the service with configuration
@@ -84,10 +115,12 @@ class HealthPlatformService {
 
       this.googleAuth = authInstance;
       this.isGoogleFitAuthorized = true;
+      this.emitConnectionChange(GOOGLE_FIT_DEVICE, 'online');
 
       return true;
     } catch (error) {
       console.error('Error authorizing Google Fit:', error);
+      this.emitError(GOOGLE_FIT_DEVICE, error);
       throw error;
     }
   }
@@ -210,27 +243,31 @@ class HealthPlatformService {
   }
 
   /**
-   * Fetch all vitals data for a time range
+   * Fetch all vitals data for a time range.
+   * Data types with a sync cursor are only fetched from just after it.
    */
-  async fetchAllVitals(startTime: Date, endTime: Date): Promise<VitalsReading[]> {
+  async fetchAllVitals(startTime: Date, endTime: Date, cursor: SyncCursor = {}): Promise<VitalsReading[]> {
     if (!this.isGoogleFitConnected()) {
       throw new Error('Google Fit not authorized');
     }
 
     try {
       const [heartRate, bloodPressure, glucose, temperature, oxygen] = await Promise.all([
-        this.fetchHeartRate(startTime, endTime),
-        this.fetchBloodPressure(startTime, endTime),
-        this.fetchBloodGlucose(startTime, endTime),
-        this.fetchBodyTemperature(startTime, endTime),
-        this.fetchOxygenSaturation(startTime, endTime),
+        this.fetchHeartRate(fetchStart(cursor, 'heartRate', startTime), endTime),
+        this.fetchBloodPressure(fetchStart(cursor, 'bloodPressure', startTime), endTime),
+        this.fetchBloodGlucose(fetchStart(cursor, 'glucose', startTime), endTime),
+        this.fetchBodyTemperature(fetchStart(cursor, 'temperature', startTime), endTime),
+        this.fetchOxygenSaturation(fetchStart(cursor, 'oxygenLevel', startTime), endTime),
       ]);
 
+      // Fetch ranges are inclusive, so drop points at the cursor itself
+      const isNew = (type: HealthDataType) => (point: DataPoint) => isAfterCursor(cursor, type, point.timestamp);
+
       // Combine all data points by timestamp
       const vitalsMap = new Map<number, VitalsReading>();
 
       // Process heart rate
-      heartRate.forEach(point => {
+      heartRate.filter(isNew('heartRate')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -242,7 +279,7 @@ class HealthPlatformService {
       });
 
       // Process blood pressure
-      bloodPressure.forEach(point => {
+      bloodPressure.filter(isNew('bloodPressure')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -259,7 +296,7 @@ class HealthPlatformService {
       });
 
       // Process glucose
-      glucose.forEach(point => {
+      glucose.filter(isNew('glucose')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -271,7 +308,7 @@ class HealthPlatformService {
       });
 
       // Process temperature
-      temperature.forEach(point => {
+      temperature.filter(isNew('temperature')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -283,7 +320,7 @@ class HealthPlatformService {
       });
 
       // Process oxygen
-      oxygen.forEach(point => {
+      oxygen.filter(isNew('oxygenLevel')).forEach(point => {
         const timestamp = point.timestamp.getTime();
         if (!vitalsMap.has(timestamp)) {
           vitalsMap.set(timestamp, {
@@ -361,11 +398,11 @@ class HealthPlatformService {
     }
 
     // Initial sync
-    this.syncRecentVitals();
+    this.syncGoogleFit();
 
     // Set up periodic sync
     this.syncInterval = setInterval(() => {
-      this.syncRecentVitals();
+      this.syncGoogleFit();
     }, intervalMinutes * 60 * 1000);
   }
 
@@ -380,35 +417,54 @@ class HealthPlatformService {
   }
 
   /**
-   * Sync recent vitals (last hour)
+   * Sync Google Fit points recorded since the last sync, up to 24 hours back on the first sync
    */
-  private async syncRecentVitals(): Promise<void> {
+  async syncGoogleFit(): Promise<VitalsReading[]> {
     if (!this.isGoogleFitConnected()) {
-      return;
+      return [];
     }
 
     const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - 60 * 60 * 1000); // Last hour
+    const startTime = new Date(endTime.getTime() - INITIAL_SYNC_LOOKBACK_MS);
 
     try {
-      const vitals = await this.fetchAllVitals(startTime, endTime);
+      const vitals = await this.fetchAllVitals(startTime, endTime, this.googleFitCursor);
 
       // Emit each reading
       vitals.forEach(reading => {
-        if (this.onDataCallback) {
-          this.onDataCallback(reading);
-        }
+        this.googleFitCursor = advanceCursor(this.googleFitCursor, reading);
+        this.emit('reading', { device: GOOGLE_FIT_DEVICE, reading });
       });
+
+      return vitals;
     } catch (error) {
       console.error('Error syncing recent vitals:', error);
+      this.emitError(GOOGLE_FIT_DEVICE, error);
+      return [];
     }
   }
 
   /**
-   * Set callback for vitals data
+   * Resume from the cursors saved by the signed-in user's earlier sessions
    */
-  onData(callback: (reading: VitalsReading) => void): void {
-    this.onDataCallback = callback;
+  restoreSyncCursors(cursors: { googleFit: SyncCursor; appleHealth: SyncCursor }): void {
+    this.googleFitCursor = cursors.googleFit;
+    healthKitService.restoreSyncCursor(cursors.appleHealth);
+  }
+
+  /**
+   * Subscribe to vitals readings from every platform
+   */
+  onData(callback: (reading: VitalsReading) => void): Unsubscribe {
+    return this.on('reading', ({ reading }) => callback(reading));
+  }
+
+  private emitConnectionChange(device: DeviceMetadata, status: DeviceConnectionStatus): void {
+    this.emit('connection', { device, status });
+  }
+
+  private emitError(device: DeviceMetadata, error: unknown): void {
+    this.emit('error', { device, error: error instanceof Error ? error : new Error(String(error)) });
   }
 
   /**
@@ -419,6 +475,7 @@ class HealthPlatformService {
       await this.googleAuth.signOut();
       this.isGoogleFitAuthorized = false;
       this.stopAutoSync();
+      this.emitConnectionChange(GOOGLE_FIT_DEVICE, 'offline');
     }
   }
 
@@ -441,12 +498,8 @@ class HealthPlatformService {
 
       await healthKitService.requestAuthorization();
 
-      // Set up data callback
-      healthKitService.onData((reading) => {
-        if (this.onDataCallback) {
-          this.onDataCallback(reading);
-        }
-      });
+      this.forwardHealthKitEvents();
+      this.emitConnectionChange(APPLE_HEALTH_DEVICE, 'online');
 
       // Start auto-sync if enabled
       if (this.config.appleHealthAutoSync !== false) {
@@ -456,10 +509,39 @@ class HealthPlatformService {
       return true;
     } catch (error) {
       console.error('Error authorizing Apple HealthKit:', error);
+      this.emitError(APPLE_HEALTH_DEVICE, error);
       throw error;
     }
   }
 
+  /**
+   * Reconnect Apple Health when HealthKit background delivery was started in an
+   * earlier session, so samples delivered while the app was closed are saved
+   */
+  async resumeAppleHealth(): Promise<boolean> {
+    // Forward first: waiting samples are delivered as soon as the HealthKit listener is attached
+    this.forwardHealthKitEvents();
+    if (!(await healthKitService.resumeBackgroundDelivery())) {
+      this.unsubscribeFromHealthKit();
+      return false;
+    }
+
+    this.emitConnectionChange(APPLE_HEALTH_DEVICE, 'online');
+    return true;
+  }
+
+  /**
+   * Forward HealthKit events, dropping any forwarding left from an earlier authorization
+   */
+  private forwardHealthKitEvents(): void {
+    this.unsubscribeFromHealthKit();
+    this.healthKitSubscriptions = [
+      // Delivered samples are kept by HealthKit until they have been queued, so wait for the listeners
+      healthKitService.on('reading', (event) => this.emitAndWait('reading', event)),
+      healthKitService.on('error', (event) => this.emit('error', event)),
+    ];
+  }
+
   /**
    * Check if Apple HealthKit is authorized
    */
@@ -480,14 +562,13 @@ class HealthPlatformService {
 
       // Emit each reading
       vitals.forEach(reading => {
-        if (this.onDataCallback) {
-          this.onDataCallback(reading);
-        }
+        this.emit('reading', { device: APPLE_HEALTH_DEVICE, reading });
       });
 
       return vitals;
     } catch (error) {
       console.error('Error syncing Apple HealthKit:', error);
+      this.emitError(APPLE_HEALTH_DEVICE, error);
       throw error;
     }
   }
@@ -497,6 +578,13 @@ class HealthPlatformService {
    */
   async disconnectAppleHealth(): Promise<void> {
     await healthKitService.disconnect();
+    this.unsubscribeFromHealthKit();
+    this.emitConnectionChange(APPLE_HEALTH_DEVICE, 'offline');
+  }
+
+  private unsubscribeFromHealthKit(): void {
+    this.healthKitSubscriptions.forEach((unsubscribe) => unsubscribe());
+    this.healthKitSubscriptions = [];
   }
 
   /**
@@ -0,0 +1,104 @@
+/**
+ * Heart Rate Variability
+ * Computes time-domain HRV (SDNN and RMSSD) from the RR intervals reported by
+ * heart rate straps. Metrics are computed over a rolling window of recent
+ * intervals after removing ectopic beats and artifacts.
+ */
+
+// Standard short-term HRV window
+export const HRV_WINDOW_MS = 5 * 60 * 1000;
+
+// How often a new HRV value is computed while intervals are arriving
+export const HRV_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// Fewer clean intervals than this in the window are not enough for a meaningful value
+export const HRV_MIN_INTERVALS = 30;
+
+// Physiologically plausible RR interval range (30-200 bpm)
+const MIN_RR_MS = 300;
+const MAX_RR_MS = 2000;
+
+// Intervals differing from the previous one by more than this fraction are treated as ectopic or artifacts
+const MAX_SUCCESSIVE_CHANGE = 0.2;
+
+export interface HrvMetrics {
+  sdnn: number; // ms
+  rmssd: number; // ms
+  intervalCount: number;
+}
+
+/**
+ * Drop out-of-range intervals and intervals that jump too far from the previous accepted one
+ */
+export function filterRrIntervals(intervals: number[]): number[] {
+  const clean: number[] = [];
+
+  for (const interval of intervals) {
+    if (interval < MIN_RR_MS || interval > MAX_RR_MS) continue;
+
+    const previous = clean[clean.length - 1];
+    if (previous !== undefined && Math.abs(interval - previous) / previous > MAX_SUCCESSIVE_CHANGE) continue;
+
+    clean.push(interval);
+  }
+
+  return clean;
+}
+
+/**
+ * Standard deviation of NN intervals
+ */
+export function computeSdnn(intervals: number[]): number {
+  if (intervals.length < 2) return 0;
+
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / (intervals.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Root mean square of successive differences between NN intervals
+ */
+export function computeRmssd(intervals: number[]): number {
+  if (intervals.length < 2) return 0;
+
+  let sumOfSquares = 0;
+  for (let i = 1; i < intervals.length; i++) {
+    sumOfSquares += (intervals[i] - intervals[i - 1]) ** 2;
+  }
+  return Math.sqrt(sumOfSquares / (intervals.length - 1));
+}
+
+/**
+ * Compute SDNN and RMSSD for a series of RR intervals, or null if too few are clean
+ */
+export function computeHrvMetrics(intervals: number[]): HrvMetrics | null {
+  const clean = filterRrIntervals(intervals);
+  if (clean.length < HRV_MIN_INTERVALS) return null;
+
+  return {
+    sdnn: Math.round(computeSdnn(clean) * 10) / 10,
+    rmssd: Math.round(computeRmssd(clean) * 10) / 10,
+    intervalCount: clean.length,
+  };
+}
+
+/**
+ * RR intervals received over the last HRV_WINDOW_MS
+ */
+export class RollingRrWindow {
+  private intervals: { interval: number; receivedAt: number }[] = [];
+
+  add(intervals: number[], receivedAt: Date): void {
+    for (const interval of intervals) {
+      this.intervals.push({ interval, receivedAt: receivedAt.getTime() });
+    }
+
+    const cutoff = receivedAt.getTime() - HRV_WINDOW_MS;
+    this.intervals = this.intervals.filter((entry) => entry.receivedAt >= cutoff);
+  }
+
+  metrics(): HrvMetrics | null {
+    return computeHrvMetrics(this.intervals.map((entry) => entry.interval));
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Push Notification Service
+ * Registers this device for push notifications and stores its FCM token at
+ * users/{uid}/deviceTokens/{token}, where the notification dispatcher Cloud
+ * Function picks it up.
+ *
+ * Web uses Firebase Cloud Messaging with the service worker in
+ * public/firebase-messaging-sw.js. iOS uses @capacitor/push-notifications,
+ * with AppDelegate exchanging the APNs token for an FCM token.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { PushNotifications } from '@capacitor/push-notifications';
+import { getMessaging, getToken, deleteToken, isSupported, onMessage } from 'firebase/messaging';
+import { doc, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+
+export type PushPlatform = 'web' | 'ios';
+
+export interface ForegroundPushMessage {
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+class PushNotificationService {
+  private currentToken: string | null = null;
+  private currentUserId: string | null = null;
+  private onMessageCallback?: (message: ForegroundPushMessage) => void;
+  private unsubscribeForeground?: () => void;
+
+  /**
+   * Platform this device registers as, or null if push is unsupported
+   */
+  async getPlatform(): Promise<PushPlatform | null> {
+    if (Capacitor.isNativePlatform()) {
+      return Capacitor.getPlatform() === 'ios' ? 'ios' : null;
+    }
+
+    if (!('serviceWorker' in navigator) || !('Notification' in window)) {
+      return null;
+    }
+
+    return (await isSupported()) ? 'web' : null;
+  }
+
+  /**
+   * Request permission, obtain an FCM token, and register it for the user
+   * Returns the token, or null if permission was denied or push is unsupported
+   */
+  async register(userId: string): Promise<string | null> {
+    const platform = await this.getPlatform();
+    if (!platform) {
+      console.log('Push notifications are not supported on this device');
+      return null;
+    }
+
+    try {
+      const token = platform === 'ios' ? await this.getNativeToken() : await this.getWebToken();
+      if (!token) return null;
+
+      await setDoc(doc(db, 'users', userId, 'deviceTokens', token), {
+        token,
+        platform,
+        userAgent: navigator.userAgent,
+        lastSeenAt: serverTimestamp(),
+      });
+
+      this.currentToken = token;
+      this.currentUserId = userId;
+      console.log(`Registered ${platform} device for push notifications`);
+      return token;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove this device's token so the user stops receiving pushes here
+   * Call before signing out
+   */
+  async unregister(): Promise<void> {
+    if (!this.currentToken || !this.currentUserId) return;
+
+    try {
+      await deleteDoc(doc(db, 'users', this.currentUserId, 'deviceTokens', this.currentToken));
+
+      if (Capacitor.isNativePlatform()) {
+        await PushNotifications.removeAllListeners();
+        this.unsubscribeForeground = undefined;
+      } else {
+        await deleteToken(getMessaging());
+      }
+    } catch (error) {
+      console.error('Error unregistering push notifications:', error);
+    } finally {
+      this.currentToken = null;
+      this.currentUserId = null;
+    }
+  }
+
+  /**
+   * Set callback for pushes received while the app is in the foreground
+   */
+  onMessage(callback: (message: ForegroundPushMessage) => void): void {
+    this.onMessageCallback = callback;
+  }
+
+  private async getWebToken(): Promise<string | null> {
+    const vapidKey = import.meta.env.VITE_FIREBASE_VAPID_KEY;
+    if (!vapidKey) {
+      console.warn('VITE_FIREBASE_VAPID_KEY is not set; web push is disabled');
+      return null;
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      console.log('Notification permission not granted');
+      return null;
+    }
+
+    // The service worker cannot read Vite env vars, so pass the config in the URL
+    const config = new URLSearchParams({
+      apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+      projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+      messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+      appId: import.meta.env.VITE_FIREBASE_APP_ID,
+    });
+    const registration = await navigator.serviceWorker.register(`/firebase-messaging-sw.js?${config.toString()}`);
+
+    const messaging = getMessaging();
+    const token = await getToken(messaging, { vapidKey, serviceWorkerRegistration: registration });
+
+    if (!this.unsubscribeForeground) {
+      this.unsubscribeForeground = onMessage(messaging, (payload) => {
+        this.onMessageCallback?.({
+          title: payload.notification?.title || '',
+          body: payload.notification?.body || '',
+          data: payload.data || {},
+        });
+      });
+    }
+
+    return token || null;
+  }
+
+  private async getNativeToken(): Promise<string | null> {
+    let permission = await PushNotifications.checkPermissions();
+    if (permission.receive === 'prompt' || permission.receive === 'prompt-with-rationale') {
+      permission = await PushNotifications.requestPermissions();
+    }
+
+    if (permission.receive !== 'granted') {
+      console.log('Notification permission not granted');
+      return null;
+    }
+
+    if (!this.unsubscribeForeground) {
+      await PushNotifications.addListener('pushNotificationReceived', (notification) => {
+        this.onMessageCallback?.({
+          title: notification.title || '',
+          body: notification.body || '',
+          data: (notification.data as Record<string, string>) || {},
+        });
+      });
+      this.unsubscribeForeground = () => PushNotifications.removeAllListeners();
+    }
+
+    // The token arrives through the registration listeners
+    let resolveToken: (token: string) => void = () => undefined;
+    let rejectToken: (error: Error) => void = () => undefined;
+    const token = new Promise<string>((resolve, reject) => {
+      resolveToken = resolve;
+      rejectToken = reject;
+    });
+
+    const registered = await PushNotifications.addListener('registration', ({ value }) => resolveToken(value));
+    const failed = await PushNotifications.addListener('registrationError', ({ error }) =>
+      rejectToken(new Error(error))
+    );
+
+    try {
+      await PushNotifications.register();
+      return await token;
+    } finally {
+      await registered.remove();
+      await failed.remove();
+    }
+  }
+}
+
+// Export singleton instance
+export const pushNotificationService = new PushNotificationService();
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { simulatedDeviceService } from './simulatedDeviceService';
+import type { SimulationScenario } from './simulatedDeviceService';
+import type { BluetoothDeviceProvider, BluetoothDeviceType, DeviceConnectionStatus, VitalsReading } from './types';
+
+const provider: BluetoothDeviceProvider = simulatedDeviceService;
+
+// Always the midpoint, so readings carry no noise
+const noNoise = () => 0.5;
+
+const unsubscribers: (() => void)[] = [];
+
+async function connect(deviceType: BluetoothDeviceType, scenario: SimulationScenario) {
+  const readings: VitalsReading[] = [];
+  const statuses: DeviceConnectionStatus[] = [];
+
+  unsubscribers.push(
+    provider.on('reading', ({ reading }) => readings.push(reading)),
+    provider.on('connection', ({ status }) => statuses.push(status))
+  );
+
+  const device = await simulatedDeviceService.connectDevice(deviceType, { scenario, intervalMs: 0, random: noNoise });
+  return { device, readings, statuses };
+}
+
+afterEach(async () => {
+  unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+  await Promise.all(provider.getConnectedDevices().map((deviceId) => provider.disconnectDevice(deviceId)));
+});
+
+describe('simulatedDeviceService', () => {
+  it('connects through the provider interface', async () => {
+    const { device, statuses } = await connect('pulse_oximeter', 'normal');
+
+    expect(provider.isDeviceConnected(device.id)).toBe(true);
+    expect(provider.getDeviceType(device.id)).toBe('pulse_oximeter');
+    expect(statuses).toEqual(['online']);
+  });
+
+  it('ramps oxygen down and heart rate up during a hypoxia episode, then recovers', async () => {
+    const { device, readings } = await connect('pulse_oximeter', 'hypoxia');
+
+    for (let step = 0; step < 36; step++) {
+      simulatedDeviceService.step(device.id);
+    }
+
+    expect(readings).toHaveLength(36);
+    readings.forEach((reading) => expect(reading.deviceId).toBe(device.id));
+
+    // Before the episode
+    expect(readings[0]).toMatchObject({ oxygenLevel: 98, heartRate: 72 });
+    // Ramping down
+    expect(readings[5]).toMatchObject({ oxygenLevel: 96, heartRate: 75 });
+    // At its peak
+    expect(readings[15]).toMatchObject({ oxygenLevel: 84, heartRate: 90 });
+    // Recovered
+    expect(readings[35]).toMatchObject({ oxygenLevel: 98, heartRate: 72 });
+
+    const lowest = Math.min(...readings.map((reading) => reading.oxygenLevel ?? 100));
+    expect(lowest).toBe(84);
+  });
+
+  it('goes offline and sends nothing during a dropout', async () => {
+    const { device, readings, statuses } = await connect('heart_rate', 'device_dropout');
+
+    for (let step = 0; step < 14; step++) {
+      simulatedDeviceService.step(device.id);
+    }
+
+    expect(statuses).toEqual(['online', 'offline', 'syncing', 'online']);
+    expect(readings).toHaveLength(10);
+  });
+});
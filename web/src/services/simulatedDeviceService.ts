@@ -0,0 +1,390 @@
+/**
+ * Simulated Bluetooth Device Service
+ * Software stand-ins for the Bluetooth health devices, so the vitals pipeline can be
+ * exercised in development, demos, and automated tests without hardware. Simulated
+ * devices implement the same provider interface as BluetoothService and emit the same
+ * reading, connection, battery, and device information events, following a scripted
+ * scenario such as a tachycardia episode or a connection dropout.
+ */
+
+import type {
+  BluetoothDeviceInfo,
+  BluetoothDeviceProvider,
+  BluetoothDeviceType,
+  DeviceConnectionStatus,
+  DeviceEvents,
+  DeviceInformation,
+  DeviceMetadata,
+  VitalsReading,
+} from './types';
+import { TypedEventEmitter } from './eventEmitter';
+
+export type SimulationScenario =
+  | 'normal'
+  | 'tachycardia'
+  | 'hypoxia'
+  | 'hypertensive_crisis'
+  | 'device_dropout'
+  | 'low_battery';
+
+export const SIMULATION_SCENARIOS: Record<SimulationScenario, string> = {
+  normal: 'Normal',
+  tachycardia: 'Tachycardia episode',
+  hypoxia: 'Hypoxia',
+  hypertensive_crisis: 'Hypertensive crisis',
+  device_dropout: 'Device dropout',
+  low_battery: 'Low battery',
+};
+
+export interface SimulationOptions {
+  scenario?: SimulationScenario;
+  // Time between readings; 0 disables the timer so tests can advance with step()
+  intervalMs?: number;
+  // Source of measurement noise; pass a seeded generator for repeatable runs
+  random?: () => number;
+}
+
+const DEFAULT_INTERVAL_MS = 5000;
+
+// Simulated device IDs start with this so calls can be routed to the simulator
+const SIMULATED_DEVICE_PREFIX = 'simulated-';
+
+// Scenario timeline, counted in readings since the device connected.
+// Episodes ramp up, hold at their peak, then ramp back down to normal.
+const EPISODE_START_STEP = 6;
+const EPISODE_END_STEP = 30;
+const EPISODE_RAMP_STEPS = 6;
+const DROPOUT_START_STEP = 10;
+const DROPOUT_STEPS = 4;
+
+// Battery drains slowly in normal use and one percent per reading in the low battery scenario
+const NORMAL_BATTERY_START = 100;
+const NORMAL_BATTERY_DRAIN_STEPS = 20;
+const LOW_BATTERY_START = 25;
+
+const DEVICE_NAMES: Record<BluetoothDeviceType, string> = {
+  heart_rate: 'Heart Rate Monitor',
+  blood_pressure: 'Blood Pressure Monitor',
+  glucose: 'Glucose Monitor',
+  temperature: 'Thermometer',
+  pulse_oximeter: 'Pulse Oximeter',
+  weight_scale: 'Weight Scale',
+};
+
+interface SimulatedDevice {
+  id: string;
+  type: BluetoothDeviceType;
+  scenario: SimulationScenario;
+  intervalMs: number;
+  random: () => number;
+  step: number;
+  batteryLevel: number;
+  connected: boolean;
+  // Set while a dropout is in progress
+  dropoutEndStep?: number;
+  timer?: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Whether a device ID belongs to a simulated device
+ */
+export function isSimulatedDeviceId(deviceId: string): boolean {
+  return deviceId.startsWith(SIMULATED_DEVICE_PREFIX);
+}
+
+/**
+ * How far into its abnormal episode a scenario is: 0 outside the episode, 1 at its peak
+ */
+function episodeIntensity(step: number): number {
+  if (step < EPISODE_START_STEP || step >= EPISODE_END_STEP) return 0;
+
+  const rampUp = (step - EPISODE_START_STEP + 1) / EPISODE_RAMP_STEPS;
+  const rampDown = (EPISODE_END_STEP - step) / EPISODE_RAMP_STEPS;
+  return Math.min(1, rampUp, rampDown);
+}
+
+function interpolate(from: number, to: number, amount: number): number {
+  return from + (to - from) * amount;
+}
+
+function noise(random: () => number, amplitude: number): number {
+  return (random() * 2 - 1) * amplitude;
+}
+
+class SimulatedDeviceService extends TypedEventEmitter<DeviceEvents> implements BluetoothDeviceProvider {
+  private devices: Map<string, SimulatedDevice> = new Map();
+  private connectionStatuses: Map<string, DeviceConnectionStatus> = new Map();
+  private nextDeviceNumber = 1;
+
+  /**
+   * The simulator runs everywhere
+   */
+  isSupported(): boolean {
+    return true;
+  }
+
+  /**
+   * Create a simulated device and start emitting readings for the chosen scenario
+   */
+  async connectDevice(deviceType: BluetoothDeviceType, options: SimulationOptions = {}): Promise<BluetoothDeviceInfo> {
+    const device: SimulatedDevice = {
+      id: `${SIMULATED_DEVICE_PREFIX}${deviceType}-${Date.now().toString(36)}-${this.nextDeviceNumber++}`,
+      type: deviceType,
+      scenario: options.scenario ?? 'normal',
+      intervalMs: options.intervalMs ?? DEFAULT_INTERVAL_MS,
+      random: options.random ?? Math.random,
+      step: 0,
+      batteryLevel: options.scenario === 'low_battery' ? LOW_BATTERY_START : NORMAL_BATTERY_START,
+      connected: false,
+    };
+
+    this.devices.set(device.id, device);
+    this.startDevice(device);
+    return this.getDeviceInfo(device);
+  }
+
+  /**
+   * Resume a simulated device. Devices from an earlier session resume with the normal scenario.
+   * Resolves false once the simulated battery has run out.
+   */
+  async reconnectDevice(deviceId: string, deviceType: BluetoothDeviceType): Promise<boolean> {
+    if (this.isDeviceConnected(deviceId)) return true;
+
+    let device = this.devices.get(deviceId);
+    if (!device) {
+      device = {
+        id: deviceId,
+        type: deviceType,
+        scenario: 'normal',
+        intervalMs: DEFAULT_INTERVAL_MS,
+        random: Math.random,
+        step: 0,
+        batteryLevel: NORMAL_BATTERY_START,
+        connected: false,
+      };
+      this.devices.set(deviceId, device);
+    }
+
+    if (device.batteryLevel <= 0) {
+      this.emitConnectionChange(deviceId, 'offline');
+      return false;
+    }
+
+    this.startDevice(device);
+    return true;
+  }
+
+  /**
+   * Stop a simulated device; it can be resumed with reconnectDevice()
+   */
+  async disconnectDevice(deviceId: string): Promise<void> {
+    const device = this.devices.get(deviceId);
+    if (!device) return;
+
+    this.stopDevice(device);
+    this.emitConnectionChange(deviceId, 'offline');
+  }
+
+  /**
+   * Simulated meters keep no stored records
+   */
+  async requestGlucoseRecords(): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * Advance a simulated device by one reading. Used by the timer, and directly by tests
+   * that connect with an intervalMs of 0.
+   */
+  step(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device || !device.connected) return;
+
+    device.step++;
+    this.updateBattery(device);
+    if (!device.connected) return;
+
+    if (device.scenario === 'device_dropout' && this.updateDropout(device)) return;
+
+    this.emit('reading', { device: this.getDeviceMetadata(device.id), reading: this.generateReading(device) });
+  }
+
+  /**
+   * Get list of connected simulated devices
+   */
+  getConnectedDevices(): string[] {
+    return Array.from(this.devices.values())
+      .filter((device) => device.connected)
+      .map((device) => device.id);
+  }
+
+  /**
+   * Get the type a simulated device was created as
+   */
+  getDeviceType(deviceId: string): BluetoothDeviceType | undefined {
+    return this.devices.get(deviceId)?.type;
+  }
+
+  /**
+   * Check if a simulated device is connected
+   */
+  isDeviceConnected(deviceId: string): boolean {
+    return this.devices.get(deviceId)?.connected || false;
+  }
+
+  private startDevice(device: SimulatedDevice): void {
+    device.connected = true;
+    device.dropoutEndStep = undefined;
+
+    const metadata = this.getDeviceMetadata(device.id);
+    this.emit('information', { device: metadata, information: this.getDeviceInformation(device) });
+    this.emit('battery', { device: metadata, level: device.batteryLevel });
+    this.emitConnectionChange(device.id, 'online');
+
+    clearInterval(device.timer);
+    if (device.intervalMs > 0) {
+      device.timer = setInterval(() => this.step(device.id), device.intervalMs);
+    }
+  }
+
+  private stopDevice(device: SimulatedDevice): void {
+    clearInterval(device.timer);
+    device.timer = undefined;
+    device.connected = false;
+  }
+
+  /**
+   * Drain the battery; a device whose battery runs out goes offline for good
+   */
+  private updateBattery(device: SimulatedDevice): void {
+    const drains = device.scenario === 'low_battery' || device.step % NORMAL_BATTERY_DRAIN_STEPS === 0;
+    if (!drains || device.batteryLevel <= 0) return;
+
+    device.batteryLevel--;
+    this.emit('battery', { device: this.getDeviceMetadata(device.id), level: device.batteryLevel });
+
+    if (device.batteryLevel === 0) {
+      this.stopDevice(device);
+      this.emitConnectionChange(device.id, 'offline');
+    }
+  }
+
+  /**
+   * Drop the connection partway through, then reconnect the way a real device would.
+   * Returns true while the device is out of range and sends nothing.
+   */
+  private updateDropout(device: SimulatedDevice): boolean {
+    if (device.step === DROPOUT_START_STEP) {
+      device.dropoutEndStep = DROPOUT_START_STEP + DROPOUT_STEPS;
+      this.emitConnectionChange(device.id, 'offline');
+      return true;
+    }
+
+    if (device.dropoutEndStep === undefined) return false;
+
+    if (device.step < device.dropoutEndStep) {
+      this.emitConnectionChange(device.id, 'syncing');
+      return true;
+    }
+
+    device.dropoutEndStep = undefined;
+    this.emitConnectionChange(device.id, 'online');
+    return false;
+  }
+
+  /**
+   * Measurements for the device type at the current point in the scenario
+   */
+  private generateReading(device: SimulatedDevice): VitalsReading {
+    const intensity = episodeIntensity(device.step);
+    const tachycardia = device.scenario === 'tachycardia' ? intensity : 0;
+    const hypoxia = device.scenario === 'hypoxia' ? intensity : 0;
+    const crisis = device.scenario === 'hypertensive_crisis' ? intensity : 0;
+    const { random } = device;
+
+    // Heart rate also rises in response to low oxygen and very high blood pressure
+    const heartRate = Math.round(
+      interpolate(72, 148, tachycardia) + interpolate(0, 18, hypoxia) + interpolate(0, 14, crisis) + noise(random, 3)
+    );
+
+    const now = new Date();
+    const reading: VitalsReading = {
+      timestamp: now,
+      receivedAt: now,
+      deviceId: device.id,
+    };
+
+    switch (device.type) {
+      case 'heart_rate': {
+        reading.heartRate = heartRate;
+
+        // One interval per beat since the last reading, for HRV
+        const intervalMs = device.intervalMs || DEFAULT_INTERVAL_MS;
+        const beats = Math.max(1, Math.round((heartRate * intervalMs) / 60000));
+        reading.rrIntervals = Array.from({ length: beats }, () => Math.round(60000 / heartRate + noise(random, 25)));
+        break;
+      }
+      case 'pulse_oximeter':
+        reading.heartRate = heartRate;
+        reading.oxygenLevel = Math.min(100, Math.round(interpolate(98, 84, hypoxia) + noise(random, 1)));
+        break;
+      case 'blood_pressure':
+        reading.bloodPressureSystolic = Math.round(interpolate(118, 192, crisis) + noise(random, 4));
+        reading.bloodPressureDiastolic = Math.round(interpolate(76, 124, crisis) + noise(random, 3));
+        reading.heartRate = heartRate;
+        break;
+      case 'temperature':
+        reading.temperature = Math.round((36.8 + noise(random, 0.2)) * 10) / 10;
+        break;
+      case 'glucose':
+        reading.glucose = Math.round(95 + noise(random, 8));
+        break;
+      case 'weight_scale':
+        reading.weight = Math.round((72 + noise(random, 0.3)) * 10) / 10;
+        break;
+    }
+
+    return reading;
+  }
+
+  private getDeviceInformation(device: SimulatedDevice): DeviceInformation {
+    return {
+      manufacturer: 'HealthComm Simulator',
+      model: `SIM-${device.type.toUpperCase()}`,
+      serialNumber: device.id.slice(SIMULATED_DEVICE_PREFIX.length),
+      firmwareVersion: '1.0.0',
+      hardwareVersion: '1',
+    };
+  }
+
+  private getDeviceInfo(device: SimulatedDevice): BluetoothDeviceInfo {
+    return {
+      id: device.id,
+      name: `Simulated ${DEVICE_NAMES[device.type]}`,
+      type: device.type,
+      ...this.getDeviceInformation(device),
+      batteryLevel: device.batteryLevel,
+    };
+  }
+
+  private getDeviceMetadata(deviceId: string): DeviceMetadata {
+    const device = this.devices.get(deviceId);
+    return {
+      id: deviceId,
+      name: device && `Simulated ${DEVICE_NAMES[device.type]}`,
+      type: device?.type,
+      source: 'simulator',
+    };
+  }
+
+  private emitConnectionChange(deviceId: string, status: DeviceConnectionStatus): void {
+    // Only changes are passed on, as with real devices
+    if (this.connectionStatuses.get(deviceId) === status) return;
+    this.connectionStatuses.set(deviceId, status);
+
+    this.emit('connection', { device: this.getDeviceMetadata(deviceId), status });
+  }
+}
+
+// Export singleton instance
+export const simulatedDeviceService = new SimulatedDeviceService();
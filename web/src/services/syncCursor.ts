@@ -0,0 +1,108 @@
+/**
+ * Health Platform Sync Cursors
+ * Google Fit and Apple Health are polled rather than streamed, so each source
+ * keeps the timestamp of the newest point synced per data type. Only points
+ * after the cursor are fetched and saved, which keeps repeated syncs from saving
+ * the same readings again.
+ */
+
+import type { VitalsReading } from './types';
+
+export type HealthDataType =
+  | 'heartRate'
+  | 'bloodPressure'
+  | 'glucose'
+  | 'temperature'
+  | 'oxygenLevel'
+  | 'respiration'
+  | 'hrv';
+
+export type SyncCursor = Partial<Record<HealthDataType, Date>>;
+
+// How far back the first sync of a source reaches
+export const INITIAL_SYNC_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Reading fields that carry each data type
+export const HEALTH_DATA_FIELDS: Record<HealthDataType, (keyof VitalsReading)[]> = {
+  heartRate: ['heartRate'],
+  bloodPressure: ['bloodPressureSystolic', 'bloodPressureDiastolic'],
+  glucose: ['glucose'],
+  temperature: ['temperature'],
+  oxygenLevel: ['oxygenLevel'],
+  respiration: ['respiration'],
+  hrv: ['hrvSdnn'],
+};
+
+const HEALTH_DATA_TYPES = Object.keys(HEALTH_DATA_FIELDS) as HealthDataType[];
+
+/**
+ * Start of the fetch window for a data type: just after its cursor, or `defaultStart` before the first sync
+ */
+export function fetchStart(cursor: SyncCursor, type: HealthDataType, defaultStart: Date): Date {
+  const synced = cursor[type];
+  return synced ? new Date(synced.getTime() + 1) : defaultStart;
+}
+
+/**
+ * Whether a point of this type is newer than anything already synced
+ */
+export function isAfterCursor(cursor: SyncCursor, type: HealthDataType, timestamp: Date): boolean {
+  const synced = cursor[type];
+  return !synced || timestamp.getTime() > synced.getTime();
+}
+
+/**
+ * Data types present in a reading
+ */
+export function readingDataTypes(reading: Partial<Record<keyof VitalsReading, unknown>>): HealthDataType[] {
+  return HEALTH_DATA_TYPES.filter((type) => HEALTH_DATA_FIELDS[type].some((field) => reading[field] !== undefined));
+}
+
+/**
+ * Move the cursor forward to a reading's timestamp for each data type it carries
+ */
+export function advanceCursor(cursor: SyncCursor, reading: VitalsReading): SyncCursor {
+  const advanced = { ...cursor };
+
+  readingDataTypes(reading).forEach((type) => {
+    if (isAfterCursor(advanced, type, reading.timestamp)) {
+      advanced[type] = reading.timestamp;
+    }
+  });
+
+  return advanced;
+}
+
+/**
+ * The later position of two cursors for each data type
+ */
+export function mergeCursors(a: SyncCursor, b: SyncCursor): SyncCursor {
+  const merged = { ...a };
+
+  HEALTH_DATA_TYPES.forEach((type) => {
+    const timestamp = b[type];
+    if (timestamp && isAfterCursor(merged, type, timestamp)) {
+      merged[type] = timestamp;
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * The reading without data types already synced, or null if nothing new is left
+ */
+export function dropSyncedData(cursor: SyncCursor, reading: VitalsReading): VitalsReading | null {
+  const remaining = { ...reading };
+  let hasNewData = false;
+
+  readingDataTypes(reading).forEach((type) => {
+    if (isAfterCursor(cursor, type, reading.timestamp)) {
+      hasNewData = true;
+    } else {
+      HEALTH_DATA_FIELDS[type].forEach((field) => delete remaining[field]);
+    }
+  });
+
+  return hasNewData ? remaining : null;
+}
@@ -2,6 +2,9 @@
  * Shared type definitions for health monitoring services
  */
 
+import type { GlucoseMeal } from './gattParsers';
+import type { Unsubscribe } from './eventEmitter';
+
 export interface VitalsReading {
   heartRate?: number;
   bloodPressureSystolic?: number;
@@ -9,18 +12,87 @@ export interface VitalsReading {
   oxygenLevel?: number;
   temperature?: number;
   glucose?: number;
-  timestamp: Date;
+  glucoseMeal?: GlucoseMeal;
+  weight?: number; // kg
+  bmi?: number;
+  bodyFatPercentage?: number;
+  respiration?: number; // breaths per minute
+  hrvSdnn?: number; // ms
+  hrvRmssd?: number; // ms
+  rrIntervals?: number[]; // ms, raw beat-to-beat intervals from heart rate straps (not stored on the reading)
+  sequenceNumber?: number; // record number on the device, for readings downloaded from a meter's memory
+  timestamp: Date; // when the measurement was taken, from the device where it reports one
+  receivedAt?: Date; // when the app received it; later than timestamp for stored readings
   deviceId: string;
 }
 
-export interface BluetoothDeviceInfo {
+export type BluetoothDeviceType =
+  | 'heart_rate'
+  | 'blood_pressure'
+  | 'glucose'
+  | 'temperature'
+  | 'pulse_oximeter'
+  | 'weight_scale';
+
+export type DeviceConnectionStatus = 'online' | 'offline' | 'syncing';
+
+export type DeviceSource = 'bluetooth' | 'google_fit' | 'apple_health' | 'simulator';
+
+/**
+ * Identifies the device or platform an event came from
+ */
+export interface DeviceMetadata {
+  id: string;
+  name?: string;
+  type?: string; // Bluetooth device type, e.g. 'heart_rate'
+  source: DeviceSource;
+}
+
+/**
+ * Events emitted by the device and health platform services
+ */
+export interface DeviceEvents {
+  // incremental: the source delivers each sample once (e.g. a HealthKit anchored query), so sync cursors are not applied
+  reading: { device: DeviceMetadata; reading: VitalsReading; incremental?: boolean };
+  connection: { device: DeviceMetadata; status: DeviceConnectionStatus };
+  battery: { device: DeviceMetadata; level: number };
+  information: { device: DeviceMetadata; information: DeviceInformation };
+  error: { device: DeviceMetadata; error: Error };
+}
+
+/**
+ * Read from the Bluetooth Device Information Service (0x180A); each field is optional
+ */
+export interface DeviceInformation {
+  manufacturer?: string;
+  model?: string;
+  serialNumber?: string;
+  firmwareVersion?: string;
+  hardwareVersion?: string;
+}
+
+export interface BluetoothDeviceInfo extends DeviceInformation {
   id: string;
   name: string;
   type: string;
-  manufacturer?: string;
   batteryLevel?: number;
 }
 
+/**
+ * A source of Bluetooth health devices: real hardware through Web Bluetooth, or the simulator
+ */
+export interface BluetoothDeviceProvider {
+  isSupported(): boolean;
+  connectDevice(deviceType: BluetoothDeviceType): Promise<BluetoothDeviceInfo>;
+  reconnectDevice(deviceId: string, deviceType: BluetoothDeviceType): Promise<boolean>;
+  disconnectDevice(deviceId: string): Promise<void>;
+  requestGlucoseRecords(deviceId: string, afterSequenceNumber?: number): Promise<number>;
+  getConnectedDevices(): string[];
+  getDeviceType(deviceId: string): BluetoothDeviceType | undefined;
+  isDeviceConnected(deviceId: string): boolean;
+  on<K extends keyof DeviceEvents>(event: K, listener: (payload: DeviceEvents[K]) => void): Unsubscribe;
+}
+
 export interface DataPoint {
   value: number;
   timestamp: Date;
@@ -37,6 +109,7 @@ export interface SyncConfig {
   userId: string;
   autoSyncInterval?: number; // minutes
   googleFitClientId?: string;
+  aggregationInterval?: number; // seconds; streamed samples are summarized per interval, 0 stores every sample
 }
 
 export interface SyncStatus {
@@ -45,4 +118,35 @@ export interface SyncStatus {
   isAppleHealthConnected: boolean;
   lastSyncTime?: Date;
   syncedDevices: string[];
+  pendingReadings: number; // Readings queued on the device, not yet written to Firebase
+}
+
+export type ThresholdVital =
+  | 'heartRate'
+  | 'bloodPressureSystolic'
+  | 'bloodPressureDiastolic'
+  | 'oxygenLevel'
+  | 'temperature'
+  | 'glucose';
+
+export interface ThresholdRange {
+  criticalLow?: number;
+  low?: number;
+  high?: number;
+  criticalHigh?: number;
+}
+
+export type ThresholdProfile = Record<ThresholdVital, ThresholdRange>;
+
+// A null value removes that limit from the condition-adjusted defaults
+export type ThresholdRangeOverride = { [K in keyof ThresholdRange]?: number | null };
+
+export type ThresholdOverrides = Partial<Record<ThresholdVital, ThresholdRangeOverride>>;
+
+export interface VitalsAlert {
+  title: string;
+  message: string;
+  severity: 'low' | 'medium' | 'high';
+  conditionKey: string; // identifies the condition for deduplication, e.g. 'heartRate:high'
+  vitals: ThresholdVital[]; // vitals that must be present in a reading to resolve the alert
 }
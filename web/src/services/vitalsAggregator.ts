@@ -0,0 +1,165 @@
+/**
+ * Vitals Aggregation
+ * Streaming devices such as pulse oximeters and heart rate straps report a
+ * sample every second. Rather than storing each one, samples are buffered per
+ * device and summarized once per interval as min/mean/max for each vital.
+ */
+
+import type { HrvMetrics } from './hrv';
+import type { VitalsReading } from './types';
+
+// Vitals reported continuously enough to be summarized
+export const AGGREGATED_VITALS = ['heartRate', 'oxygenLevel'] as const;
+
+export type AggregatedVital = (typeof AGGREGATED_VITALS)[number];
+
+// Any of these on a reading marks it as a spot measurement, which is always stored as-is
+const SPOT_VITALS: (keyof VitalsReading)[] = [
+  'bloodPressureSystolic',
+  'bloodPressureDiastolic',
+  'temperature',
+  'glucose',
+  'weight',
+  'bmi',
+  'bodyFatPercentage',
+  'respiration',
+];
+
+export interface VitalStatistics {
+  min: number;
+  mean: number;
+  max: number;
+}
+
+export interface VitalsSummary {
+  deviceId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  receivedAt: Date; // when the last sample in the period arrived
+  sampleCount: number;
+  vitals: Partial<Record<AggregatedVital, VitalStatistics>>;
+  hrv?: HrvMetrics; // latest HRV computed during the period
+}
+
+interface RunningStatistics {
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+interface AggregationPeriod {
+  deviceId: string;
+  start: number;
+  lastReceivedAt: number;
+  sampleCount: number;
+  statistics: Partial<Record<AggregatedVital, RunningStatistics>>;
+  hrv?: HrvMetrics;
+}
+
+/**
+ * Whether a reading is a streamed sample that can be summarized: it carries
+ * only continuously reported vitals and was not downloaded from a device's memory
+ */
+export function isAggregatable(reading: VitalsReading): boolean {
+  if (reading.sequenceNumber !== undefined) return false;
+  if (SPOT_VITALS.some((vital) => reading[vital] !== undefined)) return false;
+  return AGGREGATED_VITALS.some((vital) => reading[vital] !== undefined);
+}
+
+export class VitalsAggregator {
+  private readonly intervalMs: number;
+  private periods: Map<string, AggregationPeriod> = new Map();
+
+  constructor(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Add a sample to its device's current period. Returns the device's previous
+   * period's summary when the sample starts a new one.
+   */
+  add(reading: VitalsReading, hrv: HrvMetrics | null): VitalsSummary[] {
+    const start = Math.floor(reading.timestamp.getTime() / this.intervalMs) * this.intervalMs;
+    const completed: VitalsSummary[] = [];
+
+    let period = this.periods.get(reading.deviceId);
+    if (period && period.start !== start) {
+      completed.push(this.summarize(period));
+      period = undefined;
+    }
+
+    if (!period) {
+      period = { deviceId: reading.deviceId, start, lastReceivedAt: 0, sampleCount: 0, statistics: {} };
+      this.periods.set(reading.deviceId, period);
+    }
+
+    for (const vital of AGGREGATED_VITALS) {
+      const value = reading[vital];
+      if (value === undefined) continue;
+
+      const statistics = period.statistics[vital];
+      if (statistics) {
+        statistics.min = Math.min(statistics.min, value);
+        statistics.max = Math.max(statistics.max, value);
+        statistics.sum += value;
+        statistics.count++;
+      } else {
+        period.statistics[vital] = { min: value, max: value, sum: value, count: 1 };
+      }
+    }
+
+    period.sampleCount++;
+    period.lastReceivedAt = (reading.receivedAt ?? new Date()).getTime();
+    if (hrv) period.hrv = hrv;
+
+    return completed;
+  }
+
+  /**
+   * Summaries of periods that ended before `now`, for devices that stopped sending samples
+   */
+  takeCompleted(now: Date): VitalsSummary[] {
+    const completed = [...this.periods.values()].filter(
+      (period) => period.start + this.intervalMs <= now.getTime()
+    );
+    completed.forEach((period) => this.periods.delete(period.deviceId));
+    return completed.map((period) => this.summarize(period));
+  }
+
+  /**
+   * Summary of a device's current period, e.g. when it disconnects
+   */
+  takeDevice(deviceId: string): VitalsSummary | null {
+    const period = this.periods.get(deviceId);
+    if (!period) return null;
+
+    this.periods.delete(deviceId);
+    return this.summarize(period);
+  }
+
+  private summarize(period: AggregationPeriod): VitalsSummary {
+    const vitals: VitalsSummary['vitals'] = {};
+
+    for (const vital of AGGREGATED_VITALS) {
+      const statistics = period.statistics[vital];
+      if (!statistics) continue;
+
+      vitals[vital] = {
+        min: statistics.min,
+        mean: Math.round((statistics.sum / statistics.count) * 10) / 10,
+        max: statistics.max,
+      };
+    }
+
+    return {
+      deviceId: period.deviceId,
+      periodStart: new Date(period.start),
+      periodEnd: new Date(period.start + this.intervalMs),
+      receivedAt: new Date(period.lastReceivedAt),
+      sampleCount: period.sampleCount,
+      vitals,
+      hrv: period.hrv,
+    };
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Vitals Write Queue
+ * Readings are queued on the device before they are written to Firebase, so a
+ * reading taken without connectivity survives the app being closed and is
+ * uploaded once the network returns. The queue is kept in IndexedDB in the
+ * browser and in Capacitor Preferences in the iOS app.
+ *
+ * Each entry carries an idempotency key generated when the reading arrived. It
+ * is used as the vitals document ID, so retrying a write that already reached
+ * Firebase overwrites the same document instead of creating a duplicate.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Preferences } from '@capacitor/preferences';
+import { TypedEventEmitter } from './eventEmitter';
+
+export interface QueuedVitals {
+  key: string; // Idempotency key, used as the vitals document ID
+  userId: string;
+  deviceId: string;
+  sequenceNumber?: number;
+  // Vitals document fields; timestamp and receivedAt are stored as epoch milliseconds
+  data: Record<string, unknown> & { timestamp: number; receivedAt: number };
+  enqueuedAt: number;
+  attempts: number;
+}
+
+export interface VitalsQueueEvents {
+  change: { userId: string; pending: number };
+}
+
+interface QueueStorage {
+  load(): Promise<QueuedVitals[]>;
+  save(entries: QueuedVitals[]): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+const DATABASE_NAME = 'healthcomm';
+const STORE_NAME = 'vitalsQueue';
+const PREFERENCES_KEY = 'vitalsQueue';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser storage: one IndexedDB record per queued reading
+ */
+class IndexedDbStorage implements QueueStorage {
+  private database?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      this.database = promisify(request);
+    }
+    return this.database;
+  }
+
+  private async transaction(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, mode);
+    run(transaction.objectStore(STORE_NAME));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async load(): Promise<QueuedVitals[]> {
+    const database = await this.open();
+    const store = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return promisify(store.getAll() as IDBRequest<QueuedVitals[]>);
+  }
+
+  save(entries: QueuedVitals[]): Promise<void> {
+    return this.transaction('readwrite', (store) => entries.forEach((entry) => store.put(entry)));
+  }
+
+  remove(keys: string[]): Promise<void> {
+    return this.transaction('readwrite', (store) => keys.forEach((key) => store.delete(key)));
+  }
+}
+
+/**
+ * Native app storage: the whole queue as one JSON value in Capacitor Preferences
+ */
+class PreferencesStorage implements QueueStorage {
+  private entries: Map<string, QueuedVitals> = new Map();
+
+  async load(): Promise<QueuedVitals[]> {
+    const { value } = await Preferences.get({ key: PREFERENCES_KEY });
+    const entries: QueuedVitals[] = value ? JSON.parse(value) : [];
+    this.entries = new Map(entries.map((entry) => [entry.key, entry]));
+    return entries;
+  }
+
+  async save(entries: QueuedVitals[]): Promise<void> {
+    entries.forEach((entry) => this.entries.set(entry.key, entry));
+    await this.persist();
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    return Preferences.set({ key: PREFERENCES_KEY, value: JSON.stringify([...this.entries.values()]) });
+  }
+}
+
+class VitalsQueue extends TypedEventEmitter<VitalsQueueEvents> {
+  private storage: QueueStorage = Capacitor.isNativePlatform() ? new PreferencesStorage() : new IndexedDbStorage();
+  private entries: Map<string, QueuedVitals> = new Map();
+  private loaded?: Promise<void>;
+
+  /**
+   * Load readings left in the queue by a previous session
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.storage
+        .load()
+        .then((entries) => entries.forEach((entry) => this.entries.set(entry.key, entry)))
+        .catch((error) => console.error('Error loading queued vitals:', error));
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Persist a reading until it has been written to Firebase.
+   * Resolves false if it is only held in memory because storage failed.
+   */
+  async enqueue(entry: Omit<QueuedVitals, 'enqueuedAt' | 'attempts'>): Promise<boolean> {
+    await this.load();
+
+    const queued: QueuedVitals = { ...entry, enqueuedAt: Date.now(), attempts: 0 };
+    this.entries.set(queued.key, queued);
+    this.emitChange(queued.userId);
+
+    try {
+      await this.storage.save([queued]);
+      return true;
+    } catch (error) {
+      // Still held in memory, so it is uploaded unless the app closes first
+      console.error('Error persisting queued vitals:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The user's oldest queued readings, in the order they arrived
+   */
+  async peek(userId: string, limit: number): Promise<QueuedVitals[]> {
+    await this.load();
+
+    return [...this.entries.values()]
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Drop readings that have been written to Firebase, or that Firebase rejected
+   */
+  async remove(userId: string, keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+    this.emitChange(userId);
+    await this.storage.remove(keys);
+  }
+
+  /**
+   * Count a failed upload attempt against each reading still in the queue
+   */
+  async recordAttempt(entries: QueuedVitals[]): Promise<void> {
+    const queued = entries.filter((entry) => this.entries.has(entry.key));
+    queued.forEach((entry) => entry.attempts++);
+    await this.storage.save(queued);
+  }
+
+  /**
+   * Number of the user's readings waiting to be uploaded
+   */
+  async pendingCount(userId: string): Promise<number> {
+    await this.load();
+    return this.countFor(userId);
+  }
+
+  private countFor(userId: string): number {
+    return [...this.entries.values()].filter((entry) => entry.userId === userId).length;
+  }
+
+  private emitChange(userId: string): void {
+    this.emit('change', { userId, pending: this.countFor(userId) });
+  }
+}
+
+// Export singleton instance
+export const vitalsQueue = new VitalsQueue();
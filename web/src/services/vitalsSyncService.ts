@@ -4,22 +4,165 @@
  * and syncs to Firebase for real-time monitoring
  */
 
-import { collection, addDoc, Timestamp, doc, updateDoc } from 'firebase/firestore';
+import {
+  collection,
+  Timestamp,
+  doc,
+  updateDoc,
+  onSnapshot,
+  setDoc,
+  getDoc,
+  increment,
+  writeBatch,
+  FirestoreError,
+} from 'firebase/firestore';
 import { db } from './firebase';
 import { bluetoothService } from './bluetoothService';
+import { isSimulatedDeviceId, simulatedDeviceService, type SimulationOptions } from './simulatedDeviceService';
 import { healthPlatformService } from './healthPlatformService';
-import type { VitalsReading, SyncConfig, SyncStatus } from './types';
+import { evaluateThresholds, resolveThresholdProfile } from './alertThresholds';
+import { HRV_UPDATE_INTERVAL_MS, RollingRrWindow, type HrvMetrics } from './hrv';
+import { vitalsQueue, type QueuedVitals } from './vitalsQueue';
+import { AGGREGATED_VITALS, VitalsAggregator, isAggregatable, type VitalsSummary } from './vitalsAggregator';
+import {
+  advanceCursor,
+  dropSyncedData,
+  mergeCursors,
+  readingDataTypes,
+  type HealthDataType,
+  type SyncCursor,
+} from './syncCursor';
+import type { Unsubscribe } from './eventEmitter';
+import type {
+  BluetoothDeviceInfo,
+  BluetoothDeviceProvider,
+  BluetoothDeviceType,
+  DeviceConnectionStatus,
+  DeviceEvents,
+  DeviceInformation,
+  VitalsReading,
+  SyncConfig,
+  SyncStatus,
+  ThresholdOverrides,
+  VitalsAlert,
+} from './types';
+
+// A gap in RR intervals longer than this starts a new HRV session
+const HRV_SESSION_GAP_MS = 2 * 60 * 1000;
+
+// Health platforms are polled, so their readings are checked against per-source sync cursors
+const HEALTH_PLATFORM_DEVICE_IDS = ['google-fit', 'apple-health'] as const;
+
+function isHealthPlatformDeviceId(deviceId: string): boolean {
+  return (HEALTH_PLATFORM_DEVICE_IDS as readonly string[]).includes(deviceId);
+}
+
+// Streamed samples are summarized per minute unless configured otherwise
+const DEFAULT_AGGREGATION_INTERVAL_SECONDS = 60;
+
+// Queued readings written to Firebase per batch
+const FLUSH_BATCH_SIZE = 50;
+
+// Failed flushes are retried with exponential backoff between these delays
+const FLUSH_RETRY_BASE_MS = 5 * 1000;
+const FLUSH_RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Write errors that retrying cannot fix, such as a reading rejected by the security rules
+const PERMANENT_WRITE_ERROR_CODES = ['permission-denied', 'invalid-argument'];
+
+function isPermanentWriteError(error: unknown): boolean {
+  return error instanceof FirestoreError && PERMANENT_WRITE_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * When a queued reading was measured. A summary is timestamped with the start of its period
+ * but covers samples up to its end, including any alerting samples stored on their own.
+ */
+function measuredUntil(entry: QueuedVitals): number {
+  return typeof entry.data.periodEnd === 'number' ? entry.data.periodEnd : entry.data.timestamp;
+}
+
+/**
+ * RR intervals recorded from one heart rate strap in one continuous wear.
+ * Intervals are stored in chunks under patients/{id}/hrvSessions/{sessionId}/rrChunks.
+ */
+interface HrvSession {
+  id: string;
+  deviceId: string;
+  window: RollingRrWindow;
+  pendingIntervals: number[];
+  pendingSince: Date;
+  chunkIndex: number;
+  lastIntervalAt: Date;
+  lastComputedAt: Date;
+}
+
+// Real Bluetooth devices and simulated ones feed the same pipeline
+const BLUETOOTH_PROVIDERS: BluetoothDeviceProvider[] = [bluetoothService, simulatedDeviceService];
+
+/**
+ * The provider that owns a Bluetooth device
+ */
+function providerFor(deviceId: string): BluetoothDeviceProvider {
+  return isSimulatedDeviceId(deviceId) ? simulatedDeviceService : bluetoothService;
+}
+
+/**
+ * Subscribe to an event on every Bluetooth provider, returning one handle for all of them
+ */
+function onBluetoothEvent<K extends keyof DeviceEvents>(
+  event: K,
+  listener: (payload: DeviceEvents[K]) => void
+): Unsubscribe {
+  const unsubscribers = BLUETOOTH_PROVIDERS.map((provider) => provider.on(event, listener));
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+/**
+ * Firestore document IDs cannot contain '/', which Web Bluetooth device IDs may
+ */
+function toDocumentId(id: string): string {
+  return id.replace(/\//g, '_');
+}
 
 class VitalsSyncService {
   private config?: SyncConfig;
   private syncInterval?: NodeJS.Timeout;
   private lastSyncTime?: Date;
+  // Measurement time of the reading saved as the user's lastVitals, or the end of its period for a summary
+  private lastVitalsTimestamp?: Date;
+  // Alert conditions the latest streamed sample from each device is in
+  private alertingConditions: Map<string, Set<string>> = new Map();
+  private chronicConditions: string[] = [];
+  private thresholdOverrides: ThresholdOverrides = {};
+  private thresholdUnsubscribers: (() => void)[] = [];
+  private hrvSessions: Map<string, HrvSession> = new Map();
+  // Highest record sequence number saved per device
+  private syncedSequenceNumbers: Map<string, number> = new Map();
+  // Newest point saved per data type, per health platform
+  private platformCursors: Map<string, SyncCursor> = new Map();
+  private dataUnsubscribers: Unsubscribe[] = [];
+  private flushing = false;
+  private flushRetryTimeout?: ReturnType<typeof setTimeout>;
+  private failedFlushes = 0;
+  private pendingReadings = 0;
+  private aggregator?: VitalsAggregator;
+  private aggregationTimer?: ReturnType<typeof setInterval>;
+  private handleOnline = () => {
+    this.flushPendingVitals();
+  };
 
   /**
    * Initialize the sync service
    */
   async initialize(config: SyncConfig): Promise<void> {
     this.config = config;
+    this.lastVitalsTimestamp = undefined;
+    this.alertingConditions = new Map();
+    this.platformCursors = new Map();
+    this.loadPlatformCursors(config.userId).catch((error) => {
+      console.error('Error loading health platform sync cursors:', error);
+    });
 
     // Initialize health platform service
     if (config.googleFitClientId) {
@@ -31,30 +174,96 @@ class VitalsSyncService {
     // Set up data callbacks
     this.setupDataCallbacks();
 
+    // Receive HealthKit samples delivered while the app was closed
+    healthPlatformService.resumeAppleHealth().catch((error) => {
+      console.error('Error resuming Apple Health:', error);
+    });
+
+    // Keep the patient's alert threshold profile up to date
+    this.watchThresholdProfile(config.userId);
+
+    // Summarize high-frequency streams; samples from a previous session's periods are dropped
+    this.setUpAggregation(config.aggregationInterval ?? DEFAULT_AGGREGATION_INTERVAL_SECONDS);
+
+    // Upload readings queued while offline, now and whenever connectivity returns
+    window.removeEventListener('online', this.handleOnline);
+    window.addEventListener('online', this.handleOnline);
+    this.failedFlushes = 0;
+    this.flushPendingVitals();
+
     console.log('Vitals sync service initialized');
   }
 
+  private setUpAggregation(intervalSeconds: number): void {
+    clearInterval(this.aggregationTimer);
+    this.aggregator = undefined;
+    if (intervalSeconds <= 0) return;
+
+    this.aggregator = new VitalsAggregator(intervalSeconds * 1000);
+    // Close periods of devices that stopped streaming
+    this.aggregationTimer = setInterval(() => {
+      this.queueSummaries(this.aggregator?.takeCompleted(new Date()) ?? []).catch(console.error);
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Listen for changes to the patient's chronic conditions and threshold overrides
+   */
+  private watchThresholdProfile(userId: string): void {
+    this.thresholdUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.chronicConditions = [];
+    this.thresholdOverrides = {};
+
+    this.thresholdUnsubscribers = [
+      onSnapshot(
+        doc(db, 'users', userId),
+        (snapshot) => {
+          this.chronicConditions = snapshot.data()?.chronicConditions || [];
+        },
+        (error) => console.error('Error loading chronic conditions:', error)
+      ),
+      onSnapshot(
+        doc(db, 'patients', userId, 'settings', 'alertThresholds'),
+        (snapshot) => {
+          this.thresholdOverrides = snapshot.data()?.overrides || {};
+        },
+        (error) => console.error('Error loading alert thresholds:', error)
+      ),
+    ];
+  }
+
   /**
    * Set up callbacks for receiving data from various sources
    */
   private setupDataCallbacks(): void {
-    // Bluetooth device data
-    bluetoothService.onData((reading) => {
-      this.saveVitalsReading(reading);
-    });
-
-    // Health platform data
-    healthPlatformService.onData((reading) => {
-      this.saveVitalsReading(reading);
-    });
+    // Initializing again must not save each reading twice
+    this.dataUnsubscribers.forEach((unsubscribe) => unsubscribe());
+
+    this.dataUnsubscribers = [
+      // Bluetooth device data, real or simulated
+      onBluetoothEvent('reading', ({ reading }) => this.saveVitalsReading(reading)),
+
+      // Bluetooth connects, disconnects, and automatic reconnects
+      onBluetoothEvent('connection', ({ device, status }) => {
+        this.handleBluetoothConnectionChange(device.id, status);
+      }),
+
+      // Health platform data; returned so HealthKit keeps delivered samples until they are queued
+      healthPlatformService.on('reading', ({ reading, incremental }) => this.saveVitalsReading(reading, incremental)),
+
+      // Readings waiting to be uploaded
+      this.onPendingReadingsChange((pending) => {
+        this.pendingReadings = pending;
+      }),
+    ];
   }
 
   /**
    * Connect to a Bluetooth device
    */
   async connectBluetoothDevice(
-    deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter'
-  ): Promise<{ id: string; name: string; type: string }> {
+    deviceType: 'heart_rate' | 'blood_pressure' | 'glucose' | 'temperature' | 'pulse_oximeter' | 'weight_scale'
+  ): Promise<BluetoothDeviceInfo> {
     if (!bluetoothService.isSupported()) {
       throw new Error('Bluetooth is not supported in this browser. Please use Chrome, Edge, or Opera.');
     }
@@ -67,17 +276,118 @@ class VitalsSyncService {
 
       console.log(`Connected to Bluetooth device: ${deviceInfo.name}`);
 
-      return {
-        id: deviceInfo.id,
-        name: deviceInfo.name,
-        type: deviceInfo.type,
-      };
+      return deviceInfo;
     } catch (error) {
       console.error('Error connecting to Bluetooth device:', error);
       throw error;
     }
   }
 
+  /**
+   * Connect a simulated Bluetooth device, for development and demos without hardware
+   */
+  async connectSimulatedDevice(
+    deviceType: BluetoothDeviceType,
+    options: SimulationOptions = {}
+  ): Promise<BluetoothDeviceInfo> {
+    const deviceInfo = await simulatedDeviceService.connectDevice(deviceType, options);
+    console.log(`Connected to simulated device: ${deviceInfo.name} (${options.scenario ?? 'normal'})`);
+    return deviceInfo;
+  }
+
+  /**
+   * Reconnect to a previously paired Bluetooth device without prompting the user
+   */
+  async reconnectBluetoothDevice(deviceId: string, deviceType: BluetoothDeviceType): Promise<boolean> {
+    return providerFor(deviceId).reconnectDevice(deviceId, deviceType);
+  }
+
+  /**
+   * Subscribe to Bluetooth device connection changes
+   */
+  onDeviceConnectionChange(callback: (deviceId: string, status: DeviceConnectionStatus) => void): Unsubscribe {
+    return onBluetoothEvent('connection', ({ device, status }) => callback(device.id, status));
+  }
+
+  /**
+   * Subscribe to the Device Information read each time a Bluetooth device connects
+   */
+  onDeviceInformation(callback: (deviceId: string, information: DeviceInformation) => void): Unsubscribe {
+    return onBluetoothEvent('information', ({ device, information }) => callback(device.id, information));
+  }
+
+  /**
+   * Subscribe to battery levels reported by Bluetooth devices
+   */
+  onDeviceBatteryLevel(callback: (deviceId: string, level: number) => void): Unsubscribe {
+    return onBluetoothEvent('battery', ({ device, level }) => callback(device.id, level));
+  }
+
+  private handleBluetoothConnectionChange(deviceId: string, status: DeviceConnectionStatus): void {
+    if (status === 'offline') {
+      this.endHrvSession(deviceId).catch(console.error);
+      this.closeAggregationPeriod(deviceId);
+    }
+
+    // Upload readings the meter stored while it was disconnected, on first connect and every reconnect
+    if (status === 'online' && providerFor(deviceId).getDeviceType(deviceId) === 'glucose') {
+      this.syncGlucoseRecords(deviceId).catch((error) => {
+        console.error('Error downloading stored glucose records:', error);
+      });
+    }
+  }
+
+  /**
+   * Download stored records from a connected glucose meter.
+   * Only records after the last synced sequence number are requested unless `fullSync` is set.
+   */
+  async syncGlucoseRecords(deviceId: string, fullSync: boolean = false): Promise<number> {
+    if (!this.config?.userId) {
+      throw new Error('User ID not set, cannot sync glucose records');
+    }
+
+    const syncStateRef = doc(db, `patients/${this.config.userId}/syncState`, toDocumentId(deviceId));
+    const syncState = await getDoc(syncStateRef);
+    const lastSequenceNumber: number | undefined = syncState.data()?.lastSequenceNumber;
+
+    if (lastSequenceNumber !== undefined) {
+      this.syncedSequenceNumbers.set(deviceId, lastSequenceNumber);
+    }
+
+    const received = await providerFor(deviceId).requestGlucoseRecords(
+      deviceId,
+      fullSync ? undefined : lastSequenceNumber
+    );
+
+    await setDoc(syncStateRef, { lastSyncedAt: Timestamp.now() }, { merge: true });
+    console.log(`Downloaded ${received} stored glucose record(s) from ${deviceId}`);
+    return received;
+  }
+
+  /**
+   * Load the health platform sync cursors saved by earlier sessions
+   */
+  private async loadPlatformCursors(userId: string): Promise<void> {
+    const [googleFit, appleHealth] = await Promise.all(
+      HEALTH_PLATFORM_DEVICE_IDS.map(async (deviceId) => {
+        const syncState = await getDoc(doc(db, `patients/${userId}/syncState`, deviceId));
+        const saved: Record<string, Timestamp> = syncState.data()?.cursors ?? {};
+
+        const cursor: SyncCursor = {};
+        Object.entries(saved).forEach(([type, timestamp]) => {
+          cursor[type as HealthDataType] = timestamp.toDate();
+        });
+
+        // Readings may already have been saved while the cursors were loading
+        const merged = mergeCursors(cursor, this.platformCursors.get(deviceId) ?? {});
+        this.platformCursors.set(deviceId, merged);
+        return merged;
+      })
+    );
+
+    healthPlatformService.restoreSyncCursors({ googleFit, appleHealth });
+  }
+
   /**
    * Connect to Google Fit
    */
@@ -127,16 +437,9 @@ class VitalsSyncService {
    * Sync recent data from Google Fit
    */
   private async syncGoogleFitData(): Promise<void> {
-    const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - 24 * 60 * 60 * 1000); // Last 24 hours
-
     try {
-      const vitals = await healthPlatformService.fetchAllVitals(startTime, endTime);
-
-      // Save all vitals to Firebase
-      for (const reading of vitals) {
-        await this.saveVitalsReading(reading);
-      }
+      // Readings are saved as they are emitted; only points after the sync cursors are fetched
+      const vitals = await healthPlatformService.syncGoogleFit();
 
       this.lastSyncTime = new Date();
       console.log(`Synced ${vitals.length} vitals from Google Fit`);
@@ -150,13 +453,9 @@ class VitalsSyncService {
    */
   private async syncAppleHealthData(): Promise<void> {
     try {
+      // Readings are saved as they are emitted; only points after the sync cursors are fetched
       const vitals = await healthPlatformService.syncAppleHealth();
 
-      // Save all vitals to Firebase
-      for (const reading of vitals) {
-        await this.saveVitalsReading(reading);
-      }
-
       this.lastSyncTime = new Date();
       console.log(`Synced ${vitals.length} vitals from Apple Health`);
     } catch (error) {
@@ -165,176 +464,455 @@ class VitalsSyncService {
   }
 
   /**
-   * Save a vitals reading to Firebase
+   * Queue a vitals reading for upload to Firebase.
+   * The reading is stored on the device first, so it is not lost while offline.
+   * Rejects if the reading could not be stored on the device.
    */
-  private async saveVitalsReading(reading: VitalsReading): Promise<void> {
+  private async saveVitalsReading(received: VitalsReading, incremental: boolean = false): Promise<void> {
     if (!this.config?.userId) {
-      console.error('User ID not set, cannot save vitals');
+      throw new Error('User ID not set, cannot save vitals');
+    }
+
+    const reading = isHealthPlatformDeviceId(received.deviceId)
+      ? this.dropSyncedPlatformData(received, incremental)
+      : received;
+    if (!reading) return;
+
+    const userId = this.config.userId;
+
+    // HRV is attached to the heart rate reading that completes an update interval
+    const hrv = reading.rrIntervals ? this.recordRrIntervals(reading) : null;
+
+    // Alerts are raised server-side; a streamed sample that enters an alert condition is stored
+    // on its own instead of in its summary, so the server evaluates it now
+    const aggregated =
+      !!this.aggregator &&
+      !isHealthPlatformDeviceId(reading.deviceId) &&
+      isAggregatable(reading) &&
+      !this.entersAlertCondition(reading);
+    if (this.aggregator && aggregated) {
+      await this.queueSummaries(this.aggregator.add(reading, hrv));
       return;
     }
 
-    try {
-      // Save to vitals subcollection
-      const vitalsRef = collection(db, `patients/${this.config.userId}/vitals`);
+    const vitalData: QueuedVitals['data'] = {
+      timestamp: reading.timestamp.getTime(),
+      receivedAt: (reading.receivedAt ?? new Date()).getTime(),
+      deviceId: reading.deviceId,
+    };
 
-      const vitalData: any = {
-        timestamp: Timestamp.fromDate(reading.timestamp),
-        deviceId: reading.deviceId,
+    // The summary carries HRV for aggregated samples
+    if (hrv && !aggregated) {
+      vitalData.hrvSdnn = hrv.sdnn;
+      vitalData.hrvRmssd = hrv.rmssd;
+    }
+
+    // Only include non-undefined values
+    if (reading.heartRate !== undefined) vitalData.heartRate = reading.heartRate;
+    if (reading.bloodPressureSystolic !== undefined)
+      vitalData.bloodPressureSystolic = reading.bloodPressureSystolic;
+    if (reading.bloodPressureDiastolic !== undefined)
+      vitalData.bloodPressureDiastolic = reading.bloodPressureDiastolic;
+    if (reading.oxygenLevel !== undefined) vitalData.oxygenLevel = reading.oxygenLevel;
+    if (reading.temperature !== undefined) vitalData.temperature = reading.temperature;
+    if (reading.glucose !== undefined) vitalData.glucose = reading.glucose;
+    if (reading.glucoseMeal !== undefined) vitalData.glucoseMeal = reading.glucoseMeal;
+    if (reading.weight !== undefined) vitalData.weight = reading.weight;
+    if (reading.bmi !== undefined) vitalData.bmi = reading.bmi;
+    if (reading.bodyFatPercentage !== undefined) vitalData.bodyFatPercentage = reading.bodyFatPercentage;
+    if (reading.respiration !== undefined) vitalData.respiration = reading.respiration;
+    // HRV reported by a health platform rather than computed from RR intervals
+    if (reading.hrvSdnn !== undefined && vitalData.hrvSdnn === undefined) vitalData.hrvSdnn = reading.hrvSdnn;
+    if (reading.sequenceNumber !== undefined) vitalData.sequenceNumber = reading.sequenceNumber;
+
+    // Device records and health platform points get a stable key so syncing them again does not
+    // duplicate them; other readings get a new document ID that every retry reuses
+    let key: string;
+    if (reading.sequenceNumber !== undefined) {
+      key = toDocumentId(`${reading.deviceId}_${reading.sequenceNumber}`);
+    } else if (isHealthPlatformDeviceId(reading.deviceId)) {
+      key = `${reading.deviceId}_${readingDataTypes(reading).join('-')}_${reading.timestamp.getTime()}`;
+    } else {
+      key = doc(collection(db, `patients/${userId}/vitals`)).id;
+    }
+
+    const persisted = await vitalsQueue.enqueue({
+      key,
+      userId,
+      deviceId: reading.deviceId,
+      sequenceNumber: reading.sequenceNumber,
+      data: vitalData,
+    });
+
+    this.flushPendingVitals();
+
+    if (!persisted) {
+      throw new Error('Vitals reading could not be stored on the device');
+    }
+  }
+
+  /**
+   * Queue per-interval summaries of streamed samples for upload
+   */
+  private async queueSummaries(summaries: VitalsSummary[]): Promise<void> {
+    if (!this.config?.userId || summaries.length === 0) return;
+    const userId = this.config.userId;
+
+    for (const summary of summaries) {
+      const vitalData: QueuedVitals['data'] = {
+        timestamp: summary.periodStart.getTime(),
+        periodEnd: summary.periodEnd.getTime(),
+        receivedAt: summary.receivedAt.getTime(),
+        deviceId: summary.deviceId,
+        kind: 'summary',
+        sampleCount: summary.sampleCount,
       };
 
-      // Only include non-undefined values
-      if (reading.heartRate !== undefined) vitalData.heartRate = reading.heartRate;
-      if (reading.bloodPressureSystolic !== undefined)
-        vitalData.bloodPressureSystolic = reading.bloodPressureSystolic;
-      if (reading.bloodPressureDiastolic !== undefined)
-        vitalData.bloodPressureDiastolic = reading.bloodPressureDiastolic;
-      if (reading.oxygenLevel !== undefined) vitalData.oxygenLevel = reading.oxygenLevel;
-      if (reading.temperature !== undefined) vitalData.temperature = reading.temperature;
-      if (reading.glucose !== undefined) vitalData.glucose = reading.glucose;
-
-      await addDoc(vitalsRef, vitalData);
-
-      // Update user's last vitals
-      const userRef = doc(db, 'users', this.config.userId);
-      await updateDoc(userRef, {
-        lastVitals: vitalData,
+      // The mean is stored under the vital's usual field, so charts read summaries like readings.
+      // The server alerts on the min and max of a summary instead, and never resolves alerts from one.
+      for (const vital of AGGREGATED_VITALS) {
+        const statistics = summary.vitals[vital];
+        if (!statistics) continue;
+
+        vitalData[vital] = statistics.mean;
+        vitalData[`${vital}Min`] = statistics.min;
+        vitalData[`${vital}Max`] = statistics.max;
+      }
+
+      if (summary.hrv) {
+        vitalData.hrvSdnn = summary.hrv.sdnn;
+        vitalData.hrvRmssd = summary.hrv.rmssd;
+      }
+
+      await vitalsQueue.enqueue({
+        key: doc(collection(db, `patients/${userId}/vitals`)).id,
+        userId,
+        deviceId: summary.deviceId,
+        data: vitalData,
       });
+    }
 
-      console.log('Vitals saved to Firebase:', vitalData);
+    this.flushPendingVitals();
+  }
 
-      // Check for anomalies and create alerts if needed
-      await this.checkForAnomalies(reading);
-    } catch (error) {
-      console.error('Error saving vitals to Firebase:', error);
-      throw error;
+  /**
+   * Whether a streamed sample would raise an alert that the device's previous sample did not.
+   * Samples that stay in the same condition are only stored in summaries.
+   */
+  private entersAlertCondition(reading: VitalsReading): boolean {
+    const conditions = new Set(this.previewAlerts(reading).map((alert) => alert.conditionKey));
+    const previous = this.alertingConditions.get(reading.deviceId);
+    this.alertingConditions.set(reading.deviceId, conditions);
+
+    return [...conditions].some((condition) => !previous?.has(condition));
+  }
+
+  /**
+   * Store the summary of a device's current period, e.g. when it disconnects
+   */
+  private closeAggregationPeriod(deviceId: string): void {
+    this.alertingConditions.delete(deviceId);
+    const summary = this.aggregator?.takeDevice(deviceId);
+    if (summary) {
+      this.queueSummaries([summary]).catch(console.error);
     }
   }
 
   /**
-   * Check vitals for anomalies and create alerts
+   * Drop data types a health platform reading shares with earlier syncs, advancing the source's cursor.
+   * Returns null when the reading has nothing new. Incremental readings are new by definition, so
+   * samples that reach HealthKit late are kept even when they are older than the cursor.
    */
-  private async checkForAnomalies(reading: VitalsReading): Promise<void> {
-    if (!this.config?.userId) return;
+  private dropSyncedPlatformData(reading: VitalsReading, incremental: boolean): VitalsReading | null {
+    const cursor = this.platformCursors.get(reading.deviceId) ?? {};
+    const newData = incremental ? reading : dropSyncedData(cursor, reading);
 
-    const alerts: { title: string; message: string; severity: 'low' | 'medium' | 'high' }[] = [];
+    if (newData) {
+      this.platformCursors.set(reading.deviceId, advanceCursor(cursor, newData));
+    }
+    return newData;
+  }
 
-    // Heart rate checks
-    if (reading.heartRate) {
-      if (reading.heartRate > 100) {
-        alerts.push({
-          title: 'High Heart Rate',
-          message: `Heart rate is ${reading.heartRate} bpm (elevated)`,
-          severity: reading.heartRate > 120 ? 'high' : 'medium',
-        });
-      } else if (reading.heartRate < 60) {
-        alerts.push({
-          title: 'Low Heart Rate',
-          message: `Heart rate is ${reading.heartRate} bpm (below normal)`,
-          severity: reading.heartRate < 50 ? 'high' : 'medium',
-        });
+  /**
+   * Write queued readings to Firebase in batches while the device is online.
+   * A batch rejected outright is retried one reading at a time, so only the readings that
+   * cannot be written are dropped. Transient failures keep every reading queued for a retry.
+   */
+  async flushPendingVitals(): Promise<void> {
+    if (!this.config?.userId || this.flushing || !navigator.onLine) return;
+
+    const userId = this.config.userId;
+    this.flushing = true;
+    clearTimeout(this.flushRetryTimeout);
+    let entries: QueuedVitals[] = [];
+
+    try {
+      while ((entries = await vitalsQueue.peek(userId, FLUSH_BATCH_SIZE)).length > 0) {
+        try {
+          await this.writeEntries(userId, entries);
+        } catch (error) {
+          if (!isPermanentWriteError(error)) throw error;
+          await this.writeEntriesIndividually(userId, entries);
+        }
       }
+
+      this.failedFlushes = 0;
+    } catch (error) {
+      console.error('Error uploading queued vitals to Firebase:', error);
+      await this.handleFailedFlush(entries);
+    } finally {
+      this.flushing = false;
     }
+  }
 
-    // Blood pressure checks
-    if (reading.bloodPressureSystolic && reading.bloodPressureDiastolic) {
-      if (reading.bloodPressureSystolic > 140 || reading.bloodPressureDiastolic > 90) {
-        alerts.push({
-          title: 'High Blood Pressure',
-          message: `BP is ${reading.bloodPressureSystolic}/${reading.bloodPressureDiastolic} mmHg (elevated)`,
-          severity: reading.bloodPressureSystolic > 160 ? 'high' : 'medium',
-        });
-      } else if (reading.bloodPressureSystolic < 90 || reading.bloodPressureDiastolic < 60) {
-        alerts.push({
-          title: 'Low Blood Pressure',
-          message: `BP is ${reading.bloodPressureSystolic}/${reading.bloodPressureDiastolic} mmHg (low)`,
-          severity: 'medium',
-        });
+  /**
+   * Write queued readings one at a time, dropping each one Firebase rejects outright
+   */
+  private async writeEntriesIndividually(userId: string, entries: QueuedVitals[]): Promise<void> {
+    for (const entry of entries) {
+      try {
+        await this.writeEntries(userId, [entry]);
+      } catch (error) {
+        if (!isPermanentWriteError(error)) throw error;
+
+        console.error(`Dropping vitals reading ${entry.key} that cannot be uploaded:`, error);
+        await vitalsQueue.remove(userId, [entry.key]);
       }
     }
+  }
 
-    // Oxygen level checks
-    if (reading.oxygenLevel) {
-      if (reading.oxygenLevel < 95) {
-        alerts.push({
-          title: 'Low Oxygen Saturation',
-          message: `Oxygen level is ${reading.oxygenLevel}% (below normal)`,
-          severity: reading.oxygenLevel < 90 ? 'high' : 'medium',
+  /**
+   * Write queued readings to Firebase in one batch and remove them from the queue.
+   * The batch also advances device and health platform sync cursors and the user's
+   * lastVitals, so a cursor never moves past a record that has not been saved.
+   */
+  private async writeEntries(userId: string, entries: QueuedVitals[]): Promise<void> {
+    const batch = writeBatch(db);
+    const vitalsRef = collection(db, `patients/${userId}/vitals`);
+    let latest: QueuedVitals | undefined;
+    const sequenceNumbers = new Map<string, number>();
+    const platformCursors = new Map<string, SyncCursor>();
+
+    for (const entry of entries) {
+      // Merging keeps fields the server added if an earlier attempt already succeeded
+      batch.set(doc(vitalsRef, entry.key), this.toVitalsDocument(entry), { merge: true });
+
+      if (!latest || measuredUntil(entry) > measuredUntil(latest)) latest = entry;
+      if (isHealthPlatformDeviceId(entry.deviceId)) {
+        const timestamp = new Date(entry.data.timestamp);
+        const cursor: SyncCursor = {};
+        readingDataTypes(entry.data).forEach((type) => {
+          cursor[type] = timestamp;
         });
+        platformCursors.set(entry.deviceId, mergeCursors(platformCursors.get(entry.deviceId) ?? {}, cursor));
+      }
+      if (entry.sequenceNumber !== undefined) {
+        sequenceNumbers.set(
+          entry.deviceId,
+          Math.max(entry.sequenceNumber, sequenceNumbers.get(entry.deviceId) ?? -1)
+        );
       }
     }
 
-    // Temperature checks
-    if (reading.temperature) {
-      if (reading.temperature > 37.5) {
-        alerts.push({
-          title: 'Elevated Temperature',
-          message: `Temperature is ${reading.temperature}°C (elevated)`,
-          severity: reading.temperature > 38.5 ? 'high' : 'medium',
-        });
-      } else if (reading.temperature < 36) {
-        alerts.push({
-          title: 'Low Temperature',
-          message: `Temperature is ${reading.temperature}°C (below normal)`,
-          severity: 'medium',
-        });
-      }
+    sequenceNumbers.forEach((sequenceNumber, deviceId) => {
+      const current = this.syncedSequenceNumbers.get(deviceId);
+      if (current !== undefined && sequenceNumber <= current) return;
+
+      batch.set(
+        doc(db, `patients/${userId}/syncState`, toDocumentId(deviceId)),
+        { deviceId, lastSequenceNumber: sequenceNumber, updatedAt: Timestamp.now() },
+        { merge: true }
+      );
+    });
+
+    platformCursors.forEach((cursor, deviceId) => {
+      const cursors: Record<string, Timestamp> = {};
+      Object.entries(cursor).forEach(([type, timestamp]) => {
+        cursors[type] = Timestamp.fromDate(timestamp);
+      });
+
+      batch.set(
+        doc(db, `patients/${userId}/syncState`, deviceId),
+        { deviceId, cursors, updatedAt: Timestamp.now() },
+        { merge: true }
+      );
+    });
+
+    // Update user's last vitals, unless these are older readings downloaded from a device's memory
+    const latestTimestamp = latest ? new Date(measuredUntil(latest)) : undefined;
+    const updatesLastVitals =
+      latest && latestTimestamp && (!this.lastVitalsTimestamp || latestTimestamp >= this.lastVitalsTimestamp);
+    if (latest && updatesLastVitals) {
+      batch.update(doc(db, 'users', userId), { lastVitals: this.toVitalsDocument(latest) });
     }
 
-    // Glucose checks
-    if (reading.glucose) {
-      if (reading.glucose > 180) {
-        alerts.push({
-          title: 'High Blood Glucose',
-          message: `Glucose is ${reading.glucose} mg/dL (elevated)`,
-          severity: reading.glucose > 250 ? 'high' : 'medium',
-        });
-      } else if (reading.glucose < 70) {
-        alerts.push({
-          title: 'Low Blood Glucose',
-          message: `Glucose is ${reading.glucose} mg/dL (low)`,
-          severity: reading.glucose < 54 ? 'high' : 'medium',
-        });
+    await batch.commit();
+
+    sequenceNumbers.forEach((sequenceNumber, deviceId) => {
+      const current = this.syncedSequenceNumbers.get(deviceId);
+      if (current === undefined || sequenceNumber > current) {
+        this.syncedSequenceNumbers.set(deviceId, sequenceNumber);
       }
+    });
+    if (updatesLastVitals) this.lastVitalsTimestamp = latestTimestamp;
+
+    await vitalsQueue.remove(userId, entries.map((entry) => entry.key));
+    this.lastSyncTime = new Date();
+    console.log(`Uploaded ${entries.length} queued vitals reading(s) to Firebase`);
+  }
+
+  /**
+   * Count the failure against the batch and schedule a retry with exponential backoff.
+   * The readings stay queued however often they fail, since the failure was not their fault.
+   */
+  private async handleFailedFlush(entries: QueuedVitals[]): Promise<void> {
+    try {
+      await vitalsQueue.recordAttempt(entries);
+    } catch (error) {
+      console.error('Error updating queued vitals:', error);
     }
 
-    // Save alerts to Firebase
-    if (alerts.length > 0) {
-      const alertsRef = collection(db, `patients/${this.config.userId}/alerts`);
+    const delay = Math.min(FLUSH_RETRY_BASE_MS * 2 ** this.failedFlushes, FLUSH_RETRY_MAX_MS);
+    this.failedFlushes++;
+    this.flushRetryTimeout = setTimeout(() => this.flushPendingVitals(), delay);
+  }
 
-      for (const alert of alerts) {
-        await addDoc(alertsRef, {
-          ...alert,
-          timestamp: Timestamp.now(),
-          patientId: this.config.userId,
-        });
-      }
+  /**
+   * Convert a queued reading to its Firestore vitals document
+   */
+  private toVitalsDocument(entry: QueuedVitals): Record<string, unknown> {
+    return {
+      ...entry.data,
+      timestamp: Timestamp.fromMillis(entry.data.timestamp),
+      receivedAt: Timestamp.fromMillis(entry.data.receivedAt),
+      ...(typeof entry.data.periodEnd === 'number' && { periodEnd: Timestamp.fromMillis(entry.data.periodEnd) }),
+    };
+  }
+
+  /**
+   * Subscribe to the number of readings waiting to be uploaded
+   */
+  onPendingReadingsChange(callback: (pending: number) => void): Unsubscribe {
+    if (this.config?.userId) {
+      vitalsQueue.pendingCount(this.config.userId).then(callback).catch(console.error);
+    }
+
+    return vitalsQueue.on('change', ({ userId, pending }) => {
+      if (userId === this.config?.userId) callback(pending);
+    });
+  }
+
+  /**
+   * Add a reading's RR intervals to its device's HRV session, storing them in chunks.
+   * Returns SDNN/RMSSD over the rolling window once per HRV_UPDATE_INTERVAL_MS.
+   * Session writes are not awaited, so an offline device does not hold up the reading.
+   */
+  private recordRrIntervals(reading: VitalsReading): HrvMetrics | null {
+    if (!this.config?.userId || !reading.rrIntervals?.length) return null;
+
+    const now = reading.timestamp;
+    let session = this.hrvSessions.get(reading.deviceId);
+
+    if (session && now.getTime() - session.lastIntervalAt.getTime() > HRV_SESSION_GAP_MS) {
+      this.endHrvSession(reading.deviceId).catch(console.error);
+      session = undefined;
+    }
+
+    if (!session) {
+      const sessionRef = doc(collection(db, `patients/${this.config.userId}/hrvSessions`));
+      session = {
+        id: sessionRef.id,
+        deviceId: reading.deviceId,
+        window: new RollingRrWindow(),
+        pendingIntervals: [],
+        pendingSince: now,
+        chunkIndex: 0,
+        lastIntervalAt: now,
+        lastComputedAt: now,
+      };
+      this.hrvSessions.set(reading.deviceId, session);
+
+      setDoc(sessionRef, {
+        deviceId: reading.deviceId,
+        startedAt: Timestamp.fromDate(now),
+        lastUpdatedAt: Timestamp.fromDate(now),
+        intervalCount: 0,
+      }).catch((error) => console.error('Error saving HRV session:', error));
+    }
+
+    session.window.add(reading.rrIntervals, now);
+    session.pendingIntervals.push(...reading.rrIntervals);
+    session.lastIntervalAt = now;
+
+    if (now.getTime() - session.lastComputedAt.getTime() < HRV_UPDATE_INTERVAL_MS) return null;
+    session.lastComputedAt = now;
+
+    const metrics = session.window.metrics();
+    this.flushHrvSession(session, metrics);
+    return metrics;
+  }
+
+  /**
+   * Write buffered RR intervals as the session's next chunk and update its summary
+   */
+  private async flushHrvSession(session: HrvSession, metrics: HrvMetrics | null): Promise<void> {
+    if (!this.config?.userId || session.pendingIntervals.length === 0) return;
 
-      // Update user status based on highest severity
-      const highestSeverity = alerts.some(a => a.severity === 'high')
-        ? 'critical'
-        : alerts.some(a => a.severity === 'medium')
-        ? 'warning'
-        : 'stable';
+    const sessionPath = `patients/${this.config.userId}/hrvSessions/${session.id}`;
+    const intervals = session.pendingIntervals;
+    session.pendingIntervals = [];
 
-      const userRef = doc(db, 'users', this.config.userId);
-      await updateDoc(userRef, {
-        status: highestSeverity,
+    try {
+      await setDoc(doc(db, `${sessionPath}/rrChunks`, String(session.chunkIndex).padStart(5, '0')), {
+        startedAt: Timestamp.fromDate(session.pendingSince),
+        rrIntervals: intervals,
       });
+      session.chunkIndex++;
+      session.pendingSince = session.lastIntervalAt;
 
-      console.log(`Created ${alerts.length} alert(s)`);
+      await updateDoc(doc(db, sessionPath), {
+        lastUpdatedAt: Timestamp.fromDate(session.lastIntervalAt),
+        intervalCount: increment(intervals.length),
+        ...(metrics && { latestSdnn: metrics.sdnn, latestRmssd: metrics.rmssd }),
+      });
+    } catch (error) {
+      console.error('Error saving HRV session:', error);
     }
   }
 
+  /**
+   * Flush and close a device's HRV session
+   */
+  private async endHrvSession(deviceId: string): Promise<void> {
+    const session = this.hrvSessions.get(deviceId);
+    if (!session) return;
+
+    this.hrvSessions.delete(deviceId);
+    await this.flushHrvSession(session, session.window.metrics());
+  }
+
+  /**
+   * Preview which alerts a reading would raise under the patient's threshold profile.
+   * Alerts are created server-side by onVitalsCreated; this never writes to Firebase.
+   */
+  previewAlerts(reading: VitalsReading): VitalsAlert[] {
+    const profile = resolveThresholdProfile(this.chronicConditions, this.thresholdOverrides);
+    return evaluateThresholds(reading, profile);
+  }
+
   /**
    * Get sync status
    */
   getSyncStatus(): SyncStatus {
+    const connectedDevices = BLUETOOTH_PROVIDERS.flatMap((provider) => provider.getConnectedDevices());
+
     return {
-      isBluetoothConnected: bluetoothService.getConnectedDevices().length > 0,
+      isBluetoothConnected: connectedDevices.length > 0,
       isGoogleFitConnected: healthPlatformService.isGoogleFitConnected(),
       isAppleHealthConnected: healthPlatformService.isAppleHealthConnected(),
       lastSyncTime: this.lastSyncTime,
-      syncedDevices: bluetoothService.getConnectedDevices(),
+      syncedDevices: connectedDevices,
+      pendingReadings: this.pendingReadings,
     };
   }
 
@@ -359,7 +937,9 @@ class VitalsSyncService {
    * Disconnect from a Bluetooth device
    */
   async disconnectBluetoothDevice(deviceId: string): Promise<void> {
-    await bluetoothService.disconnectDevice(deviceId);
+    await providerFor(deviceId).disconnectDevice(deviceId);
+    await this.endHrvSession(deviceId);
+    this.closeAggregationPeriod(deviceId);
     await this.updateDeviceStatus(deviceId, 'offline');
   }
 